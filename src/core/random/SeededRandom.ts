@@ -0,0 +1,86 @@
+/**
+ * Where a SeededRandom stands: enough to continue the same sequence
+ */
+export interface RandomState {
+  seed: number;
+  cursor: number; // How many numbers have been drawn
+}
+
+/**
+ * A seeded pseudo-random number generator (mulberry32). Each number depends
+ * only on the seed and how many numbers came before it, so saving the seed
+ * and cursor is enough to replay the same outcomes.
+ */
+export class SeededRandom {
+  private seed: number;
+  private cursor: number = 0;
+
+  /**
+   * @param seed Any 32-bit integer (default: a random seed)
+   */
+  constructor(seed: number = SeededRandom.createSeed()) {
+    this.seed = seed >>> 0;
+  }
+
+  /**
+   * Make a seed from Math.random
+   */
+  public static createSeed(): number {
+    return Math.floor(Math.random() * 0x100000000);
+  }
+
+  /**
+   * Draw a number in [0, 1)
+   */
+  public next(): number {
+    this.cursor++;
+    let t = (this.seed + Math.imul(this.cursor, 0x6d2b79f5)) >>> 0;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * Draw an integer in [min, max]
+   * @param min The lowest value
+   * @param max The highest value
+   */
+  public nextInt(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * Draw an index with probability proportional to its weight
+   * @param weights Non-negative weights
+   * @returns The index, or -1 if no weight is positive
+   */
+  public pickWeighted(weights: number[]): number {
+    const total = weights.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+    if (total <= 0) return -1;
+
+    let roll = this.next() * total;
+    for (const [index, weight] of weights.entries()) {
+      if (weight <= 0) continue;
+      roll -= weight;
+      if (roll < 0) return index;
+    }
+    // Rounding can leave the roll at the very end
+    return weights.map((weight) => weight > 0).lastIndexOf(true);
+  }
+
+  /**
+   * Get the seed and cursor, e.g. for a save
+   */
+  public getState(): RandomState {
+    return { seed: this.seed, cursor: this.cursor };
+  }
+
+  /**
+   * Continue a saved sequence
+   * @param state A state from getState
+   */
+  public setState(state: RandomState): void {
+    this.seed = state.seed >>> 0;
+    this.cursor = state.cursor;
+  }
+}
@@ -0,0 +1,240 @@
+export type JsonSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null';
+
+/**
+ * The subset of JSON Schema (draft-07) the validator understands. Other
+ * keywords may appear in a schema for editors but are not checked.
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string; // Only local references, e.g. '#/definitions/StoryNode'
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+
+  // Objects
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  minProperties?: number;
+
+  // Arrays
+  items?: JsonSchema;
+  minItems?: number;
+
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+
+  definitions?: Record<string, JsonSchema>;
+}
+
+/**
+ * A single place where data does not match a schema
+ */
+export interface SchemaViolation {
+  keyword:
+    | 'type'
+    | 'enum'
+    | 'anyOf'
+    | 'required'
+    | 'additionalProperties'
+    | 'minProperties'
+    | 'minItems'
+    | 'minimum'
+    | 'maximum';
+  message: string;
+  path: Array<string | number>; // Data path of the offending value
+}
+
+export class SchemaValidator {
+  /**
+   * Validate data against a schema and return every violation
+   * @param schema The schema; `$ref`s resolve against it
+   * @param data The data to validate
+   */
+  public static validate(schema: JsonSchema, data: unknown): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    this.check(schema, schema, data, [], violations);
+    return violations;
+  }
+
+  /**
+   * Get the JSON Schema type name of a value
+   * @param value The value to describe
+   */
+  public static typeOf(value: unknown): JsonSchemaType {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value as JsonSchemaType;
+  }
+
+  private static check(
+    root: JsonSchema,
+    schema: JsonSchema,
+    data: unknown,
+    path: Array<string | number>,
+    violations: SchemaViolation[]
+  ): void {
+    if (schema.$ref) {
+      schema = this.resolve(root, schema.$ref);
+    }
+
+    if (schema.type !== undefined && !this.matchesType(schema.type, data)) {
+      const expected = Array.isArray(schema.type) ? schema.type.join(' or ') : schema.type;
+      violations.push({
+        keyword: 'type',
+        message: `must be ${expected}, got ${this.typeOf(data)}`,
+        path
+      });
+      return;
+    }
+
+    if (schema.enum && !schema.enum.includes(data)) {
+      violations.push({
+        keyword: 'enum',
+        message: `must be one of ${schema.enum.map((value) => JSON.stringify(value)).join(', ')}`,
+        path
+      });
+    }
+
+    if (schema.anyOf) {
+      this.checkAnyOf(root, schema.anyOf, data, path, violations);
+    }
+
+    if (this.typeOf(data) === 'object') {
+      this.checkObject(root, schema, data as Record<string, unknown>, path, violations);
+    } else if (Array.isArray(data)) {
+      if (schema.minItems !== undefined && data.length < schema.minItems) {
+        violations.push({
+          keyword: 'minItems',
+          message: `must have at least ${schema.minItems} item(s)`,
+          path
+        });
+      }
+      if (schema.items) {
+        for (const [index, item] of data.entries()) {
+          this.check(root, schema.items, item, [...path, index], violations);
+        }
+      }
+    } else if (typeof data === 'number') {
+      if (schema.minimum !== undefined && data < schema.minimum) {
+        violations.push({ keyword: 'minimum', message: `must be >= ${schema.minimum}`, path });
+      }
+      if (schema.maximum !== undefined && data > schema.maximum) {
+        violations.push({ keyword: 'maximum', message: `must be <= ${schema.maximum}`, path });
+      }
+    }
+  }
+
+  private static checkObject(
+    root: JsonSchema,
+    schema: JsonSchema,
+    data: Record<string, unknown>,
+    path: Array<string | number>,
+    violations: SchemaViolation[]
+  ): void {
+    for (const key of schema.required || []) {
+      if (data[key] === undefined) {
+        violations.push({ keyword: 'required', message: `must have '${key}'`, path });
+      }
+    }
+
+    const keys = Object.keys(data);
+    if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+      violations.push({
+        keyword: 'minProperties',
+        message: `must have at least ${schema.minProperties} entr${schema.minProperties === 1 ? 'y' : 'ies'}`,
+        path
+      });
+    }
+
+    for (const key of keys) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        this.check(root, propertySchema, data[key], [...path, key], violations);
+      } else if (schema.additionalProperties === false) {
+        violations.push({
+          keyword: 'additionalProperties',
+          message: `unknown property '${key}'`,
+          path: [...path, key]
+        });
+      } else if (typeof schema.additionalProperties === 'object') {
+        this.check(root, schema.additionalProperties, data[key], [...path, key], violations);
+      }
+    }
+  }
+
+  /**
+   * Valid when any branch is. Otherwise report the violations of the first
+   * branch whose type fits, since that is almost always the one the author meant.
+   */
+  private static checkAnyOf(
+    root: JsonSchema,
+    branches: JsonSchema[],
+    data: unknown,
+    path: Array<string | number>,
+    violations: SchemaViolation[]
+  ): void {
+    const results = branches.map((branch) => this.validateAt(root, branch, data, path));
+    if (results.some((result) => result.length === 0)) return;
+
+    const typed = results.find(
+      (result) =>
+        !result.some((violation) => violation.keyword === 'type' && violation.path === path)
+    );
+    if (typed) {
+      violations.push(...typed);
+      return;
+    }
+
+    const expected = branches
+      .map((branch) => (branch.$ref ? this.resolve(root, branch.$ref) : branch).type)
+      .filter((type) => type !== undefined)
+      .flat();
+    violations.push({
+      keyword: 'anyOf',
+      message: expected.length
+        ? `must be ${[...new Set(expected)].join(' or ')}, got ${this.typeOf(data)}`
+        : 'does not match any allowed form',
+      path
+    });
+  }
+
+  private static validateAt(
+    root: JsonSchema,
+    schema: JsonSchema,
+    data: unknown,
+    path: Array<string | number>
+  ): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    this.check(root, schema, data, path, violations);
+    return violations;
+  }
+
+  private static matchesType(type: JsonSchemaType | JsonSchemaType[], data: unknown): boolean {
+    const actual = this.typeOf(data);
+    return (Array.isArray(type) ? type : [type]).some(
+      (expected) => expected === actual || (expected === 'number' && actual === 'integer')
+    );
+  }
+
+  private static resolve(root: JsonSchema, ref: string): JsonSchema {
+    const match = /^#\/definitions\/(.+)$/.exec(ref);
+    const schema = match ? root.definitions?.[match[1]] : undefined;
+    if (!schema) {
+      throw new Error(`Unresolvable schema reference '${ref}'`);
+    }
+    return schema;
+  }
+}
@@ -0,0 +1,51 @@
+import { CompiledCondition, CompiledScript, ScriptCompiler } from './ScriptCompiler';
+import { ScriptOrigin } from './ScriptError';
+
+/**
+ * Compiled conditions and scripts of one story, by source and origin. The
+ * parser fills it while validating a story and the runtime's nodes run from
+ * it, so each source is compiled once and every path runs the same code.
+ */
+export class ScriptCache {
+  private conditions: Map<string, CompiledCondition> = new Map();
+  private scripts: Map<string, CompiledScript> = new Map();
+
+  /**
+   * Get a compiled condition, compiling it on first use
+   * @param source The condition source
+   * @param origin Node/field the condition belongs to, for error messages
+   * @throws ScriptError if the condition does not compile
+   */
+  public condition(source: string, origin: ScriptOrigin = {}): CompiledCondition {
+    const key = ScriptCache.key(source, origin);
+    let compiled = this.conditions.get(key);
+    if (!compiled) {
+      compiled = ScriptCompiler.compileCondition(source, origin);
+      this.conditions.set(key, compiled);
+    }
+    return compiled;
+  }
+
+  /**
+   * Get a compiled script, compiling it on first use
+   * @param source The script source
+   * @param origin Node/field the script belongs to, for error messages
+   * @throws ScriptError if the script does not compile
+   */
+  public script(source: string, origin: ScriptOrigin = {}): CompiledScript {
+    const key = ScriptCache.key(source, origin);
+    let compiled = this.scripts.get(key);
+    if (!compiled) {
+      compiled = ScriptCompiler.compileScript(source, origin);
+      this.scripts.set(key, compiled);
+    }
+    return compiled;
+  }
+
+  /**
+   * Errors name the origin, so the same source from two places is two entries
+   */
+  private static key(source: string, origin: ScriptOrigin): string {
+    return JSON.stringify([origin.nodeId ?? null, origin.field ?? null, source]);
+  }
+}
@@ -0,0 +1,165 @@
+import { ScriptError, ScriptOrigin } from './ScriptError';
+import {
+  getScriptFunction,
+  SCRIPT_FUNCTIONS,
+  ScriptContext,
+  ScriptInterpreter
+} from './ScriptInterpreter';
+import { Expression, ProgramNode, ScriptParser, Statement } from './ScriptParser';
+
+/**
+ * A parsed condition, ready to be evaluated against game state
+ */
+export interface CompiledCondition {
+  source: string;
+  ast: Expression;
+  evaluate(context: ScriptContext): boolean;
+}
+
+/**
+ * A parsed script (onEnter/onExit), ready to run against game state
+ */
+export interface CompiledScript {
+  source: string;
+  ast: ProgramNode;
+  execute(context: ScriptContext): void;
+}
+
+/**
+ * Compiles story conditions and scripts into sandboxed callables.
+ * Syntax errors and calls to unknown helpers are reported at compile time.
+ */
+export class ScriptCompiler {
+  /**
+   * Compile a boolean condition such as `state.friendship >= 1 && visited('intro')`
+   * @param source The condition source
+   * @param origin Node/field the condition belongs to, for error messages
+   */
+  public static compileCondition(source: string, origin: ScriptOrigin = {}): CompiledCondition {
+    const ast = this.withOrigin(origin, () => {
+      const expression = ScriptParser.parseExpression(source);
+      this.checkExpression(expression, source);
+      return expression;
+    });
+
+    return {
+      source,
+      ast,
+      evaluate: (context) =>
+        this.withOrigin(origin, () => Boolean(ScriptInterpreter.evaluate(ast, source, context)))
+    };
+  }
+
+  /**
+   * Compile a statement list such as `state.courage += 1; visitedGuide = true`
+   * @param source The script source
+   * @param origin Node/field the script belongs to, for error messages
+   */
+  public static compileScript(source: string, origin: ScriptOrigin = {}): CompiledScript {
+    const ast = this.withOrigin(origin, () => {
+      const program = ScriptParser.parseProgram(source);
+      this.checkStatements(program.body, source);
+      return program;
+    });
+
+    return {
+      source,
+      ast,
+      execute: (context) =>
+        this.withOrigin(origin, () => ScriptInterpreter.execute(ast, source, context))
+    };
+  }
+
+  /**
+   * Run a callback, re-attributing any ScriptError to the given origin
+   */
+  private static withOrigin<T>(origin: ScriptOrigin, fn: () => T): T {
+    try {
+      return fn();
+    } catch (error) {
+      if (error instanceof ScriptError) {
+        throw error.withOrigin(origin);
+      }
+      throw error;
+    }
+  }
+
+  private static checkStatements(statements: Statement[], source: string): void {
+    for (const statement of statements) {
+      switch (statement.type) {
+        case 'Assignment':
+          this.checkExpression(statement.target, source);
+          this.checkExpression(statement.value, source);
+          break;
+        case 'ExpressionStatement':
+          this.checkExpression(statement.expression, source);
+          break;
+        case 'If':
+          this.checkExpression(statement.test, source);
+          this.checkStatements(statement.consequent, source);
+          if (statement.alternate) this.checkStatements(statement.alternate, source);
+          break;
+      }
+    }
+  }
+
+  /**
+   * Verify that every call targets a known helper with a valid argument count
+   */
+  private static checkExpression(node: Expression, source: string): void {
+    switch (node.type) {
+      case 'Call': {
+        const fn = getScriptFunction(node.callee);
+        if (!fn) {
+          const known = Object.keys(SCRIPT_FUNCTIONS).join(', ');
+          throw new ScriptError(
+            `Unknown function '${node.callee}' (available: ${known})`,
+            source,
+            node.start
+          );
+        }
+        if (node.args.length < fn.minArgs || node.args.length > fn.maxArgs) {
+          const expected =
+            fn.minArgs === fn.maxArgs
+              ? `${fn.minArgs}`
+              : fn.maxArgs === Infinity
+                ? `at least ${fn.minArgs}`
+                : `${fn.minArgs}-${fn.maxArgs}`;
+          throw new ScriptError(
+            `Function '${node.callee}' expects ${expected} argument(s) but got ${node.args.length}`,
+            source,
+            node.start
+          );
+        }
+        node.args.forEach((arg) => this.checkExpression(arg, source));
+        break;
+      }
+      case 'Member':
+        this.checkExpression(node.object, source);
+        break;
+      case 'Index':
+        this.checkExpression(node.object, source);
+        this.checkExpression(node.index, source);
+        break;
+      case 'Unary':
+        this.checkExpression(node.argument, source);
+        break;
+      case 'Binary':
+      case 'Logical':
+        this.checkExpression(node.left, source);
+        this.checkExpression(node.right, source);
+        break;
+      case 'Conditional':
+        this.checkExpression(node.test, source);
+        this.checkExpression(node.consequent, source);
+        this.checkExpression(node.alternate, source);
+        break;
+      case 'Array':
+        node.elements.forEach((element) => this.checkExpression(element, source));
+        break;
+      case 'Literal':
+      case 'Identifier':
+        break;
+    }
+  }
+}
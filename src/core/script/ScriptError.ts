@@ -0,0 +1,59 @@
+/**
+ * Where a script came from, used to make error messages point at the story
+ */
+export interface ScriptOrigin {
+  nodeId?: string;
+  field?: string; // e.g. 'condition', 'onEnter', "choice 'look_around' condition"
+}
+
+/**
+ * Error raised while compiling or running a story script or condition
+ */
+export class ScriptError extends Error {
+  public readonly offset: number;
+  public readonly source: string;
+  public readonly origin: ScriptOrigin;
+  public readonly reason: string;
+
+  constructor(reason: string, source: string, offset: number, origin: ScriptOrigin = {}) {
+    super(ScriptError.format(reason, source, offset, origin));
+    this.name = 'ScriptError';
+    this.reason = reason;
+    this.source = source;
+    this.offset = offset;
+    this.origin = origin;
+  }
+
+  /**
+   * Return a copy of this error attributed to a different origin
+   * @param origin The node/field the script belongs to
+   */
+  public withOrigin(origin: ScriptOrigin): ScriptError {
+    return new ScriptError(this.reason, this.source, this.offset, origin);
+  }
+
+  /**
+   * Build a readable message with a caret under the failing character
+   */
+  private static format(
+    reason: string,
+    source: string,
+    offset: number,
+    origin: ScriptOrigin
+  ): string {
+    const location: string[] = [];
+    if (origin.field) location.push(origin.field);
+    if (origin.nodeId) location.push(`of node '${origin.nodeId}'`);
+
+    const prefix = location.length > 0 ? `In ${location.join(' ')}: ` : '';
+
+    // Show only the line containing the offset so multi-line scripts stay readable
+    const lineStart = source.lastIndexOf('\n', offset - 1) + 1;
+    const lineEndIndex = source.indexOf('\n', offset);
+    const lineEnd = lineEndIndex === -1 ? source.length : lineEndIndex;
+    const line = source.slice(lineStart, lineEnd);
+    const caret = ' '.repeat(Math.max(0, offset - lineStart)) + '^';
+
+    return `${prefix}${reason} at offset ${offset}\n  ${line}\n  ${caret}`;
+  }
+}
@@ -0,0 +1,294 @@
+import { ScriptError } from './ScriptError';
+import {
+  AssignmentNode,
+  AssignmentTarget,
+  Expression,
+  FORBIDDEN_PROPERTIES,
+  ProgramNode,
+  Statement
+} from './ScriptParser';
+
+/**
+ * Everything a script can see while it runs
+ */
+export interface ScriptContext {
+  state: Record<string, any>;
+  visitedNodes?: string[];
+  random?: () => number; // Draws a number in [0, 1) for random() (default Math.random)
+}
+
+export interface ScriptFunction {
+  minArgs: number;
+  maxArgs: number;
+  call: (context: ScriptContext, ...args: any[]) => any;
+}
+
+/**
+ * Helper functions available to story scripts. Nothing else can be called.
+ */
+export const SCRIPT_FUNCTIONS: Record<string, ScriptFunction> = {
+  visited: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: (context, nodeId) => (context.visitedNodes || []).includes(nodeId)
+  },
+  has: {
+    minArgs: 2,
+    maxArgs: 2,
+    call: (_context, collection, value) => {
+      if (Array.isArray(collection) || typeof collection === 'string') {
+        return collection.includes(value);
+      }
+      if (collection && typeof collection === 'object') {
+        return Object.prototype.hasOwnProperty.call(collection, value);
+      }
+      return false;
+    }
+  },
+  len: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: (_context, value) => {
+      if (Array.isArray(value) || typeof value === 'string') return value.length;
+      if (value && typeof value === 'object') return Object.keys(value).length;
+      return 0;
+    }
+  },
+  defined: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: (_context, value) => value !== undefined && value !== null
+  },
+  min: { minArgs: 1, maxArgs: Infinity, call: (_context, ...values) => Math.min(...values) },
+  max: { minArgs: 1, maxArgs: Infinity, call: (_context, ...values) => Math.max(...values) },
+  abs: { minArgs: 1, maxArgs: 1, call: (_context, value) => Math.abs(value) },
+  floor: { minArgs: 1, maxArgs: 1, call: (_context, value) => Math.floor(value) },
+  ceil: { minArgs: 1, maxArgs: 1, call: (_context, value) => Math.ceil(value) },
+  round: { minArgs: 1, maxArgs: 1, call: (_context, value) => Math.round(value) },
+  // An integer in [min, max]; story scripts draw from the story's seeded generator
+  random: {
+    minArgs: 2,
+    maxArgs: 2,
+    call: (context, min, max) =>
+      min + Math.floor((context.random ?? Math.random)() * (max - min + 1))
+  }
+};
+
+/**
+ * Look up a helper by name. Only SCRIPT_FUNCTIONS' own entries count, so
+ * names like `toString` or `constructor` stay unknown.
+ */
+export function getScriptFunction(name: string): ScriptFunction | undefined {
+  return Object.prototype.hasOwnProperty.call(SCRIPT_FUNCTIONS, name)
+    ? SCRIPT_FUNCTIONS[name]
+    : undefined;
+}
+
+/**
+ * Tree-walking evaluator for parsed story scripts. Scripts can only read and
+ * write the state object they are given and call SCRIPT_FUNCTIONS.
+ */
+export class ScriptInterpreter {
+  private source: string;
+  private context: ScriptContext;
+
+  private constructor(source: string, context: ScriptContext) {
+    this.source = source;
+    this.context = context;
+  }
+
+  /**
+   * Evaluate an expression
+   * @param expression Parsed expression
+   * @param source Source the expression was parsed from, for error messages
+   * @param context State and helpers visible to the expression
+   */
+  public static evaluate(expression: Expression, source: string, context: ScriptContext): any {
+    return new ScriptInterpreter(source, context).evaluate(expression);
+  }
+
+  /**
+   * Run a list of statements, mutating context.state
+   * @param program Parsed program
+   * @param source Source the program was parsed from, for error messages
+   * @param context State and helpers visible to the program
+   */
+  public static execute(program: ProgramNode, source: string, context: ScriptContext): void {
+    new ScriptInterpreter(source, context).executeAll(program.body);
+  }
+
+  private executeAll(statements: Statement[]): void {
+    for (const statement of statements) {
+      switch (statement.type) {
+        case 'Assignment':
+          this.assign(statement);
+          break;
+        case 'ExpressionStatement':
+          this.evaluate(statement.expression);
+          break;
+        case 'If':
+          if (this.evaluate(statement.test)) {
+            this.executeAll(statement.consequent);
+          } else if (statement.alternate) {
+            this.executeAll(statement.alternate);
+          }
+          break;
+      }
+    }
+  }
+
+  private evaluate(node: Expression): any {
+    switch (node.type) {
+      case 'Literal':
+        return node.value;
+
+      case 'Identifier':
+        // 'state' is the whole state object, any other name is a state key
+        if (node.name === 'state') return this.context.state;
+        return this.readProperty(this.context.state, node.name, node.start);
+
+      case 'Member':
+        return this.readProperty(this.evaluate(node.object), node.property, node.start);
+
+      case 'Index':
+        return this.readProperty(
+          this.evaluate(node.object),
+          this.evaluate(node.index),
+          node.index.start
+        );
+
+      case 'Call': {
+        const fn = getScriptFunction(node.callee);
+        if (!fn) {
+          this.fail(`Unknown function '${node.callee}'`, node.start);
+        }
+        const args = node.args.map((arg) => this.evaluate(arg));
+        return fn.call(this.context, ...args);
+      }
+
+      case 'Unary': {
+        const value = this.evaluate(node.argument);
+        if (node.operator === '!') return !value;
+        return node.operator === '-' ? -value : +value;
+      }
+
+      case 'Logical': {
+        const left = this.evaluate(node.left);
+        if (node.operator === '&&') return left ? this.evaluate(node.right) : left;
+        return left ? left : this.evaluate(node.right);
+      }
+
+      case 'Conditional':
+        return this.evaluate(node.test)
+          ? this.evaluate(node.consequent)
+          : this.evaluate(node.alternate);
+
+      case 'Array':
+        return node.elements.map((element) => this.evaluate(element));
+
+      case 'Binary':
+        return this.binary(node.operator, this.evaluate(node.left), this.evaluate(node.right));
+    }
+  }
+
+  private binary(operator: string, left: any, right: any): any {
+    switch (operator) {
+      case '==':
+        return left === right;
+      case '!=':
+        return left !== right;
+      case '<':
+        return left < right;
+      case '<=':
+        return left <= right;
+      case '>':
+        return left > right;
+      case '>=':
+        return left >= right;
+      case '+':
+        return left + right;
+      case '-':
+        return left - right;
+      case '*':
+        return left * right;
+      case '/':
+        return left / right;
+      case '%':
+        return left % right;
+      default:
+        return undefined;
+    }
+  }
+
+  private assign(node: AssignmentNode): void {
+    const { container, key } = this.resolveTarget(node.target);
+    const value = this.evaluate(node.value);
+
+    if (node.operator === '=') {
+      container[key] = value;
+      return;
+    }
+
+    const current = Object.prototype.hasOwnProperty.call(container, key) ? container[key] : 0;
+    container[key] = this.binary(node.operator[0], current ?? 0, value);
+  }
+
+  /**
+   * Find the object and key an assignment writes to, creating missing
+   * intermediate objects along the way (so `inventory.keys = 1` works on an
+   * empty state)
+   */
+  private resolveTarget(target: AssignmentTarget): { container: any; key: string } {
+    if (target.type === 'Identifier') {
+      if (target.name === 'state') {
+        this.fail("Cannot assign to 'state' itself", target.start);
+      }
+      return { container: this.context.state, key: target.name };
+    }
+
+    const key = target.type === 'Member' ? target.property : String(this.evaluate(target.index));
+    const keyOffset = target.type === 'Member' ? target.start : target.index.start;
+    this.checkProperty(key, keyOffset);
+
+    let container: any;
+    if (target.object.type === 'Identifier' && target.object.name === 'state') {
+      container = this.context.state;
+    } else if (
+      target.object.type === 'Identifier' ||
+      target.object.type === 'Member' ||
+      target.object.type === 'Index'
+    ) {
+      const parent = this.resolveTarget(target.object);
+      if (parent.container[parent.key] === undefined || parent.container[parent.key] === null) {
+        parent.container[parent.key] = {};
+      }
+      container = parent.container[parent.key];
+    } else {
+      this.fail('Invalid assignment target', target.start);
+    }
+
+    if (typeof container !== 'object') {
+      this.fail(`Cannot set property '${key}' on a ${typeof container}`, keyOffset);
+    }
+
+    return { container, key };
+  }
+
+  private readProperty(object: any, key: any, offset: number): any {
+    if (object === undefined || object === null) return undefined;
+    this.checkProperty(String(key), offset);
+
+    // Only own properties are visible, so prototypes stay out of reach
+    return Object.prototype.hasOwnProperty.call(object, key) ? object[key] : undefined;
+  }
+
+  private checkProperty(key: string, offset: number): void {
+    if (FORBIDDEN_PROPERTIES.has(key)) {
+      this.fail(`Access to property '${key}' is not allowed`, offset);
+    }
+  }
+
+  private fail(reason: string, offset: number): never {
+    throw new ScriptError(reason, this.source, offset);
+  }
+}
@@ -0,0 +1,128 @@
+import { ScriptError } from './ScriptError';
+
+export type TokenType = 'number' | 'string' | 'identifier' | 'keyword' | 'operator' | 'eof';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+const KEYWORDS = new Set(['true', 'false', 'null', 'and', 'or', 'not', 'if', 'else']);
+
+// Longest operators first so '===' is not read as '==' followed by '='
+const OPERATORS = [
+  '===',
+  '!==',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '&&',
+  '||',
+  '+=',
+  '-=',
+  '*=',
+  '/=',
+  '<',
+  '>',
+  '!',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '=',
+  '?',
+  ':',
+  '.',
+  ',',
+  ';',
+  '(',
+  ')',
+  '[',
+  ']',
+  '{',
+  '}'
+];
+
+export class ScriptLexer {
+  /**
+   * Split a script into tokens
+   * @param source The script source
+   */
+  public static tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let pos = 0;
+
+    while (pos < source.length) {
+      const char = source[pos];
+
+      // Whitespace and newlines are insignificant
+      if (/\s/.test(char)) {
+        pos++;
+        continue;
+      }
+
+      // Line comments
+      if (char === '/' && source[pos + 1] === '/') {
+        while (pos < source.length && source[pos] !== '\n') pos++;
+        continue;
+      }
+
+      if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[pos + 1] ?? ''))) {
+        const match = /^(?:[0-9]+(?:\.[0-9]*)?|\.[0-9]+)(?:[eE][+-]?[0-9]+)?/.exec(
+          source.slice(pos)
+        )!;
+        tokens.push({ type: 'number', value: match[0], start: pos, end: pos + match[0].length });
+        pos += match[0].length;
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        const start = pos;
+        let value = '';
+        pos++;
+        while (pos < source.length && source[pos] !== char) {
+          if (source[pos] === '\\' && pos + 1 < source.length) {
+            const escaped = source[pos + 1];
+            value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+            pos += 2;
+          } else {
+            value += source[pos++];
+          }
+        }
+        if (pos >= source.length) {
+          throw new ScriptError('Unterminated string', source, start);
+        }
+        pos++;
+        tokens.push({ type: 'string', value, start, end: pos });
+        continue;
+      }
+
+      if (/[A-Za-z_$]/.test(char)) {
+        const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(pos))!;
+        const value = match[0];
+        tokens.push({
+          type: KEYWORDS.has(value) ? 'keyword' : 'identifier',
+          value,
+          start: pos,
+          end: pos + value.length
+        });
+        pos += value.length;
+        continue;
+      }
+
+      const operator = OPERATORS.find((op) => source.startsWith(op, pos));
+      if (!operator) {
+        throw new ScriptError(`Unexpected character '${char}'`, source, pos);
+      }
+      tokens.push({ type: 'operator', value: operator, start: pos, end: pos + operator.length });
+      pos += operator.length;
+    }
+
+    tokens.push({ type: 'eof', value: '', start: source.length, end: source.length });
+    return tokens;
+  }
+}
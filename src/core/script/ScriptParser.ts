@@ -0,0 +1,467 @@
+import { ScriptError } from './ScriptError';
+import { ScriptLexer, Token } from './ScriptLexer';
+
+/**
+ * AST node types produced by the parser. Every node records its character
+ * range in the source so errors can point at it.
+ */
+interface BaseNode {
+  start: number;
+  end: number;
+}
+
+export interface LiteralNode extends BaseNode {
+  type: 'Literal';
+  value: string | number | boolean | null;
+}
+
+export interface IdentifierNode extends BaseNode {
+  type: 'Identifier';
+  name: string;
+}
+
+export interface MemberNode extends BaseNode {
+  type: 'Member';
+  object: Expression;
+  property: string;
+}
+
+export interface IndexNode extends BaseNode {
+  type: 'Index';
+  object: Expression;
+  index: Expression;
+}
+
+export interface CallNode extends BaseNode {
+  type: 'Call';
+  callee: string;
+  args: Expression[];
+}
+
+export interface UnaryNode extends BaseNode {
+  type: 'Unary';
+  operator: '!' | '-' | '+';
+  argument: Expression;
+}
+
+export interface BinaryNode extends BaseNode {
+  type: 'Binary';
+  operator: '==' | '!=' | '<' | '<=' | '>' | '>=' | '+' | '-' | '*' | '/' | '%';
+  left: Expression;
+  right: Expression;
+}
+
+export interface LogicalNode extends BaseNode {
+  type: 'Logical';
+  operator: '&&' | '||';
+  left: Expression;
+  right: Expression;
+}
+
+export interface ConditionalNode extends BaseNode {
+  type: 'Conditional';
+  test: Expression;
+  consequent: Expression;
+  alternate: Expression;
+}
+
+export interface ArrayNode extends BaseNode {
+  type: 'Array';
+  elements: Expression[];
+}
+
+export type Expression =
+  | LiteralNode
+  | IdentifierNode
+  | MemberNode
+  | IndexNode
+  | CallNode
+  | UnaryNode
+  | BinaryNode
+  | LogicalNode
+  | ConditionalNode
+  | ArrayNode;
+
+export type AssignmentTarget = IdentifierNode | MemberNode | IndexNode;
+
+export interface AssignmentNode extends BaseNode {
+  type: 'Assignment';
+  operator: '=' | '+=' | '-=' | '*=' | '/=';
+  target: AssignmentTarget;
+  value: Expression;
+}
+
+export interface ExpressionStatementNode extends BaseNode {
+  type: 'ExpressionStatement';
+  expression: Expression;
+}
+
+export interface IfNode extends BaseNode {
+  type: 'If';
+  test: Expression;
+  consequent: Statement[];
+  alternate?: Statement[];
+}
+
+export type Statement = AssignmentNode | ExpressionStatementNode | IfNode;
+
+export interface ProgramNode extends BaseNode {
+  type: 'Program';
+  body: Statement[];
+}
+
+/**
+ * Property names that would let a script escape the state object
+ */
+export const FORBIDDEN_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+const ASSIGNMENT_OPERATORS = new Set(['=', '+=', '-=', '*=', '/=']);
+
+/**
+ * Recursive descent parser for the story expression and statement language
+ */
+export class ScriptParser {
+  private source: string;
+  private tokens: Token[];
+  private pos: number = 0;
+
+  private constructor(source: string) {
+    this.source = source;
+    this.tokens = ScriptLexer.tokenize(source);
+  }
+
+  /**
+   * Parse a single expression, e.g. a node or choice condition
+   * @param source The expression source
+   */
+  public static parseExpression(source: string): Expression {
+    const parser = new ScriptParser(source);
+    const expression = parser.expression();
+    parser.expectEnd();
+    return expression;
+  }
+
+  /**
+   * Parse a list of statements, e.g. an onEnter or onExit script
+   * @param source The script source
+   */
+  public static parseProgram(source: string): ProgramNode {
+    const parser = new ScriptParser(source);
+    const body: Statement[] = [];
+
+    while (parser.peek().type !== 'eof') {
+      body.push(parser.statement());
+    }
+
+    return { type: 'Program', body, start: 0, end: source.length };
+  }
+
+  private statement(): Statement {
+    if (this.isKeyword('if')) {
+      return this.ifStatement();
+    }
+
+    const expression = this.expression();
+    let statement: Statement;
+
+    if (this.peek().type === 'operator' && ASSIGNMENT_OPERATORS.has(this.peek().value)) {
+      const operatorToken = this.next();
+      if (
+        expression.type !== 'Identifier' &&
+        expression.type !== 'Member' &&
+        expression.type !== 'Index'
+      ) {
+        this.fail('Invalid assignment target', expression.start);
+      }
+      const value = this.expression();
+      statement = {
+        type: 'Assignment',
+        operator: operatorToken.value as AssignmentNode['operator'],
+        target: expression as AssignmentTarget,
+        value,
+        start: expression.start,
+        end: value.end
+      };
+    } else {
+      statement = {
+        type: 'ExpressionStatement',
+        expression,
+        start: expression.start,
+        end: expression.end
+      };
+    }
+
+    // Semicolons between statements are optional
+    if (this.isOperator(';')) this.next();
+    return statement;
+  }
+
+  private ifStatement(): IfNode {
+    const start = this.next().start;
+    this.expectOperator('(');
+    const test = this.expression();
+    this.expectOperator(')');
+    const consequent = this.block();
+    let alternate: Statement[] | undefined;
+
+    if (this.isKeyword('else')) {
+      this.next();
+      alternate = this.isKeyword('if') ? [this.ifStatement()] : this.block();
+    }
+
+    return { type: 'If', test, consequent, alternate, start, end: this.previous().end };
+  }
+
+  private block(): Statement[] {
+    this.expectOperator('{');
+    const body: Statement[] = [];
+    while (!this.isOperator('}')) {
+      if (this.peek().type === 'eof') {
+        this.fail("Expected '}' to close block", this.peek().start);
+      }
+      body.push(this.statement());
+    }
+    this.next();
+    return body;
+  }
+
+  private expression(): Expression {
+    return this.conditional();
+  }
+
+  private conditional(): Expression {
+    const test = this.logicalOr();
+    if (!this.isOperator('?')) return test;
+
+    this.next();
+    const consequent = this.expression();
+    this.expectOperator(':');
+    const alternate = this.expression();
+    return {
+      type: 'Conditional',
+      test,
+      consequent,
+      alternate,
+      start: test.start,
+      end: alternate.end
+    };
+  }
+
+  private logicalOr(): Expression {
+    let left = this.logicalAnd();
+    while (this.isOperator('||') || this.isKeyword('or')) {
+      this.next();
+      const right = this.logicalAnd();
+      left = { type: 'Logical', operator: '||', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private logicalAnd(): Expression {
+    let left = this.equality();
+    while (this.isOperator('&&') || this.isKeyword('and')) {
+      this.next();
+      const right = this.equality();
+      left = { type: 'Logical', operator: '&&', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private equality(): Expression {
+    let left = this.comparison();
+    while (this.isOperator('==', '!=', '===', '!==')) {
+      // Equality is always strict, so '==' and '===' mean the same thing
+      const operator = this.next().value.slice(0, 2) as '==' | '!=';
+      const right = this.comparison();
+      left = { type: 'Binary', operator, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private comparison(): Expression {
+    let left = this.additive();
+    while (this.isOperator('<', '<=', '>', '>=')) {
+      const operator = this.next().value as BinaryNode['operator'];
+      const right = this.additive();
+      left = { type: 'Binary', operator, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private additive(): Expression {
+    let left = this.multiplicative();
+    while (this.isOperator('+', '-')) {
+      const operator = this.next().value as BinaryNode['operator'];
+      const right = this.multiplicative();
+      left = { type: 'Binary', operator, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private multiplicative(): Expression {
+    let left = this.unary();
+    while (this.isOperator('*', '/', '%')) {
+      const operator = this.next().value as BinaryNode['operator'];
+      const right = this.unary();
+      left = { type: 'Binary', operator, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private unary(): Expression {
+    if (this.isOperator('!', '-', '+') || this.isKeyword('not')) {
+      const token = this.next();
+      const argument = this.unary();
+      const operator = token.value === 'not' ? '!' : (token.value as UnaryNode['operator']);
+      return { type: 'Unary', operator, argument, start: token.start, end: argument.end };
+    }
+    return this.postfix();
+  }
+
+  private postfix(): Expression {
+    let expression = this.primary();
+
+    for (;;) {
+      if (this.isOperator('.')) {
+        this.next();
+        const token = this.next();
+        if (token.type !== 'identifier' && token.type !== 'keyword') {
+          this.fail('Expected property name after "."', token.start);
+        }
+        if (FORBIDDEN_PROPERTIES.has(token.value)) {
+          this.fail(`Access to property '${token.value}' is not allowed`, token.start);
+        }
+        expression = {
+          type: 'Member',
+          object: expression,
+          property: token.value,
+          start: expression.start,
+          end: token.end
+        };
+      } else if (this.isOperator('[')) {
+        this.next();
+        const index = this.expression();
+        const close = this.expectOperator(']');
+        expression = {
+          type: 'Index',
+          object: expression,
+          index,
+          start: expression.start,
+          end: close.end
+        };
+      } else if (this.isOperator('(')) {
+        if (expression.type !== 'Identifier') {
+          this.fail('Only helper functions can be called', expression.start);
+        }
+        this.next();
+        const args: Expression[] = [];
+        if (!this.isOperator(')')) {
+          do {
+            args.push(this.expression());
+          } while (this.isOperator(',') && this.next());
+        }
+        const close = this.expectOperator(')');
+        expression = {
+          type: 'Call',
+          callee: (expression as IdentifierNode).name,
+          args,
+          start: expression.start,
+          end: close.end
+        };
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private primary(): Expression {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'Literal', value: Number(token.value), start: token.start, end: token.end };
+      case 'string':
+        return { type: 'Literal', value: token.value, start: token.start, end: token.end };
+      case 'identifier':
+        return { type: 'Identifier', name: token.value, start: token.start, end: token.end };
+      case 'keyword':
+        if (token.value === 'true' || token.value === 'false') {
+          return {
+            type: 'Literal',
+            value: token.value === 'true',
+            start: token.start,
+            end: token.end
+          };
+        }
+        if (token.value === 'null') {
+          return { type: 'Literal', value: null, start: token.start, end: token.end };
+        }
+        break;
+      case 'operator':
+        if (token.value === '(') {
+          const expression = this.expression();
+          this.expectOperator(')');
+          return expression;
+        }
+        if (token.value === '[') {
+          const elements: Expression[] = [];
+          if (!this.isOperator(']')) {
+            do {
+              elements.push(this.expression());
+            } while (this.isOperator(',') && this.next());
+          }
+          const close = this.expectOperator(']');
+          return { type: 'Array', elements, start: token.start, end: close.end };
+        }
+        break;
+      case 'eof':
+        this.fail('Unexpected end of input', token.start);
+    }
+
+    return this.fail(`Unexpected '${token.value}'`, token.start);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private previous(): Token {
+    return this.tokens[Math.max(0, this.pos - 1)];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos];
+    if (token.type !== 'eof') this.pos++;
+    return token;
+  }
+
+  private isOperator(...values: string[]): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && values.includes(token.value);
+  }
+
+  private isKeyword(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'keyword' && token.value === value;
+  }
+
+  private expectOperator(value: string): Token {
+    const token = this.peek();
+    if (!this.isOperator(value)) {
+      const found = token.type === 'eof' ? 'end of input' : `'${token.value}'`;
+      this.fail(`Expected '${value}' but found ${found}`, token.start);
+    }
+    return this.next();
+  }
+
+  private expectEnd(): void {
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      this.fail(`Unexpected '${token.value}' after end of expression`, token.start);
+    }
+  }
+
+  private fail(reason: string, offset: number): never {
+    throw new ScriptError(reason, this.source, offset);
+  }
+}
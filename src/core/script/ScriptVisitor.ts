@@ -0,0 +1,125 @@
+import { AssignmentTarget, Expression, ProgramNode, Statement } from './ScriptParser';
+
+/**
+ * Top-level state keys a script reads and writes
+ */
+export interface StateAccess {
+  reads: Set<string>;
+  writes: Set<string>;
+}
+
+export class ScriptVisitor {
+  /**
+   * Collect the top-level state keys a parsed condition or script touches.
+   * `state.inventory.keys` and `inventory.keys` both count as `inventory`.
+   * Dynamic lookups such as `state[name]` are not resolvable and are skipped.
+   * @param ast A parsed expression or program
+   */
+  public static collectStateAccess(ast: Expression | ProgramNode): StateAccess {
+    const access: StateAccess = { reads: new Set(), writes: new Set() };
+
+    if (ast.type === 'Program') {
+      this.visitStatements(ast.body, access);
+    } else {
+      this.visitExpression(ast, access);
+    }
+
+    return access;
+  }
+
+  private static visitStatements(statements: Statement[], access: StateAccess): void {
+    for (const statement of statements) {
+      switch (statement.type) {
+        case 'Assignment': {
+          const key = this.rootKey(statement.target);
+          if (key) {
+            access.writes.add(key);
+            // Compound assignments read the old value
+            if (statement.operator !== '=') access.reads.add(key);
+          }
+          this.visitTargetIndexes(statement.target, access);
+          this.visitExpression(statement.value, access);
+          break;
+        }
+        case 'ExpressionStatement':
+          this.visitExpression(statement.expression, access);
+          break;
+        case 'If':
+          this.visitExpression(statement.test, access);
+          this.visitStatements(statement.consequent, access);
+          if (statement.alternate) this.visitStatements(statement.alternate, access);
+          break;
+      }
+    }
+  }
+
+  private static visitExpression(node: Expression, access: StateAccess): void {
+    switch (node.type) {
+      case 'Identifier':
+      case 'Member':
+      case 'Index': {
+        const key = this.rootKey(node);
+        if (key) access.reads.add(key);
+        if (node.type !== 'Identifier') this.visitTargetIndexes(node, access);
+        break;
+      }
+      case 'Call':
+        node.args.forEach((arg) => this.visitExpression(arg, access));
+        break;
+      case 'Unary':
+        this.visitExpression(node.argument, access);
+        break;
+      case 'Binary':
+      case 'Logical':
+        this.visitExpression(node.left, access);
+        this.visitExpression(node.right, access);
+        break;
+      case 'Conditional':
+        this.visitExpression(node.test, access);
+        this.visitExpression(node.consequent, access);
+        this.visitExpression(node.alternate, access);
+        break;
+      case 'Array':
+        node.elements.forEach((element) => this.visitExpression(element, access));
+        break;
+      case 'Literal':
+        break;
+    }
+  }
+
+  /**
+   * Visit the index expressions inside a member/index chain, e.g. `key` in `items[key]`
+   */
+  private static visitTargetIndexes(node: Expression, access: StateAccess): void {
+    let current: Expression = node;
+    while (current.type === 'Member' || current.type === 'Index') {
+      if (current.type === 'Index') this.visitExpression(current.index, access);
+      current = current.object;
+    }
+    if (current.type !== 'Identifier') this.visitExpression(current, access);
+  }
+
+  /**
+   * Resolve the top-level state key of an identifier or member chain
+   */
+  private static rootKey(node: Expression | AssignmentTarget): string | null {
+    // Walk down to the innermost object, remembering the step just above it
+    let child: Expression | null = null;
+    let current: Expression = node;
+    while (current.type === 'Member' || current.type === 'Index') {
+      child = current;
+      current = current.object;
+    }
+
+    if (current.type !== 'Identifier') return null;
+    if (current.name !== 'state') return current.name;
+
+    // `state.key` or `state['key']`
+    if (!child) return null;
+    if (child.type === 'Member') return child.property;
+    if (child.type === 'Index' && child.index.type === 'Literal') {
+      return String(child.index.value);
+    }
+    return null;
+  }
+}
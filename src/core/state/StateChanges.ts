@@ -0,0 +1,262 @@
+/**
+ * Operations that can be used as a value in a node or choice `stateChanges` map.
+ *
+ * A plain value (number, string, boolean, array, or an object with none of
+ * these keys) replaces the current value. An object made only of these keys
+ * is an operation, e.g. `friendship: { increment: 2, clamp: [-5, 5] }`.
+ */
+export interface StateChangeOperation {
+  set?: any;
+  setIfUnset?: any; // Only set when the current value is undefined or null
+  increment?: number;
+  decrement?: number;
+  multiply?: number;
+  clamp?: [number, number]; // Applied after any arithmetic
+  push?: any;
+  remove?: any;
+  toggle?: boolean;
+}
+
+export type StateChangeValue = StateChangeOperation | string | number | boolean | null | any[];
+
+/**
+ * A single changed path in the game state
+ */
+export interface StateDiffEntry {
+  path: string;
+  oldValue: any;
+  newValue: any;
+}
+
+const OPERATION_KEYS = new Set([
+  'set',
+  'setIfUnset',
+  'increment',
+  'decrement',
+  'multiply',
+  'clamp',
+  'push',
+  'remove',
+  'toggle'
+]);
+
+const FORBIDDEN_SEGMENTS = new Set(['__proto__', 'prototype', 'constructor']);
+
+export class StateChanges {
+  /**
+   * Apply a stateChanges map to a copy of the state. Either every change is
+   * applied or, if one fails, an error is thrown and the input is untouched.
+   * @param state Current state
+   * @param changes Map of dotted paths (e.g. 'inventory.keys') to values or operations
+   * @returns The new state and the paths whose values actually changed
+   */
+  public static apply(
+    state: Record<string, any>,
+    changes: Record<string, StateChangeValue>
+  ): { state: Record<string, any>; diff: StateDiffEntry[] } {
+    const nextState = this.clone(state);
+    const originals = new Map<string, any>();
+
+    for (const [path, change] of Object.entries(changes)) {
+      const segments = this.splitPath(path);
+      const current = this.getPath(nextState, segments);
+
+      if (!originals.has(path)) {
+        originals.set(path, this.clone(current));
+      }
+
+      this.setPath(nextState, segments, this.resolve(path, current, change));
+    }
+
+    const diff: StateDiffEntry[] = [];
+    for (const [path, oldValue] of originals) {
+      const newValue = this.getPath(nextState, this.splitPath(path));
+      if (!this.isEqual(oldValue, newValue)) {
+        diff.push({ path, oldValue, newValue: this.clone(newValue) });
+      }
+    }
+
+    return { state: nextState, diff };
+  }
+
+  /**
+   * Read a value from the state
+   * @param state The state
+   * @param path Dotted path, e.g. 'inventory.keys'
+   */
+  public static get(state: Record<string, any>, path: string): any {
+    return this.getPath(state, this.splitPath(path));
+  }
+
+  /**
+   * Check a stateChanges map for malformed operations
+   * @param changes The stateChanges map to check
+   * @returns A list of problems, empty when the map is valid
+   */
+  public static validate(changes: Record<string, StateChangeValue>): string[] {
+    const errors: string[] = [];
+
+    for (const [path, change] of Object.entries(changes)) {
+      try {
+        this.splitPath(path);
+      } catch (error) {
+        errors.push((error as Error).message);
+        continue;
+      }
+
+      if (!this.isOperation(change)) continue;
+
+      for (const key of Object.keys(change)) {
+        if (!OPERATION_KEYS.has(key)) {
+          errors.push(`Unknown operation '${key}' for '${path}'`);
+        }
+      }
+
+      for (const key of ['increment', 'decrement', 'multiply'] as const) {
+        if (key in change && typeof change[key] !== 'number') {
+          errors.push(`Operation '${key}' for '${path}' needs a number`);
+        }
+      }
+
+      if (
+        'clamp' in change &&
+        (!Array.isArray(change.clamp) ||
+          change.clamp.length !== 2 ||
+          change.clamp.some((bound) => typeof bound !== 'number') ||
+          change.clamp[0] > change.clamp[1])
+      ) {
+        errors.push(`Operation 'clamp' for '${path}' needs a [min, max] pair`);
+      }
+
+      if ('toggle' in change && typeof change.toggle !== 'boolean') {
+        errors.push(`Operation 'toggle' for '${path}' needs true or false`);
+      }
+
+      if ('set' in change && 'setIfUnset' in change) {
+        errors.push(`Operations 'set' and 'setIfUnset' for '${path}' cannot be combined`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Whether a stateChanges value is an operation object rather than a plain value
+   * @param value The stateChanges value
+   */
+  public static isOperation(value: unknown): value is StateChangeOperation {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+    return Object.keys(value).some((key) => OPERATION_KEYS.has(key));
+  }
+
+  /**
+   * Compute the new value for a path. Operation keys are applied in a fixed
+   * order: set/setIfUnset, arithmetic, array edits, toggle, then clamp.
+   */
+  private static resolve(path: string, current: any, change: StateChangeValue): any {
+    if (!this.isOperation(change)) {
+      return this.clone(change);
+    }
+
+    const errors = this.validate({ [path]: change });
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    let value = current;
+
+    if ('set' in change) {
+      value = this.clone(change.set);
+    }
+    if ('setIfUnset' in change && (value === undefined || value === null)) {
+      value = this.clone(change.setIfUnset);
+    }
+
+    if ('increment' in change || 'decrement' in change || 'multiply' in change) {
+      const base = value ?? 0;
+      if (typeof base !== 'number') {
+        throw new Error(`Cannot apply arithmetic to '${path}': current value is not a number`);
+      }
+      value = (base + (change.increment ?? 0) - (change.decrement ?? 0)) * (change.multiply ?? 1);
+    }
+
+    if ('push' in change || 'remove' in change) {
+      const base = value ?? [];
+      if (!Array.isArray(base)) {
+        throw new Error(`Cannot push to or remove from '${path}': current value is not an array`);
+      }
+      value = [...base];
+      if ('remove' in change) {
+        value = value.filter((item: any) => !this.isEqual(item, change.remove));
+      }
+      if ('push' in change) {
+        value.push(this.clone(change.push));
+      }
+    }
+
+    if (change.toggle) {
+      value = !value;
+    }
+
+    if (change.clamp) {
+      if (typeof value !== 'number') {
+        throw new Error(`Cannot clamp '${path}': value is not a number`);
+      }
+      value = Math.min(change.clamp[1], Math.max(change.clamp[0], value));
+    }
+
+    return value;
+  }
+
+  private static splitPath(path: string): string[] {
+    const segments = path.split('.');
+    if (segments.some((segment) => segment === '' || FORBIDDEN_SEGMENTS.has(segment))) {
+      throw new Error(`Invalid state path '${path}'`);
+    }
+    return segments;
+  }
+
+  private static getPath(state: Record<string, any>, segments: string[]): any {
+    let value: any = state;
+    for (const segment of segments) {
+      if (value === undefined || value === null || typeof value !== 'object') return undefined;
+      value = Object.prototype.hasOwnProperty.call(value, segment) ? value[segment] : undefined;
+    }
+    return value;
+  }
+
+  private static setPath(state: Record<string, any>, segments: string[], value: any): void {
+    let container = state;
+    for (const segment of segments.slice(0, -1)) {
+      if (container[segment] === undefined || container[segment] === null) {
+        container[segment] = {};
+      } else if (typeof container[segment] !== 'object') {
+        throw new Error(
+          `Cannot set '${segments.join('.')}': '${segment}' is a ${typeof container[segment]}`
+        );
+      }
+      container = container[segment];
+    }
+    container[segments[segments.length - 1]] = value;
+  }
+
+  private static clone<T>(value: T): T {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.clone(item)) as T;
+    }
+    if (value && typeof value === 'object') {
+      const copy: Record<string, any> = {};
+      for (const [key, item] of Object.entries(value)) {
+        copy[key] = this.clone(item);
+      }
+      return copy as T;
+    }
+    return value;
+  }
+
+  private static isEqual(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+}
@@ -1,5 +1,6 @@
 import PIXI from 'pixi.js';
 import { EventEmitter } from '../events/EventEmitter';
+import { StoryProgress } from '../story/StoryMigration';
 
 export type StateValue = string | number | boolean | object | null | undefined | StateValue[];
 
@@ -15,14 +16,16 @@ export interface GameSaveData {
   screenshot?: string; // Base64 encoded thumbnail
   gameState: GameState;
   characterStates: Record<string, any>;
-  storyProgress: {
-    currentNodeId: string;
-    visitedNodes: string[];
-    completedBranches: string[];
-  };
+  storyProgress: StoryProgress;
   customData?: Record<string, any>;
 }
 
+/**
+ * Brings a save made with an older game or story up to date, changing it in
+ * place, and describes what it changed
+ */
+export type SaveMigrator = (save: GameSaveData) => string[];
+
 export class StateManager extends EventEmitter {
   private state: GameState = {};
   private history: GameState[] = [];
@@ -31,6 +34,7 @@ export class StateManager extends EventEmitter {
   private autoSaveEnabled: boolean = true;
   private autoSaveInterval: number = 5 * 60 * 1000; // 5 minutes
   private autoSaveTimer: number | null = null;
+  private migrators: SaveMigrator[] = [];
 
   // Add namespace support for organizing state
   private namespaces: Set<string> = new Set(['global', 'characters', 'story', 'settings']);
@@ -266,11 +270,7 @@ export class StateManager extends EventEmitter {
     saveName?: string,
     screenshot?: string,
     characterStates?: Record<string, any>,
-    storyProgress?: {
-      currentNodeId: string;
-      visitedNodes: string[];
-      completedBranches: string[];
-    },
+    storyProgress?: GameSaveData['storyProgress'],
     customData?: Record<string, any>
   ): Promise<GameSaveData> {
     // Create save data object
@@ -327,7 +327,13 @@ export class StateManager extends EventEmitter {
       // Version check (simplified)
       if (parsedSaveData.version !== this.gameVersion) {
         console.warn(`Save version mismatch: ${parsedSaveData.version} vs ${this.gameVersion}`);
-        // Could implement migration here if needed
+      }
+
+      // Migrate before anything is restored from the save
+      const changes = this.migrators.flatMap((migrate) => migrate(parsedSaveData));
+      if (changes.length > 0) {
+        console.info(`Save '${saveId}' was migrated:\n  ${changes.join('\n  ')}`);
+        this.emit('state:migrated', saveId, changes, parsedSaveData);
       }
 
       // Update current state
@@ -345,6 +351,14 @@ export class StateManager extends EventEmitter {
     }
   }
 
+  /**
+   * Register a migrator run on every save as it is loaded
+   * @param migrator Changes the save in place and returns what it changed
+   */
+  public addMigrator(migrator: SaveMigrator): void {
+    this.migrators.push(migrator);
+  }
+
   /**
    * Get all available save files
    * @returns Array of save metadata
@@ -0,0 +1,368 @@
+import { StoryAnalyzer } from './StoryAnalyzer';
+import { Story } from './StoryData';
+import { StoryRuntime, StorySnapshot } from './StoryRuntime';
+
+/**
+ * Bounds on an exploration
+ */
+export interface ExplorerOptions {
+  maxDepth?: number; // Most choices along one path (default 100)
+  maxNodeVisits?: number; // Most times one path may enter the same node, bounding loops (default 3)
+  maxStates?: number; // Most distinct states explored in total (default 10000)
+}
+
+/**
+ * One choice made along a path
+ */
+export interface ChoiceStep {
+  nodeId: string;
+  choiceId: string;
+  text: string;
+}
+
+/**
+ * An end node that was reached, with the shortest choice sequence found
+ */
+export interface ReachedEnding {
+  nodeId: string;
+  choices: ChoiceStep[];
+  path: string[]; // Every node entered, in order
+  state: Record<string, any>;
+}
+
+/**
+ * An end node that was never reached. `no-path` means no edges lead to it
+ * from the start, `conditions` that no game state gets past its conditions,
+ * and `bounds` that the exploration was cut short before finding it.
+ */
+export interface UnreachedEnding {
+  nodeId: string;
+  reason: 'no-path' | 'conditions' | 'bounds';
+}
+
+/**
+ * A path that stopped somewhere other than an end node
+ */
+export interface StuckPath {
+  nodeId: string | null;
+  message: string;
+  choices: ChoiceStep[];
+}
+
+export interface Coverage {
+  covered: number;
+  total: number;
+  percent: number;
+}
+
+export interface ExplorationReport {
+  endings: ReachedEnding[];
+  unreachedEndings: UnreachedEnding[];
+  stuck: StuckPath[];
+  nodeCoverage: Coverage;
+  choiceCoverage: Coverage;
+  uncoveredNodes: string[];
+  uncoveredChoices: string[]; // `nodeId.choiceId`
+  statesExplored: number;
+  bounded: boolean; // Whether any path was cut short by the options
+}
+
+/**
+ * A state waiting to be explored
+ */
+interface Frontier {
+  snapshot: StorySnapshot;
+  choices: ChoiceStep[];
+}
+
+// Automatic steps (branches, scenes, dialogue) allowed between two choices
+const MAX_AUTO_STEPS = 1000;
+
+/**
+ * Explores every choice path of a story by driving a headless StoryRuntime.
+ *
+ * The search is breadth-first, so each ending is reported with the shortest
+ * choice sequence reaching it. States that agree on the current node, the
+ * game state and the set of visited nodes are explored only once. Every
+ * outcome of a random node with a positive weight is explored.
+ */
+export class PlaythroughExplorer {
+  /**
+   * Explore a story and report reachable endings and coverage
+   * @param story The story to explore
+   * @param options Bounds on the exploration
+   */
+  public static explore(story: Story, options: ExplorerOptions = {}): ExplorationReport {
+    const maxDepth = options.maxDepth ?? 100;
+    const maxNodeVisits = options.maxNodeVisits ?? 3;
+    const maxStates = options.maxStates ?? 10000;
+
+    // Run automatic progression on demand rather than on a timer
+    const tasks: Array<() => void> = [];
+    const runtime = new StoryRuntime({ schedule: (task) => tasks.push(task) });
+    runtime.loadFromData(story);
+
+    const advance = (): void => {
+      for (let steps = 0; ; steps++) {
+        if (steps > MAX_AUTO_STEPS) {
+          throw new Error(`Story moved ${MAX_AUTO_STEPS} steps without a choice`);
+        }
+        // Random nodes are expanded outcome by outcome instead of rolled
+        if (runtime.getCurrentNode()?.getType() === 'random') {
+          tasks.length = 0;
+          return;
+        }
+        const task = tasks.shift();
+        if (task) {
+          task();
+          continue;
+        }
+        const node = runtime.getCurrentNode();
+        if (node?.getType() !== 'dialogue' || !node.getNextNodeId()) return;
+        runtime.progress();
+      }
+    };
+
+    const endings = new Map<string, ReachedEnding>();
+    const stuck: StuckPath[] = [];
+    const visitedNodes = new Set<string>();
+    const takenChoices = new Set<string>();
+    const seen = new Set<string>();
+    const frontier: Frontier[] = [];
+    let statesExplored = 0;
+    let bounded = false;
+
+    // Queue the state the runtime is in, unless it repeats or loops too often
+    const enqueue = (choices: ChoiceStep[]): void => {
+      const snapshot = runtime.getSnapshot();
+      const visits = new Map<string, number>();
+      for (const nodeId of snapshot.history) {
+        visitedNodes.add(nodeId);
+        visits.set(nodeId, (visits.get(nodeId) ?? 0) + 1);
+      }
+      if (Math.max(0, ...visits.values()) > maxNodeVisits) {
+        bounded = true;
+        return;
+      }
+
+      const key = [
+        snapshot.currentNodeId,
+        this.stableStringify(snapshot.gameState),
+        this.stableStringify(snapshot.choiceUses),
+        this.stableStringify(snapshot.callStack),
+        this.stableStringify(snapshot.triggers),
+        [...visits.keys()].sort().join('\n')
+      ].join('\n\n');
+      if (seen.has(key)) return;
+      seen.add(key);
+      frontier.push({ snapshot, choices });
+    };
+
+    const fail = (error: unknown, choices: ChoiceStep[]): void => {
+      tasks.length = 0;
+      stuck.push({
+        nodeId: runtime.getCurrentNodeId(),
+        message: (error as Error).message ?? String(error),
+        choices
+      });
+    };
+
+    try {
+      runtime.start();
+      advance();
+      enqueue([]);
+    } catch (error) {
+      fail(error, []);
+    }
+
+    while (frontier.length > 0) {
+      if (statesExplored >= maxStates) {
+        bounded = true;
+        break;
+      }
+      statesExplored++;
+
+      const { snapshot, choices } = frontier.shift()!;
+      runtime.restoreSnapshot(snapshot);
+      const node = runtime.getCurrentNode();
+      const nodeId = snapshot.currentNodeId;
+
+      if (!node || !nodeId) {
+        stuck.push({ nodeId, message: 'No current node', choices });
+        continue;
+      }
+
+      if (node.getType() === 'end') {
+        if (!endings.has(nodeId)) {
+          endings.set(nodeId, {
+            nodeId,
+            choices,
+            path: snapshot.history,
+            state: snapshot.gameState
+          });
+        }
+        continue;
+      }
+
+      if (node.getType() === 'random') {
+        const outcomes = node.getOutcomes().filter((outcome) => (outcome.weight ?? 1) > 0);
+        for (const outcome of outcomes) {
+          runtime.restoreSnapshot(snapshot);
+          try {
+            runtime.navigateToNode(outcome.nextNode);
+            advance();
+            enqueue(choices);
+          } catch (error) {
+            fail(error, choices);
+          }
+        }
+        continue;
+      }
+
+      if (node.getType() !== 'choice') {
+        stuck.push({ nodeId, message: `Stopped at a ${node.getType()} node`, choices });
+        continue;
+      }
+
+      const available = runtime.getAvailableChoices();
+      if (available.length === 0) {
+        stuck.push({ nodeId, message: 'No choice is available', choices });
+        continue;
+      }
+      if (choices.length >= maxDepth) {
+        bounded = true;
+        continue;
+      }
+
+      for (const [index, choice] of available.entries()) {
+        const path = [...choices, { nodeId, choiceId: choice.id, text: choice.text }];
+        takenChoices.add(`${nodeId}.${choice.id}`);
+
+        runtime.restoreSnapshot(snapshot);
+        try {
+          runtime.makeChoice(index);
+          advance();
+          enqueue(path);
+        } catch (error) {
+          fail(error, path);
+        }
+      }
+    }
+
+    return this.buildReport(story, {
+      endings: [...endings.values()],
+      stuck,
+      visitedNodes,
+      takenChoices,
+      statesExplored,
+      bounded
+    });
+  }
+
+  /**
+   * Render a report as text, e.g. for console or CLI output
+   * @param report The exploration report
+   */
+  public static formatReport(report: ExplorationReport): string {
+    const percent = (coverage: Coverage): string =>
+      `${coverage.percent.toFixed(1)}% (${coverage.covered}/${coverage.total})`;
+    const steps = (choices: ChoiceStep[]): string =>
+      choices.length > 0 ? choices.map((choice) => choice.text).join(' > ') : '(no choices)';
+
+    const lines = [
+      `Node coverage: ${percent(report.nodeCoverage)}`,
+      `Choice coverage: ${percent(report.choiceCoverage)}`,
+      `States explored: ${report.statesExplored}${report.bounded ? ' (bounded)' : ''}`,
+      '',
+      'Reachable endings:',
+      ...report.endings.map((ending) => `  ${ending.nodeId}: ${steps(ending.choices)}`)
+    ];
+
+    if (report.unreachedEndings.length > 0) {
+      lines.push('', 'Unreached endings:');
+      lines.push(...report.unreachedEndings.map(({ nodeId, reason }) => `  ${nodeId} (${reason})`));
+    }
+    if (report.stuck.length > 0) {
+      lines.push('', 'Stuck paths:');
+      lines.push(
+        ...report.stuck.map(
+          (path) => `  ${path.nodeId ?? '?'}: ${path.message} after ${steps(path.choices)}`
+        )
+      );
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Work out coverage and why the missing endings were not reached
+   */
+  private static buildReport(
+    story: Story,
+    result: {
+      endings: ReachedEnding[];
+      stuck: StuckPath[];
+      visitedNodes: Set<string>;
+      takenChoices: Set<string>;
+      statesExplored: number;
+      bounded: boolean;
+    }
+  ): ExplorationReport {
+    const nodes = story.nodes;
+    const allChoices = Object.entries(nodes).flatMap(([nodeId, node]) =>
+      node.type === 'choice' ? (node.choices ?? []).map((choice) => `${nodeId}.${choice.id}`) : []
+    );
+
+    // Nodes reachable by following edges alone, whatever the state
+    const linked = new Set<string>();
+    const pending = [story.startNode];
+    while (pending.length > 0) {
+      const nodeId = pending.pop()!;
+      if (linked.has(nodeId) || !nodes[nodeId]) continue;
+      linked.add(nodeId);
+      pending.push(...StoryAnalyzer.getEdges(nodeId, nodes[nodeId]).map((edge) => edge.to));
+    }
+
+    const reached = new Set(result.endings.map((ending) => ending.nodeId));
+    const unreachedEndings = Object.keys(nodes)
+      .filter((nodeId) => nodes[nodeId].type === 'end' && !reached.has(nodeId))
+      .map(
+        (nodeId): UnreachedEnding => ({
+          nodeId,
+          reason: !linked.has(nodeId) ? 'no-path' : result.bounded ? 'bounds' : 'conditions'
+        })
+      );
+
+    return {
+      endings: result.endings,
+      unreachedEndings,
+      stuck: result.stuck,
+      nodeCoverage: this.coverage(result.visitedNodes.size, Object.keys(nodes).length),
+      choiceCoverage: this.coverage(result.takenChoices.size, allChoices.length),
+      uncoveredNodes: Object.keys(nodes).filter((nodeId) => !result.visitedNodes.has(nodeId)),
+      uncoveredChoices: allChoices.filter((choice) => !result.takenChoices.has(choice)),
+      statesExplored: result.statesExplored,
+      bounded: result.bounded
+    };
+  }
+
+  private static coverage(covered: number, total: number): Coverage {
+    return { covered, total, percent: total > 0 ? (covered / total) * 100 : 100 };
+  }
+
+  /**
+   * JSON with sorted keys, so equal states give equal strings
+   */
+  private static stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.stableStringify(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.keys(value)
+        .sort()
+        .map((key) => `${JSON.stringify(key)}:${this.stableStringify((value as any)[key])}`);
+      return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+  }
+}
@@ -0,0 +1,359 @@
+import YAML from 'yaml';
+import { ScriptCompiler } from '../script/ScriptCompiler';
+import { StateChanges, StateChangeValue } from '../state/StateChanges';
+import { Story } from './StoryData';
+import { StoryRuntime } from './StoryRuntime';
+
+/**
+ * What must hold at a point in a playthrough. Every field is optional.
+ */
+export interface PlaythroughExpectation {
+  node?: string;
+  state?: Record<string, any>; // Dotted paths to expected values; other keys are ignored
+  choices?: string[]; // Ids of the available choices, in order
+  condition?: string; // A story condition, e.g. `hasMap and friendship >= 2`
+  visited?: string[]; // Nodes that must have been entered
+}
+
+/**
+ * One step of a playthrough. `choose` takes a choice id or its text;
+ * `'progress'` on its own means `{ progress: 1 }`; `'timeout'` lets a timed
+ * choice run out.
+ */
+export type PlaythroughStep =
+  | 'progress'
+  | 'timeout'
+  | { choose: string }
+  | { progress: number }
+  | { set: Record<string, StateChangeValue> }
+  | { expect: PlaythroughExpectation };
+
+export interface Playthrough {
+  name?: string;
+  start?: string; // Node to start at instead of the story's startNode
+  state?: Record<string, StateChangeValue>; // Changes applied to the initial state
+  seed?: number; // Seed for random nodes (default 0), so every run takes the same outcomes
+  steps: PlaythroughStep[];
+}
+
+/**
+ * A playthrough file: the story it runs against, relative to the file, and
+ * its playthroughs
+ */
+export interface PlaythroughFile {
+  story: string;
+  playthroughs: Playthrough[];
+}
+
+export interface PlaythroughFailure {
+  step: number; // 1-based; 0 for the start
+  action: string;
+  message: string;
+  expected?: unknown;
+  received?: unknown;
+}
+
+export interface PlaythroughResult {
+  name?: string;
+  passed: boolean;
+  failures: PlaythroughFailure[]; // All mismatches of the first failing step
+  nodeId: string | null;
+  state: Record<string, any>;
+}
+
+const STEP_KEYS = ['choose', 'progress', 'set', 'expect'];
+const EXPECTATION_KEYS = ['node', 'state', 'choices', 'condition', 'visited'];
+
+// Automatic steps (branches, scenes) allowed after one action
+const MAX_AUTO_STEPS = 1000;
+
+/**
+ * Runs scripted playthroughs against a story on a headless StoryRuntime,
+ * so writers can lock in story behavior:
+ *
+ * ```yaml
+ * story: ../../../public/assets/stories/story-grok.yaml
+ * playthroughs:
+ *   - name: Finding the map
+ *     start: path_choice
+ *     steps:
+ *       - choose: look_around
+ *       - progress: 2
+ *       - expect: { node: map_choice, state: { hasMap: true } }
+ * ```
+ *
+ * A playthrough stops at its first failing step.
+ */
+export class PlaythroughRunner {
+  /**
+   * Parse and check a playthrough file
+   * @param yamlData The YAML source
+   * @throws Error if the file is malformed
+   */
+  public static parse(yamlData: string): PlaythroughFile {
+    const data = YAML.parse(yamlData);
+    if (!data || typeof data.story !== 'string' || !Array.isArray(data.playthroughs)) {
+      throw new Error('A playthrough file needs a story path and a playthroughs list');
+    }
+
+    const errors = (data.playthroughs as unknown[]).flatMap((playthrough, index) =>
+      this.check(playthrough).map((error) => `Playthrough ${index + 1}: ${error}`)
+    );
+    if (errors.length > 0) {
+      throw new Error(errors.join('\n'));
+    }
+
+    return data as PlaythroughFile;
+  }
+
+  /**
+   * Run a playthrough against a story
+   * @param story The story data
+   * @param playthrough The playthrough to run
+   */
+  public static run(story: Story, playthrough: Playthrough): PlaythroughResult {
+    const tasks: Array<() => void> = [];
+    const runtime = new StoryRuntime({
+      schedule: (task) => tasks.push(task),
+      seed: playthrough.seed ?? 0
+    });
+    runtime.loadFromData(story);
+
+    const settle = (): void => {
+      for (let steps = 0; tasks.length > 0; steps++) {
+        if (steps > MAX_AUTO_STEPS) {
+          throw new Error(`Story moved ${MAX_AUTO_STEPS} steps on its own`);
+        }
+        tasks.shift()!();
+      }
+    };
+
+    const result = (failures: PlaythroughFailure[]): PlaythroughResult => ({
+      name: playthrough.name,
+      passed: failures.length === 0,
+      failures,
+      nodeId: runtime.getCurrentNodeId(),
+      state: runtime.getGameState()
+    });
+
+    try {
+      if (playthrough.state) runtime.updateGameState(playthrough.state);
+      if (playthrough.start) runtime.jumpToNode(playthrough.start);
+      else runtime.start();
+      settle();
+    } catch (error) {
+      return result([{ step: 0, action: 'start', message: (error as Error).message }]);
+    }
+
+    for (const [index, step] of playthrough.steps.entries()) {
+      const action = typeof step === 'string' ? step : Object.keys(step)[0];
+      let failures: PlaythroughFailure[];
+      try {
+        failures = this.runStep(runtime, step, settle).map((failure) => ({
+          step: index + 1,
+          action,
+          ...failure
+        }));
+        settle();
+      } catch (error) {
+        failures = [{ step: index + 1, action, message: (error as Error).message }];
+      }
+
+      if (failures.length > 0) return result(failures);
+    }
+
+    return result([]);
+  }
+
+  /**
+   * Render a result with expected/received values for each mismatch
+   * @param result The playthrough result
+   */
+  public static formatResult(result: PlaythroughResult): string {
+    const title = `${result.passed ? '✓' : '✗'} ${result.name ?? 'Playthrough'}`;
+    const show = (value: unknown): string => JSON.stringify(value) ?? 'undefined';
+
+    const lines = [title];
+    for (const failure of result.failures) {
+      lines.push(`  step ${failure.step} (${failure.action}): ${failure.message}`);
+      if ('expected' in failure || 'received' in failure) {
+        lines.push(`    - Expected: ${show(failure.expected)}`);
+        lines.push(`    + Received: ${show(failure.received)}`);
+      }
+    }
+    if (!result.passed) {
+      lines.push(`  at node ${result.nodeId ?? '(none)'} with state ${show(result.state)}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Perform one step, returning the mismatches of an expectation
+   * @param settle Runs automatic progression scheduled by the runtime
+   * @throws Error if an action cannot be performed
+   */
+  private static runStep(
+    runtime: StoryRuntime,
+    step: PlaythroughStep,
+    settle: () => void
+  ): Array<Omit<PlaythroughFailure, 'step' | 'action'>> {
+    if (step === 'progress') {
+      runtime.progress();
+      return [];
+    }
+
+    if (step === 'timeout') {
+      runtime.timeOutChoice();
+      return [];
+    }
+
+    if ('choose' in step) {
+      const node = runtime.getCurrentNode();
+      if (!node || node.getType() !== 'choice') {
+        throw new Error(`Cannot choose '${step.choose}': node ${node?.getId()} is not a choice`);
+      }
+      const available = runtime.getAvailableChoices();
+      const index = available.findIndex(
+        (choice) => choice.id === step.choose || choice.text === step.choose
+      );
+      if (index === -1) {
+        throw new Error(
+          `Choice '${step.choose}' is not available at ${node.getId()}; ` +
+            `available: ${available.map((choice) => choice.id).join(', ') || '(none)'}`
+        );
+      }
+      runtime.makeChoice(index);
+      return [];
+    }
+
+    if ('progress' in step) {
+      for (let count = 0; count < step.progress; count++) {
+        runtime.progress();
+        settle();
+      }
+      return [];
+    }
+
+    if ('set' in step) {
+      runtime.updateGameState(step.set);
+      return [];
+    }
+
+    return this.checkExpectation(runtime, step.expect);
+  }
+
+  private static checkExpectation(
+    runtime: StoryRuntime,
+    expectation: PlaythroughExpectation
+  ): Array<Omit<PlaythroughFailure, 'step' | 'action'>> {
+    const failures: Array<Omit<PlaythroughFailure, 'step' | 'action'>> = [];
+    const state = runtime.getGameState();
+    const history = runtime.getHistory();
+    const node = runtime.getCurrentNode();
+
+    if (expectation.node !== undefined && expectation.node !== node?.getId()) {
+      failures.push({
+        message: 'node differs',
+        expected: expectation.node,
+        received: node?.getId() ?? null
+      });
+    }
+
+    for (const [path, expected] of Object.entries(expectation.state ?? {})) {
+      const received = StateChanges.get(state, path);
+      if (!this.isEqual(expected, received)) {
+        failures.push({ message: `state.${path} differs`, expected, received });
+      }
+    }
+
+    if (expectation.choices !== undefined) {
+      const received =
+        node?.getType() === 'choice'
+          ? runtime.getAvailableChoices().map((choice) => choice.id)
+          : [];
+      if (!this.isEqual(expectation.choices, received)) {
+        failures.push({
+          message: 'available choices differ',
+          expected: expectation.choices,
+          received
+        });
+      }
+    }
+
+    if (expectation.condition !== undefined) {
+      const condition = ScriptCompiler.compileCondition(expectation.condition);
+      if (!condition.evaluate({ state, visitedNodes: history })) {
+        failures.push({ message: `condition '${expectation.condition}' is false` });
+      }
+    }
+
+    const missing = (expectation.visited ?? []).filter((nodeId) => !history.includes(nodeId));
+    if (missing.length > 0) {
+      failures.push({ message: `not visited: ${missing.join(', ')}`, received: history });
+    }
+
+    return failures;
+  }
+
+  /**
+   * Check the shape of one playthrough
+   */
+  private static check(playthrough: any): string[] {
+    if (!playthrough || !Array.isArray(playthrough.steps)) {
+      return ['needs a steps list'];
+    }
+    if (playthrough.seed !== undefined && !Number.isInteger(playthrough.seed)) {
+      return ['seed must be an integer'];
+    }
+
+    return (playthrough.steps as unknown[]).flatMap((step: any, index) => {
+      const at = `step ${index + 1}`;
+      if (step === 'progress' || step === 'timeout') return [];
+      if (!step || typeof step !== 'object' || Object.keys(step).length !== 1) {
+        return [`${at} must be 'progress', 'timeout' or a map with one of ${STEP_KEYS.join(', ')}`];
+      }
+
+      const [key] = Object.keys(step);
+      const value = step[key];
+      switch (key) {
+        case 'choose':
+          return typeof value === 'string' ? [] : [`${at}: choose takes a choice id or text`];
+        case 'progress':
+          return Number.isInteger(value) && value > 0
+            ? []
+            : [`${at}: progress takes a positive count`];
+        case 'set':
+          return StateChanges.validate(value ?? {}).map((error) => `${at}: ${error}`);
+        case 'expect': {
+          const unknown = Object.keys(value ?? {}).filter(
+            (name) => !EXPECTATION_KEYS.includes(name)
+          );
+          return unknown.length > 0
+            ? [
+                `${at}: unknown expectation ${unknown.join(', ')}; use ${EXPECTATION_KEYS.join(', ')}`
+              ]
+            : [];
+        }
+        default:
+          return [`${at}: unknown step '${key}'; use ${STEP_KEYS.join(', ')}`];
+      }
+    });
+  }
+
+  /**
+   * Deep equality that ignores key order
+   */
+  private static isEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    return (
+      keysA.length === keysB.length &&
+      keysA.every((key) => this.isEqual((a as any)[key], (b as any)[key]))
+    );
+  }
+}
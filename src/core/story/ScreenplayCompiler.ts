@@ -0,0 +1,404 @@
+import { Story, StoryChoice, StoryNode } from './StoryData';
+import { StoryDiagnostic } from './StoryDiagnostic';
+import { SourceLocation, SourceMappedStory } from './StorySource';
+
+/**
+ * A place the flow leaves from, waiting for the id of whatever comes next
+ */
+interface Exit {
+  path: Array<string | number>; // Data path of the field to fill, e.g. a nextNode
+  link: (nodeId: string) => void;
+}
+
+/**
+ * A `{condition}` at the start of a line
+ */
+interface Guard {
+  source: string;
+  end: number; // Index just past the closing brace
+}
+
+type SyntaxReporter = (message: string, line: number, column?: number) => void;
+
+const LABEL_PATTERN = /^==\s*([A-Za-z0-9_-]+)\s*=*$/;
+const DIRECTIVE_PATTERN = /^\[(\w+)(?:\s+(.*?))?\s*\]$/;
+const SPEAKER_PATTERN = /^([A-Za-z][\w '-]*?)(?:\s*\(([\w-]+)\))?:\s+(.*)$/;
+const JUMP_PATTERN = /^(.*?)\s*->\s*(\S+)$/;
+const HEADER_DIRECTIVES = ['id', 'title', 'author', 'version', 'start'];
+
+/**
+ * Compiles the screenplay story format into the same Story structure the
+ * YAML format produces. One statement per line:
+ *
+ *   [title The Forest's Secret]       story header: id, title, author, version, start
+ *   == intro ==                       label: the next node gets this id
+ *   [scene forest_path guide:left]    scene node; characters as id:position[:expression]
+ *   Guide (happy): Welcome!           dialogue; the emotion is optional
+ *   The wind picks up.                narration, spoken by 'narrator'
+ *   * {courage >= 3} Fight -> fight   choice with optional guard; no target continues below
+ *   {hasMap} -> shortcut              jump; a guard turns it into a branch
+ *   ~ courage += 1                    script run when entering the next node
+ *   [end]                             end node
+ *   // comment
+ *
+ * Other nodes get ids from the current label (`intro_1`, `intro_2`, ...) and
+ * are chained with `nextNode` in reading order. A dialogue line directly
+ * followed by choices becomes the prompt of the choice node.
+ */
+export class ScreenplayCompiler {
+  /**
+   * Compile a screenplay
+   * @param text The screenplay source
+   * @param file File name to attach to diagnostics
+   */
+  public static compile(text: string, file?: string): SourceMappedStory {
+    const diagnostics: StoryDiagnostic[] = [];
+    const header: Record<string, string> = {};
+    const nodes: Record<string, StoryNode> = {};
+    const positions = new Map<string, { line: number; column: number }>();
+    const labels = new Map<string, number>();
+
+    let section = 'start';
+    let counter = 0;
+    let label: string | null = null;
+    let exits: Exit[] = [];
+    let scripts: string[] = [];
+    let prompt: StoryNode | null = null; // Dialogue a following choice list turns into its prompt
+    let choiceNode: StoryNode | null = null; // Choice node of the current choice list
+
+    const error: SyntaxReporter = (message, line, column = 1) => {
+      diagnostics.push({ severity: 'error', code: 'syntax', message, file, line, column });
+    };
+    const mark = (path: Array<string | number>, line: number, column: number): void => {
+      positions.set(path.join('\u0000'), { line, column });
+    };
+
+    const nextId = (): string => {
+      if (label) {
+        const id = label;
+        label = null;
+        return id;
+      }
+      let id: string;
+      do {
+        id = `${section}_${++counter}`;
+      } while (nodes[id] || labels.has(id));
+      return id;
+    };
+
+    /**
+     * Add a node, linking every open exit to it
+     */
+    const addNode = (node: Partial<StoryNode>, line: number): StoryNode => {
+      const added = { id: nextId(), ...node } as StoryNode;
+      if (scripts.length > 0) {
+        added.onEnter = scripts.join('\n');
+        scripts = [];
+      }
+
+      nodes[added.id] = added;
+      mark(['nodes', added.id], line, 1);
+      exits.forEach((exit) => exit.link(added.id));
+      exits = [];
+      prompt = null;
+      choiceNode = null;
+      return added;
+    };
+
+    const continueFrom = (node: StoryNode): void => {
+      exits = [{ path: ['nodes', node.id, 'nextNode'], link: (id) => (node.nextNode = id) }];
+    };
+
+    const lines = text.split(/\r?\n/);
+    for (const [index, raw] of lines.entries()) {
+      const lineNumber = index + 1;
+      const column = raw.length - raw.trimStart().length + 1;
+      const line = raw.trim();
+      if (!line || line.startsWith('//')) continue;
+
+      // Choices
+      if (line.startsWith('*')) {
+        const body = line.slice(1).trimStart();
+        const bodyColumn = column + line.length - body.length;
+        const choice = this.parseChoice(body, lineNumber, bodyColumn, error);
+        if (!choice) continue;
+
+        if (!choiceNode) {
+          if (scripts.length > 0) {
+            error('A ~ script must be followed by a node, not a choice', lineNumber, column);
+            scripts = [];
+          }
+          if (prompt) {
+            choiceNode = prompt;
+            choiceNode.type = 'choice';
+            delete choiceNode.nextNode;
+            exits = [];
+          } else {
+            choiceNode = addNode({ type: 'choice' }, lineNumber);
+          }
+          choiceNode.choices = [];
+        }
+
+        const choices = choiceNode.choices!;
+        const path = ['nodes', choiceNode.id, 'choices', choices.length];
+        const entry = {
+          id: this.uniqueSlug(choice.text, choices),
+          text: choice.text
+        } as StoryChoice;
+        choices.push(entry);
+        mark(path, lineNumber, column);
+
+        if (choice.condition !== undefined) {
+          entry.condition = choice.condition;
+          mark([...path, 'condition'], lineNumber, bodyColumn + 1);
+        }
+        if (choice.target) {
+          entry.nextNode = choice.target;
+          mark([...path, 'nextNode'], lineNumber, bodyColumn + body.lastIndexOf(choice.target));
+        } else {
+          // Continues with whatever follows the choice list
+          exits.push({ path: [...path, 'nextNode'], link: (id) => (entry.nextNode = id) });
+        }
+        continue;
+      }
+      choiceNode = null;
+
+      // Labels
+      const labelMatch = LABEL_PATTERN.exec(line);
+      if (labelMatch) {
+        const name = labelMatch[1];
+        if (labels.has(name)) {
+          error(
+            `Label '${name}' is already defined on line ${labels.get(name)}`,
+            lineNumber,
+            column
+          );
+          continue;
+        }
+        if (label) {
+          error(`Label '${label}' has no content before '${name}'`, lineNumber, column);
+        }
+        labels.set(name, lineNumber);
+        label = name;
+        section = name;
+        counter = 0;
+        prompt = null;
+        continue;
+      }
+
+      // Scripts for the next node
+      if (line.startsWith('~')) {
+        scripts.push(line.slice(1).trim());
+        continue;
+      }
+
+      // Directives
+      const directive = DIRECTIVE_PATTERN.exec(line);
+      if (directive) {
+        const [, name, argument = ''] = directive;
+        if (HEADER_DIRECTIVES.includes(name)) {
+          if (argument) header[name] = argument;
+          else error(`[${name}] needs a value`, lineNumber, column);
+          continue;
+        }
+
+        if (name === 'scene') {
+          const [sceneId, ...characters] = argument.split(/\s+/).filter(Boolean);
+          if (!sceneId) {
+            error('[scene] needs a scene id', lineNumber, column);
+            continue;
+          }
+          const node = addNode(
+            {
+              type: 'scene',
+              sceneId,
+              background: sceneId,
+              characters: characters.map((character) => {
+                const [id, position = 'center', expression] = character.split(':');
+                return expression ? { id, position, expression } : { id, position };
+              })
+            },
+            lineNumber
+          );
+          continueFrom(node);
+        } else if (name === 'end') {
+          addNode({ type: 'end' }, lineNumber);
+        } else {
+          error(`Unknown directive [${name}]`, lineNumber, column);
+        }
+        continue;
+      }
+
+      // An optional {guard} in front of a jump or dialogue line
+      const guard = this.parseGuard(line, lineNumber, column, error);
+      if (guard === undefined) continue;
+      const body = guard ? line.slice(guard.end).trimStart() : line;
+
+      // Jumps
+      const jump = /^->\s*(\S+)$/.exec(body);
+      if (jump) {
+        const target = jump[1];
+        const targetColumn = column + line.lastIndexOf(target);
+
+        if (guard) {
+          const branch = addNode(
+            { type: 'branch', cases: [{ condition: guard.source, nextNode: target }] },
+            lineNumber
+          );
+          mark(['nodes', branch.id, 'cases', 0, 'condition'], lineNumber, column + 1);
+          mark(['nodes', branch.id, 'cases', 0, 'nextNode'], lineNumber, targetColumn);
+          exits = [{ path: ['nodes', branch.id, 'else'], link: (id) => (branch.else = id) }];
+          continue;
+        }
+
+        if (exits.length === 0) {
+          error(`Nothing leads to this jump to '${target}'`, lineNumber, column);
+        }
+        for (const exit of exits) {
+          exit.link(target);
+          mark(exit.path, lineNumber, targetColumn);
+        }
+        exits = [];
+        prompt = null;
+        continue;
+      }
+
+      // Dialogue and narration
+      const speaker = SPEAKER_PATTERN.exec(body);
+      const dialogue: Partial<StoryNode> = {
+        type: 'dialogue',
+        characterId: speaker ? this.slug(speaker[1]) : 'narrator',
+        text: speaker ? speaker[3] : body
+      };
+      if (speaker?.[2]) dialogue.metadata = { emotion: speaker[2] };
+
+      if (guard) {
+        // Skip the line when the guard does not hold
+        const branch = addNode({ type: 'branch', cases: [] }, lineNumber);
+        mark(['nodes', branch.id, 'cases', 0, 'condition'], lineNumber, column + 1);
+        const node = addNode(dialogue, lineNumber);
+        branch.cases!.push({ condition: guard.source, nextNode: node.id });
+        continueFrom(node);
+        exits.push({ path: ['nodes', branch.id, 'else'], link: (id) => (branch.else = id) });
+      } else {
+        const node = addNode(dialogue, lineNumber);
+        continueFrom(node);
+        prompt = node;
+      }
+    }
+
+    if (label) {
+      error(`Label '${label}' has no content`, labels.get(label)!);
+    }
+    if (scripts.length > 0) {
+      error('A ~ script at the end of the screenplay has no node to run on', lines.length);
+    }
+
+    const id = header.id ?? (header.title ? this.slug(header.title) : undefined);
+    const story = {
+      ...(id && { id }),
+      ...(header.title && { title: header.title }),
+      ...(header.author && { author: header.author }),
+      ...(header.version && { version: header.version }),
+      startNode: header.start ?? Object.keys(nodes)[0],
+      nodes
+    } as Story;
+
+    const locate = (path: Array<string | number>, offset?: number): SourceLocation => {
+      for (let length = path.length; length > 0; length--) {
+        const position = positions.get(path.slice(0, length).join('\u0000'));
+        if (position) {
+          const shift = offset !== undefined && length === path.length ? offset : 0;
+          return { file, line: position.line, column: position.column + shift };
+        }
+      }
+      return { file, line: 1, column: 1 };
+    };
+
+    return { story, diagnostics, locate };
+  }
+
+  /**
+   * Parse `{guard} text -> target`, the part of a choice after the `*`
+   */
+  private static parseChoice(
+    body: string,
+    lineNumber: number,
+    column: number,
+    error: SyntaxReporter
+  ): { text: string; condition?: string; target?: string } | undefined {
+    const guard = this.parseGuard(body, lineNumber, column, error);
+    if (guard === undefined) return undefined;
+
+    let text = guard ? body.slice(guard.end).trim() : body;
+    let target: string | undefined;
+    const jump = JUMP_PATTERN.exec(text);
+    if (jump) {
+      text = jump[1];
+      target = jump[2];
+    }
+
+    if (!text) {
+      error('A choice needs text', lineNumber, column);
+      return undefined;
+    }
+    return { text, condition: guard?.source, target };
+  }
+
+  /**
+   * Parse a leading `{condition}`. Returns null when there is none and
+   * undefined when it is malformed.
+   */
+  private static parseGuard(
+    line: string,
+    lineNumber: number,
+    column: number,
+    error: SyntaxReporter
+  ): Guard | null | undefined {
+    if (!line.startsWith('{')) return null;
+
+    let quote: string | null = null;
+    let depth = 0;
+    for (let index = 0; index < line.length; index++) {
+      const char = line[index];
+      if (quote) {
+        if (char === '\\') index++;
+        else if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}' && --depth === 0) {
+        const source = line.slice(1, index);
+        if (!source.trim()) {
+          error('Empty {condition}', lineNumber, column);
+          return undefined;
+        }
+        return { source, end: index + 1 };
+      }
+    }
+
+    error("Missing '}' after condition", lineNumber, column);
+    return undefined;
+  }
+
+  /**
+   * Turn a name into an id, e.g. 'Old Man' into 'old_man'
+   */
+  private static slug(name: string): string {
+    return name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_|_$/g, '');
+  }
+
+  private static uniqueSlug(text: string, choices: StoryChoice[]): string {
+    const base = this.slug(text) || 'choice';
+    let id = base;
+    for (let suffix = 2; choices.some((choice) => choice.id === id); suffix++) {
+      id = `${base}_${suffix}`;
+    }
+    return id;
+  }
+}
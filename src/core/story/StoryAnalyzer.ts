@@ -0,0 +1,488 @@
+import { ScriptCache } from '../script/ScriptCache';
+import { ScriptVisitor } from '../script/ScriptVisitor';
+import { Story, StoryNode } from './StoryData';
+import { StoryDiagnostic } from './StoryDiagnostic';
+import { TextInterpolator } from './TextInterpolator';
+
+/**
+ * A directed edge in the story graph
+ */
+export interface StoryEdge {
+  from: string;
+  to: string;
+  kind: 'next' | 'choice' | 'case' | 'else' | 'timeout' | 'random' | 'call';
+  label?: string; // Choice text, or the chance of a random outcome
+  choiceId?: string;
+  condition?: string;
+}
+
+/**
+ * Where a node reads or writes state: one condition, script or text
+ */
+export interface StateAccessSite {
+  field: string; // e.g. 'onEnter', "choice 'look_around' condition"
+  path: Array<string | number>; // Data path within the node
+  kind: 'condition' | 'script' | 'text';
+  reads: string[]; // Top-level state keys
+  writes: string[];
+  characters: string[]; // Characters referenced by text
+  error?: Error; // Set when the source does not compile
+}
+
+/**
+ * Static analysis over a story graph. Unlike StoryParser validation, the
+ * analyzer never throws: it returns every finding as a diagnostic.
+ */
+export class StoryAnalyzer {
+  /**
+   * Analyze a story and report structural problems
+   * @param story The story to analyze
+   * @param scripts Compiled scripts to reuse, e.g. the parser's
+   */
+  public static analyze(story: Story, scripts: ScriptCache = new ScriptCache()): StoryDiagnostic[] {
+    const diagnostics: StoryDiagnostic[] = [];
+    const nodes = story.nodes || {};
+
+    if (!nodes[story.startNode]) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'missing-start-node',
+        message: `Start node '${story.startNode}' does not exist`
+      });
+    }
+
+    const edges = new Map<string, StoryEdge[]>();
+    for (const [nodeId, node] of Object.entries(nodes)) {
+      edges.set(nodeId, this.getEdges(nodeId, node));
+    }
+
+    this.checkMissingTargets(nodes, edges, diagnostics);
+    this.checkReachability(story, edges, diagnostics);
+    this.checkDeadEnds(nodes, edges, diagnostics);
+    this.checkClosedCycles(nodes, edges, diagnostics);
+    this.checkChoices(nodes, diagnostics);
+    this.checkBranches(nodes, diagnostics);
+    this.checkStateKeys(story, scripts, diagnostics);
+
+    return diagnostics;
+  }
+
+  /**
+   * Get the outgoing edges of a node, following the same rules as StoryManager
+   * @param nodeId The ID of the node
+   * @param node The node data
+   */
+  public static getEdges(nodeId: string, node: StoryNode): StoryEdge[] {
+    const edges: StoryEdge[] = [];
+
+    switch (node.type) {
+      case 'branch': {
+        const cases =
+          node.cases ??
+          (node.condition && node.nextNode
+            ? [{ condition: node.condition, nextNode: node.nextNode }]
+            : []);
+        for (const branchCase of cases) {
+          edges.push({
+            from: nodeId,
+            to: branchCase.nextNode,
+            kind: 'case',
+            condition: branchCase.condition
+          });
+        }
+        const elseNodeId = node.else ?? node.elseNode;
+        if (elseNodeId) {
+          edges.push({ from: nodeId, to: elseNodeId, kind: 'else' });
+        }
+        break;
+      }
+
+      case 'choice':
+        for (const choice of node.choices || []) {
+          edges.push({
+            from: nodeId,
+            to: choice.nextNode,
+            kind: 'choice',
+            label: choice.text,
+            choiceId: choice.id,
+            condition: choice.condition
+          });
+        }
+        if (node.timer?.nextNode) {
+          edges.push({ from: nodeId, to: node.timer.nextNode, kind: 'timeout' });
+        }
+        // Taken once no choice is available
+        if (node.nextNode) {
+          edges.push({ from: nodeId, to: node.nextNode, kind: 'next' });
+        }
+        break;
+
+      case 'random': {
+        const outcomes = node.outcomes || [];
+        const total = outcomes.reduce((sum, outcome) => sum + (outcome.weight ?? 1), 0);
+        for (const outcome of outcomes) {
+          const weight = outcome.weight ?? 1;
+          if (weight <= 0) continue;
+          edges.push({
+            from: nodeId,
+            to: outcome.nextNode,
+            kind: 'random',
+            label: `${Math.round((weight / total) * 100)}%`
+          });
+        }
+        break;
+      }
+
+      case 'call':
+        if (node.target) {
+          edges.push({ from: nodeId, to: node.target, kind: 'call' });
+        }
+        // Where the sub-flow returns to
+        if (node.nextNode) {
+          edges.push({ from: nodeId, to: node.nextNode, kind: 'next' });
+        }
+        break;
+
+      // Return nodes go back to whichever call node ran them
+      case 'return':
+      case 'end':
+        break;
+
+      default:
+        if (node.nextNode) {
+          edges.push({ from: nodeId, to: node.nextNode, kind: 'next' });
+        }
+    }
+
+    return edges;
+  }
+
+  /**
+   * Get the state keys each condition, script and text of a node reads and writes
+   * @param nodeId The ID of the node
+   * @param node The node data
+   * @param scripts Compiled scripts to reuse, e.g. the parser's
+   */
+  public static getStateAccess(
+    nodeId: string,
+    node: StoryNode,
+    scripts: ScriptCache = new ScriptCache()
+  ): StateAccessSite[] {
+    const sources: Array<{
+      field: string;
+      path: Array<string | number>;
+      source?: string;
+      kind: StateAccessSite['kind'];
+    }> = [
+      { field: 'text', path: ['text'], source: node.text, kind: 'text' },
+      { field: 'condition', path: ['condition'], source: node.condition, kind: 'condition' },
+      { field: 'onEnter', path: ['onEnter'], source: node.onEnter, kind: 'script' },
+      { field: 'onExit', path: ['onExit'], source: node.onExit, kind: 'script' },
+      ...(node.cases || []).map((branchCase, index) => ({
+        field: `case ${index} condition`,
+        path: ['cases', index, 'condition'],
+        source: branchCase.condition,
+        kind: 'condition' as const
+      })),
+      ...(node.choices || []).flatMap((choice, index) => [
+        {
+          field: `choice '${choice.id}' condition`,
+          path: ['choices', index, 'condition'],
+          source: choice.condition,
+          kind: 'condition' as const
+        },
+        {
+          field: `choice '${choice.id}' text`,
+          path: ['choices', index, 'text'],
+          source: choice.text,
+          kind: 'text' as const
+        }
+      ])
+    ];
+
+    return sources
+      .filter(({ source }) => typeof source === 'string')
+      .map(({ field, path, source, kind }): StateAccessSite => {
+        const site: StateAccessSite = { field, path, kind, reads: [], writes: [], characters: [] };
+        const origin = { nodeId, field };
+
+        try {
+          if (kind === 'text') {
+            const references = TextInterpolator.getReferences(source!, origin);
+            site.reads.push(...references.stateKeys);
+            site.characters.push(...references.characters);
+            for (const condition of references.conditions) {
+              const ast = scripts.condition(condition, origin).ast;
+              site.reads.push(...ScriptVisitor.collectStateAccess(ast).reads);
+            }
+          } else {
+            const ast =
+              kind === 'condition'
+                ? scripts.condition(source!, origin).ast
+                : scripts.script(source!, origin).ast;
+            const access = ScriptVisitor.collectStateAccess(ast);
+            site.reads.push(...access.reads);
+            site.writes.push(...access.writes);
+          }
+        } catch (error) {
+          site.error = error as Error;
+        }
+
+        return site;
+      });
+  }
+
+  /**
+   * Render diagnostics one per line, e.g. for console or CLI output
+   * @param diagnostics The diagnostics to render
+   */
+  public static formatReport(diagnostics: StoryDiagnostic[]): string {
+    return diagnostics
+      .map((diagnostic) => {
+        const lineColumn =
+          diagnostic.line !== undefined ? `${diagnostic.line}:${diagnostic.column}` : '';
+        const location = [diagnostic.file, lineColumn].filter(Boolean).join(':');
+        const position = location ? `${location} ` : '';
+        const node = diagnostic.nodeId ? ` [${diagnostic.nodeId}]` : '';
+        return `${position}${diagnostic.severity}${node} ${diagnostic.code}: ${diagnostic.message}`;
+      })
+      .join('\n');
+  }
+
+  private static checkMissingTargets(
+    nodes: Record<string, StoryNode>,
+    edges: Map<string, StoryEdge[]>,
+    diagnostics: StoryDiagnostic[]
+  ): void {
+    for (const [nodeId, nodeEdges] of edges) {
+      for (const edge of nodeEdges) {
+        if (!nodes[edge.to]) {
+          diagnostics.push({
+            severity: 'error',
+            code: 'missing-node',
+            nodeId,
+            message: `Links to '${edge.to}', which does not exist`
+          });
+        }
+      }
+    }
+  }
+
+  private static checkReachability(
+    story: Story,
+    edges: Map<string, StoryEdge[]>,
+    diagnostics: StoryDiagnostic[]
+  ): void {
+    const reachable = new Set<string>();
+    // Triggers can interrupt the story anywhere, so their nodes are entry points too
+    const entries = [story.startNode, ...(story.triggers || []).map((trigger) => trigger.nextNode)];
+    const queue = entries.filter((nodeId): nodeId is string => !!nodeId && !!story.nodes[nodeId]);
+
+    while (queue.length > 0) {
+      const nodeId = queue.shift()!;
+      if (reachable.has(nodeId)) continue;
+      reachable.add(nodeId);
+
+      for (const edge of edges.get(nodeId) || []) {
+        if (edges.has(edge.to) && !reachable.has(edge.to)) queue.push(edge.to);
+      }
+    }
+
+    for (const nodeId of edges.keys()) {
+      if (!reachable.has(nodeId)) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'unreachable-node',
+          nodeId,
+          message: `Node cannot be reached from the start node '${story.startNode}'`
+        });
+      }
+    }
+  }
+
+  private static checkDeadEnds(
+    nodes: Record<string, StoryNode>,
+    edges: Map<string, StoryEdge[]>,
+    diagnostics: StoryDiagnostic[]
+  ): void {
+    for (const [nodeId, node] of Object.entries(nodes)) {
+      const isFinal = node.type === 'end' || node.type === 'return';
+      if (!isFinal && (edges.get(nodeId) || []).length === 0) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'dead-end',
+          nodeId,
+          message: `${node.type} node has nowhere to go and is not an end node`
+        });
+      }
+    }
+  }
+
+  /**
+   * Find strongly connected components (Tarjan) that no edge ever leaves
+   */
+  private static checkClosedCycles(
+    nodes: Record<string, StoryNode>,
+    edges: Map<string, StoryEdge[]>,
+    diagnostics: StoryDiagnostic[]
+  ): void {
+    const indexes = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const components: string[][] = [];
+    let nextIndex = 0;
+
+    const connect = (nodeId: string): void => {
+      indexes.set(nodeId, nextIndex);
+      lowLinks.set(nodeId, nextIndex);
+      nextIndex++;
+      stack.push(nodeId);
+      onStack.add(nodeId);
+
+      for (const edge of edges.get(nodeId) || []) {
+        if (!nodes[edge.to]) continue;
+        if (!indexes.has(edge.to)) {
+          connect(edge.to);
+          lowLinks.set(nodeId, Math.min(lowLinks.get(nodeId)!, lowLinks.get(edge.to)!));
+        } else if (onStack.has(edge.to)) {
+          lowLinks.set(nodeId, Math.min(lowLinks.get(nodeId)!, indexes.get(edge.to)!));
+        }
+      }
+
+      if (lowLinks.get(nodeId) === indexes.get(nodeId)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== nodeId);
+        components.push(component.reverse());
+      }
+    };
+
+    for (const nodeId of Object.keys(nodes)) {
+      if (!indexes.has(nodeId)) connect(nodeId);
+    }
+
+    for (const component of components) {
+      const members = new Set(component);
+      const componentEdges = component.flatMap((nodeId) => edges.get(nodeId) || []);
+      const isCycle =
+        component.length > 1 || componentEdges.some((edge) => edge.to === component[0]);
+      const hasExit = componentEdges.some((edge) => !members.has(edge.to));
+
+      if (isCycle && !hasExit) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'closed-cycle',
+          nodeId: component[0],
+          message: `Nodes ${component.map((id) => `'${id}'`).join(', ')} form a loop with no exit`
+        });
+      }
+    }
+  }
+
+  private static checkChoices(
+    nodes: Record<string, StoryNode>,
+    diagnostics: StoryDiagnostic[]
+  ): void {
+    for (const [nodeId, node] of Object.entries(nodes)) {
+      const choices = node.type === 'choice' ? node.choices || [] : [];
+      if (choices.length > 0 && !node.nextNode && choices.every((choice) => choice.condition)) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'all-choices-conditional',
+          nodeId,
+          message: 'Every choice has a condition, so the player may be left with no options'
+        });
+      }
+    }
+  }
+
+  private static checkBranches(
+    nodes: Record<string, StoryNode>,
+    diagnostics: StoryDiagnostic[]
+  ): void {
+    for (const [nodeId, node] of Object.entries(nodes)) {
+      if (node.type === 'branch' && !(node.else ?? node.elseNode)) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'branch-without-fallback',
+          nodeId,
+          message: 'Branch has no else target, so the story stalls when no case matches'
+        });
+      }
+    }
+  }
+
+  /**
+   * Report state keys that conditions, scripts or text read but nothing ever sets,
+   * and characters that text refers to but the story does not define
+   */
+  private static checkStateKeys(
+    story: Story,
+    scripts: ScriptCache,
+    diagnostics: StoryDiagnostic[]
+  ): void {
+    const setKeys = new Set(Object.keys(story.initialState || {}));
+    for (const [name, variable] of Object.entries(story.variables || {})) {
+      if (variable?.default !== undefined) setKeys.add(name);
+    }
+    const reads: Array<{ key: string; nodeId: string; field: string }> = [];
+
+    const addStateChanges = (stateChanges?: Record<string, unknown>): void => {
+      for (const path of Object.keys(stateChanges || {})) {
+        setKeys.add(path.split('.')[0]);
+      }
+    };
+
+    for (const trigger of story.triggers || []) {
+      addStateChanges(trigger.stateChanges);
+    }
+
+    for (const [nodeId, node] of Object.entries(story.nodes || {})) {
+      addStateChanges(node.stateChanges);
+      for (const choice of node.choices || []) {
+        addStateChanges(choice.stateChanges);
+      }
+
+      for (const site of this.getStateAccess(nodeId, node, scripts)) {
+        if (site.error) {
+          diagnostics.push({
+            severity: 'error',
+            code: site.kind === 'text' ? 'invalid-text' : 'invalid-script',
+            nodeId,
+            message: site.error.message
+          });
+          continue;
+        }
+
+        site.writes.forEach((key) => setKeys.add(key));
+        site.reads.forEach((key) => reads.push({ key, nodeId, field: site.field }));
+        for (const characterId of site.characters) {
+          if (story.assets?.characters?.[characterId]) continue;
+          diagnostics.push({
+            severity: 'warning',
+            code: 'unresolved-reference',
+            nodeId,
+            message: `Character '${characterId}' referenced in ${site.field} does not exist`
+          });
+        }
+      }
+    }
+
+    const reported = new Set<string>();
+    for (const { key, nodeId, field } of reads) {
+      if (setKeys.has(key) || reported.has(`${nodeId}:${key}`)) continue;
+      reported.add(`${nodeId}:${key}`);
+      diagnostics.push({
+        severity: 'warning',
+        code: 'unset-state-key',
+        nodeId,
+        message: `State key '${key}' is read in ${field} but never set in initialState or any stateChanges`
+      });
+    }
+  }
+}
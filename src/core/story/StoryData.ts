@@ -1,5 +1,6 @@
 import { AnimationPreset } from '../../core/animations/StoryAnimator';
 import { EasingFunction } from '../animations/AnimationManager';
+import { StateChangeValue } from '../state/StateChanges';
 
 /**
  * Defines the structure for story content in YAML/JSON format
@@ -23,7 +24,36 @@ export interface StoryChoice {
   text: string;
   nextNode: string;
   condition?: string; // Condition based on game state
-  stateChanges?: Record<string, any>; // State changes when this choice is selected
+  stateChanges?: Record<string, StateChangeValue>; // State changes when this choice is selected
+  uses?: 'once' | 'sticky' | number; // How often it can be taken (default sticky: any number of times)
+  exhausted?: 'hide' | 'disable'; // How it shows once used up (default hide)
+}
+
+/**
+ * A time limit on a choice node. When time runs out the default choice is
+ * made if it is available, otherwise the story goes to `nextNode`, or
+ * without one the first available choice is made.
+ */
+export interface ChoiceTimer {
+  seconds: number;
+  defaultChoice?: string; // ID of the choice made on timeout
+  nextNode?: string; // Node to go to on timeout
+}
+
+/**
+ * A possible outcome of a random node
+ */
+export interface RandomOutcome {
+  nextNode: string;
+  weight?: number; // Relative chance (default 1)
+}
+
+/**
+ * A single case of a branch node, checked in order
+ */
+export interface BranchCase {
+  condition: string;
+  nextNode: string;
 }
 
 /**
@@ -38,6 +68,19 @@ export interface StoryCharacter {
   textSpeed?: number; // Characters per second
 }
 
+export type VariableType = 'number' | 'boolean' | 'string' | 'array' | 'object';
+
+/**
+ * A declared state variable
+ */
+export interface StoryVariable {
+  type: VariableType;
+  default?: any; // Initial value unless initialState sets one
+  min?: number; // Numbers only; enforced at runtime by clamping
+  max?: number;
+  description?: string;
+}
+
 /**
  * Interface for background definition
  */
@@ -93,6 +136,9 @@ export interface StoryAudio {
   fadeOut?: number;
 }
 
+/**
+ * Presentation hints for a node
+ */
 export interface NodeMetadata {
   transition?:
     | string
@@ -104,6 +150,7 @@ export interface NodeMetadata {
     | string
     | {
         type: string;
+        sound?: string; // Audio asset ID, for { type: 'sound' }
         intensity?: number;
         duration?: number;
       };
@@ -111,6 +158,9 @@ export interface NodeMetadata {
     in?: string;
     out?: string;
   };
+  animationIn?: string; // Shorthand for animation.in
+  animationOut?: string; // Shorthand for animation.out
+  audio?: string; // Audio asset ID to play when the node is shown
   textSpeed?: number;
   textEffect?: string;
   emotion?: string;
@@ -122,15 +172,18 @@ export interface NodeMetadata {
  */
 export interface StoryNode {
   id: string;
-  type: 'dialogue' | 'scene' | 'choice' | 'branch' | 'end';
+  renamedFrom?: string[]; // Former ids, so saves made before a rename still find the node
+  type: 'dialogue' | 'scene' | 'choice' | 'branch' | 'random' | 'call' | 'return' | 'end';
 
   // Dialogue specific properties
   character?: string;
   text?: string;
   textSpeed?: number;
 
-  // Choice specific properties
+  // Choice specific properties. A choice node with a nextNode goes there
+  // once none of its choices is available, e.g. all used up.
   choices?: StoryChoice[];
+  timer?: ChoiceTimer;
 
   // Scene specific properties
   background?: string | StoryBackground;
@@ -140,16 +193,31 @@ export interface StoryNode {
   animations?: StoryAnimation[];
   audio?: string | StoryAudio;
 
-  // Branch logic
+  // Branch logic. A branch takes the first case whose condition holds, or
+  // `else` when none do. `condition` + `nextNode` + `elseNode` is shorthand
+  // for a single case.
+  cases?: BranchCase[];
+  else?: string;
+  elseNode?: string;
   condition?: string;
   onEnter?: string; // Script to run when entering this node
   onExit?: string; // Script to run when exiting this node
 
+  // Random logic. A random node goes to one of its outcomes, drawn by weight
+  // from the story's seeded generator.
+  outcomes?: RandomOutcome[];
+
+  // Call logic. A call node runs the sub-flow starting at `target` until a
+  // return node, then continues at its own `nextNode`. `params` are set as
+  // state keys for the sub-flow and restored to the caller's values on return.
+  target?: string;
+  params?: Record<string, any>;
+
   // Navigation
   nextNode?: string;
 
-  // State changes
-  stateChanges?: Record<string, any>;
+  // State changes (plain values or operations such as { increment: 1 })
+  stateChanges?: Record<string, StateChangeValue>;
 
   // Metadata
   tags?: string[];
@@ -168,6 +236,39 @@ export interface StoryNode {
   // };
 }
 
+/**
+ * A story-wide rule that interrupts the flow when its condition becomes true,
+ * wherever the player is. It fires once the story waits on a dialogue or
+ * choice node; with `returnAfter`, a return node brings the player back.
+ */
+export interface StoryTrigger {
+  id: string;
+  condition: string; // Fires when this goes from false to true
+  nextNode?: string; // Node to interrupt the flow with
+  stateChanges?: Record<string, StateChangeValue>; // Applied when it fires
+  repeat?: boolean; // Fire again each time the condition becomes true (default once)
+  priority?: number; // Higher fires first when several become true together (default 0)
+  returnAfter?: boolean; // A return node in nextNode's flow resumes the interrupted node
+}
+
+/**
+ * A file whose nodes and assets are merged into the including story. With a
+ * namespace, its node ids become `namespace/id`.
+ */
+export interface StoryInclude {
+  file: string; // Relative to the including file
+  namespace?: string;
+}
+
+/**
+ * A file included by a story, e.g. one chapter
+ */
+export interface StoryChapter {
+  includes?: Array<string | StoryInclude>;
+  assets?: Story['assets'];
+  nodes?: Record<string, StoryNode>;
+}
+
 /**
  * Interface for the entire story structure
  */
@@ -180,6 +281,10 @@ export interface Story {
   // Story metadata
   description?: string;
   tags?: string[];
+  locale?: string; // Locale of the text written in the story (default 'en')
+
+  // Files contributing more nodes and assets, resolved at load time
+  includes?: Array<string | StoryInclude>;
 
   // Assets required by the story
   assets?: {
@@ -189,12 +294,18 @@ export interface Story {
     backgrounds?: Record<string, StoryBackground>;
   };
 
+  // State variables; once any are declared, every state key must be
+  variables?: Record<string, StoryVariable>;
+
   // Initial game state
   initialState?: Record<string, any>;
 
   // Starting node
   startNode: string;
 
+  // Rules watching state, checked after every state change
+  triggers?: StoryTrigger[];
+
   // SceneIds
   sceneIds: Record<string, any>;
 
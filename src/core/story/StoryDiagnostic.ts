@@ -0,0 +1,17 @@
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A single problem found in a story by the parser or analyzer
+ */
+export interface StoryDiagnostic {
+  severity: DiagnosticSeverity;
+  code: string; // Stable identifier, e.g. 'unreachable-node'
+  message: string;
+  nodeId?: string;
+
+  // Source position, when the story was parsed from text
+  file?: string; // Set when the story was loaded from files
+  path?: Array<string | number>; // Data path, e.g. ['nodes', 'intro', 'choices', 0, 'nextNode']
+  line?: number; // 1-based
+  column?: number; // 1-based
+}
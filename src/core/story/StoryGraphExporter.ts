@@ -0,0 +1,263 @@
+import { StoryAnalyzer, StoryEdge } from './StoryAnalyzer';
+import { Story, StoryNode } from './StoryData';
+
+/**
+ * Options for rendering a story graph
+ */
+export interface StoryGraphOptions {
+  // Node ids in the order they were visited, e.g. StoryManager.getVisitedNodes()
+  history?: string[];
+  // Longest node text shown under the node id; 0 hides the text
+  maxTextLength?: number;
+}
+
+type NodeType = StoryNode['type'];
+
+/**
+ * DOT attributes for each node type
+ */
+const DOT_STYLES: Record<NodeType, string> = {
+  dialogue: 'shape=box, style="rounded,filled", fillcolor="#e3f2fd"',
+  choice: 'shape=hexagon, style=filled, fillcolor="#fff3e0"',
+  scene: 'shape=folder, style=filled, fillcolor="#e8f5e9"',
+  branch: 'shape=diamond, style=filled, fillcolor="#f3e5f5"',
+  random: 'shape=octagon, style=filled, fillcolor="#e0f7fa"',
+  call: 'shape=component, style=filled, fillcolor="#fffde7"',
+  return: 'shape=invhouse, style=filled, fillcolor="#fffde7"',
+  end: 'shape=doublecircle, style=filled, fillcolor="#eeeeee"'
+};
+
+/**
+ * Mermaid shape delimiters and class styles for each node type
+ */
+const MERMAID_STYLES: Record<NodeType, { open: string; close: string; style: string }> = {
+  dialogue: { open: '(', close: ')', style: 'fill:#e3f2fd,stroke:#1e88e5' },
+  choice: { open: '{{', close: '}}', style: 'fill:#fff3e0,stroke:#fb8c00' },
+  scene: { open: '[/', close: '/]', style: 'fill:#e8f5e9,stroke:#43a047' },
+  branch: { open: '{', close: '}', style: 'fill:#f3e5f5,stroke:#8e24aa' },
+  random: { open: '[\\', close: '/]', style: 'fill:#e0f7fa,stroke:#00acc1' },
+  call: { open: '[[', close: ']]', style: 'fill:#fffde7,stroke:#fdd835' },
+  return: { open: '>', close: ']', style: 'fill:#fffde7,stroke:#fdd835' },
+  end: { open: '(((', close: ')))', style: 'fill:#eeeeee,stroke:#616161' }
+};
+
+const HIGHLIGHT_COLOR = '#d32f2f';
+
+/**
+ * The graph shared by both output formats: nodes grouped by scene, edges
+ * following the same rules as StoryManager, and what the history touched
+ */
+interface StoryGraph {
+  clusters: Map<string, string[]>; // sceneId to node ids
+  unclustered: string[];
+  missing: string[]; // Edge targets that are not nodes
+  edges: StoryEdge[];
+  visited: Set<string>;
+  traversed: Set<string>; // `${from}\n${to}`
+  current?: string;
+}
+
+/**
+ * Renders a story as a Graphviz DOT or Mermaid flowchart. Nodes are styled by
+ * type and grouped into one cluster per sceneId; edges carry choice text and
+ * conditions. When a history is given, its nodes and the edges between
+ * consecutive entries are highlighted.
+ */
+export class StoryGraphExporter {
+  /**
+   * Render a story as a Graphviz DOT digraph
+   * @param story The story to render
+   * @param options Rendering options
+   */
+  public static toDot(story: Story, options: StoryGraphOptions = {}): string {
+    const graph = this.buildGraph(story, options);
+    const quote = (text: string): string =>
+      `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+    const renderNode = (nodeId: string, indent: string): string => {
+      const node = story.nodes[nodeId];
+      const attributes = [`label=${quote(this.nodeLabel(nodeId, node, options))}`];
+      attributes.push(node ? DOT_STYLES[node.type] : 'shape=box, style=dashed, color=gray');
+      if (graph.visited.has(nodeId)) {
+        attributes.push(
+          `color="${HIGHLIGHT_COLOR}"`,
+          `penwidth=${nodeId === graph.current ? 4 : 2}`
+        );
+      }
+      return `${indent}${quote(nodeId)} [${attributes.join(', ')}];`;
+    };
+
+    const lines = [
+      `digraph ${quote(story.id || 'story')} {`,
+      `  label=${quote(story.title || story.id || '')};`,
+      '  labelloc=t;',
+      '  node [fontname="Helvetica", fontsize=10];',
+      '  edge [fontname="Helvetica", fontsize=9];'
+    ];
+
+    for (const [sceneId, nodeIds] of graph.clusters) {
+      lines.push(`  subgraph ${quote(`cluster_${sceneId}`)} {`);
+      lines.push(`    label=${quote(sceneId)};`, '    style="rounded,dashed";');
+      lines.push(...nodeIds.map((nodeId) => renderNode(nodeId, '    ')));
+      lines.push('  }');
+    }
+    lines.push(...[...graph.unclustered, ...graph.missing].map((id) => renderNode(id, '  ')));
+
+    for (const edge of graph.edges) {
+      const attributes: string[] = [];
+      const label = this.edgeLabel(edge);
+      if (label) attributes.push(`label=${quote(label)}`);
+      if (edge.kind === 'else' || edge.kind === 'timeout') attributes.push('style=dashed');
+      if (graph.traversed.has(`${edge.from}\n${edge.to}`)) {
+        attributes.push(`color="${HIGHLIGHT_COLOR}"`, 'penwidth=2');
+      }
+      const suffix = attributes.length > 0 ? ` [${attributes.join(', ')}]` : '';
+      lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)}${suffix};`);
+    }
+
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  /**
+   * Render a story as a Mermaid flowchart
+   * @param story The story to render
+   * @param options Rendering options
+   */
+  public static toMermaid(story: Story, options: StoryGraphOptions = {}): string {
+    const graph = this.buildGraph(story, options);
+    const quote = (text: string): string =>
+      `"${text
+        .replace(/"/g, '#quot;')
+        .replace(/</g, '#lt;')
+        .replace(/>/g, '#gt;')
+        .replace(/\n/g, '<br/>')}"`;
+
+    // Node ids may contain '/' or be Mermaid keywords such as `end`
+    const mermaidIds = new Map<string, string>();
+    const idOf = (nodeId: string): string => {
+      if (!mermaidIds.has(nodeId)) mermaidIds.set(nodeId, `n${mermaidIds.size}`);
+      return mermaidIds.get(nodeId)!;
+    };
+
+    const renderNode = (nodeId: string, indent: string): string => {
+      const node = story.nodes[nodeId];
+      const label = quote(this.nodeLabel(nodeId, node, options));
+      const { open, close } = node ? MERMAID_STYLES[node.type] : { open: '[', close: ']' };
+      return `${indent}${idOf(nodeId)}${open}${label}${close}`;
+    };
+
+    const lines = ['flowchart TD'];
+    let clusterIndex = 0;
+    for (const [sceneId, nodeIds] of graph.clusters) {
+      lines.push(`  subgraph scene${clusterIndex++}[${quote(sceneId)}]`);
+      lines.push(...nodeIds.map((nodeId) => renderNode(nodeId, '    ')));
+      lines.push('  end');
+    }
+    lines.push(...[...graph.unclustered, ...graph.missing].map((id) => renderNode(id, '  ')));
+
+    const highlighted: number[] = [];
+    for (const [index, edge] of graph.edges.entries()) {
+      const label = this.edgeLabel(edge);
+      const arrow = edge.kind === 'else' || edge.kind === 'timeout' ? '-.->' : '-->';
+      lines.push(
+        `  ${idOf(edge.from)} ${arrow}${label ? `|${quote(label)}|` : ''} ${idOf(edge.to)}`
+      );
+      if (graph.traversed.has(`${edge.from}\n${edge.to}`)) highlighted.push(index);
+    }
+
+    // Classes by node type (`end` is a keyword, hence the suffix), then history on top
+    for (const [type, { style }] of Object.entries(MERMAID_STYLES)) {
+      lines.push(`  classDef ${type}Node ${style}`);
+    }
+    lines.push('  classDef missing fill:#ffffff,stroke:#9e9e9e,stroke-dasharray:4');
+    lines.push(`  classDef visited stroke:${HIGHLIGHT_COLOR},stroke-width:2px`);
+    lines.push(`  classDef current stroke:${HIGHLIGHT_COLOR},stroke-width:4px`);
+
+    const classes = new Map<string, string[]>();
+    for (const nodeId of mermaidIds.keys()) {
+      const node = story.nodes[nodeId];
+      const names = [node ? `${node.type}Node` : 'missing'];
+      if (nodeId === graph.current) names.push('current');
+      else if (graph.visited.has(nodeId)) names.push('visited');
+      for (const name of names) {
+        classes.set(name, [...(classes.get(name) ?? []), idOf(nodeId)]);
+      }
+    }
+    for (const [name, ids] of classes) {
+      lines.push(`  class ${ids.join(',')} ${name}`);
+    }
+    if (highlighted.length > 0) {
+      lines.push(`  linkStyle ${highlighted.join(',')} stroke:${HIGHLIGHT_COLOR},stroke-width:2px`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Collect nodes, clusters and edges, and work out what the history touched
+   */
+  private static buildGraph(story: Story, options: StoryGraphOptions): StoryGraph {
+    const nodes = story.nodes || {};
+    const clusters = new Map<string, string[]>();
+    const unclustered: string[] = [];
+    const edges: StoryEdge[] = [];
+
+    for (const [nodeId, node] of Object.entries(nodes)) {
+      if (node.sceneId) {
+        clusters.set(node.sceneId, [...(clusters.get(node.sceneId) ?? []), nodeId]);
+      } else {
+        unclustered.push(nodeId);
+      }
+      edges.push(...StoryAnalyzer.getEdges(nodeId, node));
+    }
+
+    const missing = [...new Set(edges.map((edge) => edge.to).filter((target) => !nodes[target]))];
+
+    const history = options.history ?? [];
+    const traversed = new Set<string>();
+    for (let index = 1; index < history.length; index++) {
+      traversed.add(`${history[index - 1]}\n${history[index]}`);
+    }
+
+    return {
+      clusters,
+      unclustered,
+      missing,
+      edges,
+      visited: new Set(history),
+      traversed,
+      current: history[history.length - 1]
+    };
+  }
+
+  private static nodeLabel(
+    nodeId: string,
+    node: StoryNode | undefined,
+    options: StoryGraphOptions
+  ): string {
+    const maxLength = options.maxTextLength ?? 40;
+    const text = node?.text?.replace(/\s+/g, ' ').trim();
+    if (!text || maxLength <= 0) return nodeId;
+
+    const shown = text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+    return `${nodeId}\n${shown}`;
+  }
+
+  private static edgeLabel(edge: StoryEdge): string {
+    const condition = edge.condition ? `[${edge.condition}]` : '';
+    switch (edge.kind) {
+      case 'choice':
+      case 'random':
+        return [edge.label, condition].filter(Boolean).join('\n');
+      case 'else':
+        return 'else';
+      case 'timeout':
+        return 'timeout';
+      case 'call':
+        return 'call';
+      default:
+        return condition;
+    }
+  }
+}
@@ -0,0 +1,368 @@
+import { StoryInclude, StoryNode } from './StoryData';
+import { DiagnosticSeverity, StoryDiagnostic } from './StoryDiagnostic';
+import { SourceLocation, SourceMappedStory, StorySource } from './StorySource';
+
+/**
+ * Reads the text of a story file, e.g. via fetch or the file system
+ */
+export type StoryFileReader = (path: string) => Promise<string>;
+
+/**
+ * One loaded file and the namespace its node ids live in
+ */
+interface StoryFile {
+  source: StorySource;
+  data: any;
+  namespace: string; // '' for the root namespace
+}
+
+const NAMESPACE_PATTERN = /^[A-Za-z0-9_-]+(\/[A-Za-z0-9_-]+)*$/;
+const CHAPTER_KEYS = ['includes', 'assets', 'nodes'];
+
+/**
+ * Resolves `includes:` into a single story.
+ *
+ * Node references are resolved relative to the file they appear in: a bare
+ * id means the node in the same namespace if there is one, otherwise the
+ * closest enclosing namespace, up to the root. `chapter2/intro` is always
+ * that exact id and `/intro` always the root one. Node ids inside scripts,
+ * e.g. `visited('intro')`, are not rewritten and must be written in full.
+ */
+export class StoryIncludes {
+  /**
+   * Load a story file and everything it includes, merged into one story
+   * @param entry Path of the main story file
+   * @param readFile Reads a file's text by path
+   */
+  public static async resolve(
+    entry: string,
+    readFile: StoryFileReader
+  ): Promise<SourceMappedStory> {
+    const files: StoryFile[] = [];
+    const diagnostics: StoryDiagnostic[] = [];
+    const report = (
+      severity: DiagnosticSeverity,
+      code: string,
+      message: string,
+      source: StorySource | undefined,
+      path: Array<string | number>,
+      file?: string
+    ): void => {
+      diagnostics.push({ severity, code, message, file, path, ...source?.locate(path) });
+    };
+
+    const load = async (
+      path: string,
+      namespace: string,
+      stack: string[],
+      includedFrom?: { source: StorySource; path: Array<string | number> }
+    ): Promise<void> => {
+      const at = includedFrom ?? { source: undefined, path: [] };
+
+      if (stack.includes(path)) {
+        report(
+          'error',
+          'include-cycle',
+          `Include cycle: ${[...stack, path].join(' -> ')}`,
+          at.source,
+          at.path,
+          path
+        );
+        return;
+      }
+      if (files.some((file) => file.source.file === path)) {
+        report('warning', 'duplicate-include', `'${path}' is already included`, at.source, at.path);
+        return;
+      }
+
+      let text: string;
+      try {
+        text = await readFile(path);
+      } catch (error) {
+        report(
+          'error',
+          'missing-include',
+          `Cannot read '${path}': ${(error as Error).message ?? error}`,
+          at.source,
+          at.path,
+          path
+        );
+        return;
+      }
+
+      const source = new StorySource(text, path);
+      const syntaxErrors = source.getSyntaxDiagnostics();
+      if (syntaxErrors.length > 0) {
+        diagnostics.push(...syntaxErrors);
+        return;
+      }
+
+      const data = source.toJS();
+      if (!this.isMap(data)) {
+        report('error', 'invalid-story', `'${path}' must be a map`, source, []);
+        return;
+      }
+
+      const file: StoryFile = { source, data, namespace };
+      files.push(file);
+
+      if (includedFrom) {
+        for (const key of Object.keys(data)) {
+          if (!CHAPTER_KEYS.includes(key)) {
+            report(
+              'warning',
+              'unknown-property',
+              `Included files only contribute ${CHAPTER_KEYS.join(', ')}; '${key}' is ignored`,
+              source,
+              [key]
+            );
+          }
+        }
+      }
+
+      if (data.includes === undefined) return;
+      if (!Array.isArray(data.includes)) {
+        report('error', 'invalid-include', 'includes must be a list', source, ['includes']);
+        return;
+      }
+
+      for (const [index, entry] of (data.includes as unknown[]).entries()) {
+        const include = (typeof entry === 'string' ? { file: entry } : entry) as StoryInclude;
+        if (!include || typeof include !== 'object' || typeof include.file !== 'string') {
+          report(
+            'error',
+            'invalid-include',
+            `Include ${index} must be a file path or { file, namespace }`,
+            source,
+            ['includes', index]
+          );
+          continue;
+        }
+        if (include.namespace !== undefined && !NAMESPACE_PATTERN.test(include.namespace)) {
+          report(
+            'error',
+            'invalid-include',
+            `Invalid namespace '${include.namespace}': use letters, digits, '_' and '-', separated by '/'`,
+            source,
+            ['includes', index, 'namespace']
+          );
+          continue;
+        }
+
+        await load(
+          this.resolvePath(path, include.file),
+          include.namespace ? this.qualify(namespace, include.namespace) : namespace,
+          [...stack, path],
+          { source, path: ['includes', index] }
+        );
+      }
+    };
+
+    await load(entry, '', []);
+
+    const [root] = files;
+    if (!root) {
+      return { story: null, diagnostics, locate: () => undefined };
+    }
+
+    const where = (source: StorySource, path: Array<string | number>): string =>
+      StorySource.formatLocation(source.locate(path), source.file);
+
+    // Give every node its final id, reporting ids defined twice
+    const nodeSources = new Map<string, { file: StoryFile; localId: string }>();
+    for (const file of files) {
+      const nodes = file.data.nodes;
+      if (!this.isMap(nodes)) {
+        // The root's nodes are checked by schema validation
+        if (nodes !== undefined && file !== root) {
+          report('error', 'invalid-value', 'nodes must be a map', file.source, ['nodes']);
+        }
+        continue;
+      }
+
+      for (const localId of Object.keys(nodes)) {
+        const nodeId = this.qualify(file.namespace, localId);
+        const existing = nodeSources.get(nodeId);
+        if (existing) {
+          const first = where(existing.file.source, ['nodes', existing.localId]);
+          const second = where(file.source, ['nodes', localId]);
+          report(
+            'error',
+            'duplicate-node',
+            `Node '${nodeId}' is defined in both ${first} and ${second}`,
+            file.source,
+            ['nodes', localId]
+          );
+          continue;
+        }
+        nodeSources.set(nodeId, { file, localId });
+      }
+    }
+
+    // Merge assets, reporting ids defined twice
+    const assets: Record<string, any> = {};
+    const assetSources = new Map<string, StoryFile>();
+    for (const file of files) {
+      if (!this.isMap(file.data.assets)) {
+        if (file.data.assets !== undefined && file !== root) {
+          report('error', 'invalid-value', 'assets must be a map', file.source, ['assets']);
+        }
+        continue;
+      }
+
+      for (const [category, entries] of Object.entries(file.data.assets)) {
+        if (!this.isMap(entries)) {
+          if (file === root) {
+            assets[category] = entries;
+          } else {
+            const path = ['assets', category];
+            report('error', 'invalid-value', `assets.${category} must be a map`, file.source, path);
+          }
+          continue;
+        }
+
+        assets[category] = assets[category] ?? {};
+        for (const [assetId, asset] of Object.entries(entries)) {
+          const path = ['assets', category, assetId];
+          const existing = assetSources.get(`${category}/${assetId}`);
+          if (existing) {
+            const first = where(existing.source, path);
+            const second = where(file.source, path);
+            report(
+              'error',
+              'duplicate-asset',
+              `Asset '${category}.${assetId}' is defined in both ${first} and ${second}`,
+              file.source,
+              path
+            );
+            continue;
+          }
+          assetSources.set(`${category}/${assetId}`, file);
+          assets[category][assetId] = asset;
+        }
+      }
+    }
+
+    const nodeIds = new Set(nodeSources.keys());
+    const story: Record<string, any> = { ...root.data };
+    delete story.includes;
+    if (Object.keys(assets).length > 0) story.assets = assets;
+    if (typeof story.startNode === 'string') {
+      story.startNode = this.resolveTarget(story.startNode, root.namespace, nodeIds);
+    }
+    if (nodeSources.size > 0 || this.isMap(root.data.nodes)) {
+      story.nodes = {};
+      for (const [nodeId, { file, localId }] of nodeSources) {
+        story.nodes[nodeId] = this.rewriteNode(
+          file.data.nodes[localId],
+          nodeId,
+          localId,
+          file.namespace,
+          (target) => this.resolveTarget(target, file.namespace, nodeIds)
+        );
+      }
+    }
+
+    const locate = (path: Array<string | number>, offset?: number): SourceLocation | undefined => {
+      if (path[0] === 'nodes' && path.length > 1) {
+        const origin = nodeSources.get(String(path[1]));
+        if (origin) {
+          return origin.file.source.locate(['nodes', origin.localId, ...path.slice(2)], offset);
+        }
+      }
+      if (path[0] === 'assets' && path.length > 2) {
+        const file = assetSources.get(`${path[1]}/${path[2]}`);
+        if (file) return file.source.locate(path, offset);
+      }
+      return root.source.locate(path, offset);
+    };
+
+    return { story, diagnostics, locate };
+  }
+
+  /**
+   * Resolve a path relative to the file it appears in
+   * @param from Path of the including file
+   * @param target Path as written in the include
+   */
+  public static resolvePath(from: string, target: string): string {
+    if (target.startsWith('/') || /^[a-z][a-z0-9+.-]*:/i.test(target)) return target;
+
+    const segments = from.split('/').slice(0, -1);
+    for (const segment of target.split('/')) {
+      if (segment === '..' && segments.length > 0 && segments[segments.length - 1] !== '..') {
+        segments.pop();
+      } else if (segment !== '.' && segment !== '') {
+        segments.push(segment);
+      }
+    }
+    return segments.join('/');
+  }
+
+  /**
+   * Resolve a node reference written in a file with the given namespace
+   * @param target The reference as written
+   * @param namespace Namespace of the file it appears in
+   * @param nodeIds Every final node id
+   */
+  private static resolveTarget(target: string, namespace: string, nodeIds: Set<string>): string {
+    if (target.startsWith('/')) return target.slice(1);
+    if (target.includes('/')) return target;
+
+    // Look in the file's own namespace first, then each enclosing one
+    let scope = namespace;
+    while (scope) {
+      const candidate = this.qualify(scope, target);
+      if (nodeIds.has(candidate)) return candidate;
+      scope = scope.includes('/') ? scope.slice(0, scope.lastIndexOf('/')) : '';
+    }
+    return target;
+  }
+
+  /**
+   * Copy a node, rewriting its id, former ids and every node reference
+   */
+  private static rewriteNode(
+    node: StoryNode,
+    nodeId: string,
+    localId: string,
+    namespace: string,
+    resolve: (target: string) => string
+  ): StoryNode {
+    if (!node || typeof node !== 'object') return node;
+
+    const copy: StoryNode = { ...node };
+    const rewrite = <T extends { nextNode?: unknown }>(item: T): T =>
+      item && typeof item === 'object' && typeof item.nextNode === 'string'
+        ? { ...item, nextNode: resolve(item.nextNode) }
+        : item;
+
+    if (node.id === localId) copy.id = nodeId;
+    if (Array.isArray(node.renamedFrom)) {
+      // Former ids lived in the node's own namespace unless written in full
+      copy.renamedFrom = node.renamedFrom.map((formerId) => {
+        if (typeof formerId !== 'string') return formerId; // Reported by the schema
+        if (formerId.startsWith('/')) return formerId.slice(1);
+        return formerId.includes('/') ? formerId : this.qualify(namespace, formerId);
+      });
+    }
+    if (typeof node.nextNode === 'string') copy.nextNode = resolve(node.nextNode);
+    if (typeof node.else === 'string') copy.else = resolve(node.else);
+    if (typeof node.elseNode === 'string') copy.elseNode = resolve(node.elseNode);
+    if (Array.isArray(node.choices)) copy.choices = node.choices.map(rewrite);
+    if (Array.isArray(node.cases)) copy.cases = node.cases.map(rewrite);
+    if (Array.isArray(node.outcomes)) copy.outcomes = node.outcomes.map(rewrite);
+    if (typeof node.target === 'string') copy.target = resolve(node.target);
+    if (node.timer && typeof node.timer === 'object') copy.timer = rewrite(node.timer);
+
+    return copy;
+  }
+
+  private static isMap(value: unknown): value is Record<string, any> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  private static qualify(namespace: string, id: string): string {
+    return namespace ? `${namespace}/${id}` : id;
+  }
+}
@@ -0,0 +1,170 @@
+import YAML from 'yaml';
+import { Story } from './StoryData';
+
+/**
+ * Translated strings for one locale, by key:
+ *
+ * - `title`: the story title
+ * - `nodes.<nodeId>.text`: the text of a node
+ * - `nodes.<nodeId>.choices.<choiceId>`: the text of a choice
+ * - `characters.<characterId>.displayName`: a character's display name
+ */
+export interface StringTable {
+  locale: string;
+  strings: Record<string, string>;
+}
+
+/**
+ * Looks up story text in per-locale string tables. Text missing from the
+ * current locale falls back to the default locale's table, then to the text
+ * written in the story; each missing key is reported once.
+ */
+export class StoryLocalizer {
+  private tables = new Map<string, Record<string, string>>();
+  private defaultLocale: string;
+  private locale: string;
+  private reported = new Set<string>();
+
+  constructor(defaultLocale: string = 'en') {
+    this.defaultLocale = defaultLocale;
+    this.locale = defaultLocale;
+  }
+
+  /**
+   * Parse a YAML or JSON string table. Keys may be nested maps or dotted:
+   *
+   * ```yaml
+   * locale: fr
+   * nodes:
+   *   intro:
+   *     text: Bienvenue, {playerName} !
+   *   path_choice:
+   *     choices:
+   *       look_around: Regarder autour
+   * characters:
+   *   guide:
+   *     displayName: Le Guide
+   * ```
+   * @param text The YAML or JSON source
+   * @throws Error if the table is malformed
+   */
+  public static parseTable(text: string): StringTable {
+    const data = YAML.parse(text);
+    if (!data || typeof data !== 'object' || typeof data.locale !== 'string') {
+      throw new Error('A string table needs a locale');
+    }
+
+    const { locale, ...rest } = data;
+    const strings: Record<string, string> = {};
+    const errors: string[] = [];
+    const flatten = (value: unknown, key: string): void => {
+      if (typeof value === 'string') {
+        strings[key] = value;
+      } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+        for (const [child, childValue] of Object.entries(value)) {
+          flatten(childValue, key ? `${key}.${child}` : child);
+        }
+      } else {
+        errors.push(`'${key}' must be a string`);
+      }
+    };
+    flatten(rest, '');
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid string table for '${locale}':\n${errors.join('\n')}`);
+    }
+
+    return { locale, strings };
+  }
+
+  /**
+   * Collect the translatable text written in a story, e.g. as the source
+   * table for translators
+   * @param story The story data
+   */
+  public static extractTable(story: Story): StringTable {
+    const strings: Record<string, string> = { title: story.title };
+
+    for (const [nodeId, node] of Object.entries(story.nodes)) {
+      if (node.text) strings[`nodes.${nodeId}.text`] = node.text;
+      for (const choice of node.choices ?? []) {
+        strings[`nodes.${nodeId}.choices.${choice.id}`] = choice.text;
+      }
+    }
+    for (const [characterId, character] of Object.entries(story.assets?.characters ?? {})) {
+      strings[`characters.${characterId}.displayName`] = character.displayName ?? character.name;
+    }
+
+    return { locale: story.locale ?? 'en', strings };
+  }
+
+  /**
+   * Add a table, merging with any table already added for its locale
+   * @param table The string table
+   */
+  public addTable(table: StringTable): void {
+    this.tables.set(table.locale, { ...this.tables.get(table.locale), ...table.strings });
+  }
+
+  /**
+   * Set the locale of the text written in the story
+   * @param locale The locale, e.g. 'en'
+   */
+  public setDefaultLocale(locale: string): void {
+    this.defaultLocale = locale;
+  }
+
+  public getDefaultLocale(): string {
+    return this.defaultLocale;
+  }
+
+  /**
+   * Set the locale to look text up in
+   * @param locale The locale, e.g. 'fr'
+   */
+  public setLocale(locale: string): void {
+    this.locale = locale;
+  }
+
+  public getLocale(): string {
+    return this.locale;
+  }
+
+  /**
+   * Get every locale with text: the default locale and those with a table
+   */
+  public getLocales(): string[] {
+    return [...new Set([this.defaultLocale, ...this.tables.keys()])];
+  }
+
+  /**
+   * Look up a string in the current locale
+   * @param key The string key
+   * @param fallback The text written in the story
+   */
+  public translate(key: string, fallback: string): string {
+    const translated = this.tables.get(this.locale)?.[key];
+    if (translated !== undefined) return translated;
+
+    if (this.locale !== this.defaultLocale && !this.reported.has(`${this.locale}:${key}`)) {
+      this.reported.add(`${this.locale}:${key}`);
+      console.warn(`Missing '${this.locale}' translation for '${key}'`);
+    }
+
+    return this.tables.get(this.defaultLocale)?.[key] ?? fallback;
+  }
+
+  /**
+   * List the keys of a story that a locale has no translation for
+   * @param story The story data
+   * @param locale The locale to check (default: the current locale)
+   */
+  public findMissingKeys(story: Story, locale: string = this.locale): string[] {
+    if (locale === this.defaultLocale) return [];
+
+    const table = this.tables.get(locale) ?? {};
+    return Object.keys(StoryLocalizer.extractTable(story).strings).filter(
+      (key) => table[key] === undefined
+    );
+  }
+}
@@ -0,0 +1,162 @@
+import { RandomState } from '../random/SeededRandom';
+import { Story } from './StoryData';
+import { CallFrame, TriggerStatus } from './StoryRuntime';
+
+/**
+ * Where a playthrough stood when it was saved
+ */
+export interface StoryProgress {
+  currentNodeId: string;
+  visitedNodes: string[];
+  completedBranches: string[];
+  choiceUses?: Record<string, Record<string, number>>; // Times each choice was taken, by node
+  callStack?: CallFrame[]; // Sub-flows entered and not yet returned from
+  random?: RandomState; // Seed and cursor, so random nodes replay after loading
+  triggers?: Record<string, TriggerStatus>; // By trigger ID, so one-shot triggers stay spent
+  gameState?: Record<string, any>; // The story's state: variables, call params, script keys
+  storyVersion?: string; // Story.version the save was made with
+}
+
+/**
+ * What a migration hook gets to bring an old save up to date. `progress`
+ * and `state` are copies and may be changed in place.
+ */
+export interface MigrationContext {
+  progress: StoryProgress;
+  state: Record<string, any>;
+  fromVersion?: string; // The version the save was made with, if it recorded one
+  renameNode(from: string, to: string): void;
+  renameState(from: string, to: string): void;
+  report(message: string): void; // Describe a change made by hand
+}
+
+/**
+ * Upgrades saves made before the story version it is registered for
+ */
+export type MigrationHook = (context: MigrationContext) => void;
+
+export interface MigrationResult {
+  progress: StoryProgress; // With the migrated state as its gameState
+  state: Record<string, any>;
+  changes: string[]; // What was changed, for the player or the log
+}
+
+/**
+ * Brings saved progress in line with the story as it is now.
+ *
+ * Hooks run first, in version order: each one registered for a version after
+ * the save's and up to the story's own. Saves that recorded no version run
+ * every hook up to the story's. Node ids that no longer exist are then
+ * mapped through the nodes' `renamedFrom` lists.
+ */
+export class StoryMigration {
+  /**
+   * Migrate saved progress and state to a story
+   * @param story The story being played now
+   * @param progress The saved progress
+   * @param state The saved game state
+   * @param hooks Migration hooks by the story version they upgrade to
+   */
+  public static migrate(
+    story: Story,
+    progress: StoryProgress,
+    state: Record<string, any>,
+    hooks: Record<string, MigrationHook> = {}
+  ): MigrationResult {
+    const result: MigrationResult = {
+      progress: JSON.parse(JSON.stringify(progress)),
+      state: JSON.parse(JSON.stringify(state)),
+      changes: []
+    };
+    const fromVersion = progress.storyVersion;
+
+    const context: MigrationContext = {
+      progress: result.progress,
+      state: result.state,
+      fromVersion,
+      renameNode: (from, to) => {
+        if (this.renameNode(result.progress, from, to)) {
+          result.changes.push(`Node '${from}' is now '${to}'`);
+        }
+      },
+      renameState: (from, to) => {
+        if (!(from in result.state)) return;
+        result.state[to] = result.state[from];
+        delete result.state[from];
+        result.changes.push(`State '${from}' is now '${to}'`);
+      },
+      report: (message) => result.changes.push(message)
+    };
+
+    const versions = Object.keys(hooks)
+      .filter(
+        (version) =>
+          (fromVersion === undefined || this.compareVersions(version, fromVersion) > 0) &&
+          (story.version === undefined || this.compareVersions(version, story.version) <= 0)
+      )
+      .sort((a, b) => this.compareVersions(a, b));
+    for (const version of versions) {
+      hooks[version](context);
+    }
+
+    // Follow renames declared in the story
+    const renames = new Map<string, string>();
+    for (const [nodeId, node] of Object.entries(story.nodes)) {
+      for (const formerId of node.renamedFrom ?? []) renames.set(formerId, nodeId);
+    }
+    const savedIds = [
+      result.progress.currentNodeId,
+      ...result.progress.visitedNodes,
+      ...Object.keys(result.progress.choiceUses ?? {}),
+      ...(result.progress.callStack ?? []).flatMap((frame) => [frame.callerId, frame.returnTo])
+    ];
+    for (const nodeId of new Set(savedIds)) {
+      const renamedTo = renames.get(nodeId);
+      if (renamedTo && !story.nodes[nodeId]) context.renameNode(nodeId, renamedTo);
+    }
+
+    const { currentNodeId } = result.progress;
+    if (currentNodeId && !story.nodes[currentNodeId]) {
+      result.changes.push(`Saved node '${currentNodeId}' no longer exists`);
+    }
+
+    result.progress.gameState = result.state;
+    result.progress.storyVersion = story.version;
+    return result;
+  }
+
+  /**
+   * Order version strings, comparing runs of digits as numbers (1.10 > 1.9)
+   */
+  public static compareVersions(a: string, b: string): number {
+    return a.localeCompare(b, undefined, { numeric: true });
+  }
+
+  /**
+   * Replace a node id everywhere in saved progress
+   * @returns Whether the id was found
+   */
+  private static renameNode(progress: StoryProgress, from: string, to: string): boolean {
+    const rename = (nodeId: string): string => (nodeId === from ? to : nodeId);
+    const frames = progress.callStack ?? [];
+    const found =
+      progress.currentNodeId === from ||
+      progress.visitedNodes.includes(from) ||
+      !!progress.choiceUses?.[from] ||
+      frames.some((frame) => frame.callerId === from || frame.returnTo === from);
+
+    progress.currentNodeId = rename(progress.currentNodeId);
+    progress.visitedNodes = progress.visitedNodes.map(rename);
+    progress.completedBranches = progress.completedBranches.map(rename);
+    if (progress.choiceUses?.[from]) {
+      progress.choiceUses[to] = { ...progress.choiceUses[to], ...progress.choiceUses[from] };
+      delete progress.choiceUses[from];
+    }
+    for (const frame of frames) {
+      frame.callerId = rename(frame.callerId);
+      frame.returnTo = rename(frame.returnTo);
+    }
+
+    return found;
+  }
+}
@@ -1,12 +1,37 @@
 import { EventEmitter } from '../events/EventEmitter';
-import { StoryNode as IStoryNode, NodeMetadata, StoryChoice } from './StoryData';
+import { StateChangeValue } from '../state/StateChanges';
+import { ScriptCache } from '../script/ScriptCache';
+import { CompiledCondition, CompiledScript } from '../script/ScriptCompiler';
+import {
+  BranchCase,
+  ChoiceTimer,
+  StoryNode as IStoryNode,
+  NodeMetadata,
+  RandomOutcome,
+  StoryChoice
+} from './StoryData';
+
+/**
+ * The outcome of evaluating a branch node
+ */
+export interface BranchResult {
+  nextNode: string;
+  caseIndex: number | null; // null when the else target was taken
+  condition?: string;
+}
 
 export class StoryNode extends EventEmitter {
   private data: IStoryNode;
+  private scripts: ScriptCache;
 
-  constructor(nodeData: IStoryNode) {
+  /**
+   * @param nodeData The node as written in the story
+   * @param scripts Compiled scripts shared with the parser (default: the node's own)
+   */
+  constructor(nodeData: IStoryNode, scripts: ScriptCache = new ScriptCache()) {
     super();
     this.data = nodeData;
+    this.scripts = scripts;
   }
 
   public setMetadata(metadata: NodeMetadata): void {
@@ -96,6 +121,34 @@ export class StoryNode extends EventEmitter {
     return this.data.choices || [];
   }
 
+  /**
+   * Get the first node of the sub-flow a call node runs
+   */
+  public getTarget(): string | undefined {
+    return this.data.target;
+  }
+
+  /**
+   * Get the state keys a call node sets for its sub-flow
+   */
+  public getParams(): Record<string, any> {
+    return this.data.params || {};
+  }
+
+  /**
+   * Get the weighted targets of a random node
+   */
+  public getOutcomes(): RandomOutcome[] {
+    return this.data.outcomes || [];
+  }
+
+  /**
+   * Get the time limit on the choices, if any
+   */
+  public getTimer(): ChoiceTimer | undefined {
+    return this.data.timer;
+  }
+
   /**
    * Get the next node ID
    */
@@ -132,40 +185,102 @@ export class StoryNode extends EventEmitter {
   /**
    * Get state changes to apply when entering this node
    */
-  public getStateChanges(): Record<string, any> | undefined {
+  public getStateChanges(): Record<string, StateChangeValue> | undefined {
     return this.data.stateChanges;
   }
 
   /**
    * Evaluate if this node's condition is met based on the game state
    * @param gameState Current game state
+   * @param visitedNodes Node history, used by the visited() helper
    */
-  public evaluateCondition(gameState: Record<string, any>): boolean {
+  public evaluateCondition(gameState: Record<string, any>, visitedNodes: string[] = []): boolean {
     if (!this.data.condition) return true;
 
-    // Simple condition evaluation for demonstration
-    // In a real implementation, you might want to use a proper expression evaluator
     try {
-      // Using Function constructor to evaluate the condition against the gameState
-      // This is a simple approach but has security implications in a real app
-      const conditionFn = new Function('state', `return ${this.data.condition};`);
-      return conditionFn(gameState);
+      return this.getCondition(this.data.condition, 'condition').evaluate({
+        state: gameState,
+        visitedNodes
+      });
     } catch (error) {
       console.error(`Error evaluating condition for node ${this.data.id}:`, error);
       return false;
     }
   }
 
+  /**
+   * Get the ordered cases of a branch node, expanding the single-condition shorthand
+   */
+  public getBranchCases(): BranchCase[] {
+    if (this.data.cases) return this.data.cases;
+    if (this.data.type === 'branch' && this.data.condition && this.data.nextNode) {
+      return [{ condition: this.data.condition, nextNode: this.data.nextNode }];
+    }
+    return [];
+  }
+
+  /**
+   * Get the fallback target of a branch node
+   */
+  public getElseNodeId(): string | undefined {
+    return this.data.else ?? this.data.elseNode;
+  }
+
+  /**
+   * Pick the target of a branch node: the first case whose condition holds,
+   * otherwise the else target
+   * @param gameState Current game state
+   * @param visitedNodes Node history, used by the visited() helper
+   * @returns The branch taken, or null if nothing matched and there is no else
+   */
+  public resolveBranch(
+    gameState: Record<string, any>,
+    visitedNodes: string[] = []
+  ): BranchResult | null {
+    const cases = this.getBranchCases();
+
+    for (const [index, branchCase] of cases.entries()) {
+      const field = this.data.cases ? `case ${index} condition` : 'condition';
+      try {
+        const matched = this.getCondition(branchCase.condition, field).evaluate({
+          state: gameState,
+          visitedNodes
+        });
+        if (matched) {
+          return {
+            nextNode: branchCase.nextNode,
+            caseIndex: index,
+            condition: branchCase.condition
+          };
+        }
+      } catch (error) {
+        console.error(`Error evaluating ${field} for node ${this.data.id}:`, error);
+      }
+    }
+
+    const elseNodeId = this.getElseNodeId();
+    return elseNodeId ? { nextNode: elseNodeId, caseIndex: null } : null;
+  }
+
   /**
    * Execute the onEnter script if present
    * @param gameState Current game state
+   * @param visitedNodes Node history, used by the visited() helper
+   * @param random Source for the random() helper, so rolls follow the story seed
    */
-  public executeOnEnter(gameState: Record<string, any>): void {
+  public executeOnEnter(
+    gameState: Record<string, any>,
+    visitedNodes: string[] = [],
+    random?: () => number
+  ): void {
     if (!this.data.onEnter) return;
 
     try {
-      const scriptFn = new Function('state', this.data.onEnter);
-      scriptFn(gameState);
+      this.getScript(this.data.onEnter, 'onEnter').execute({
+        state: gameState,
+        visitedNodes,
+        random
+      });
     } catch (error) {
       console.error(`Error executing onEnter script for node ${this.data.id}:`, error);
     }
@@ -174,31 +289,84 @@ export class StoryNode extends EventEmitter {
   /**
    * Execute the onExit script if present
    * @param gameState Current game state
+   * @param visitedNodes Node history, used by the visited() helper
+   * @param random Source for the random() helper, so rolls follow the story seed
    */
-  public executeOnExit(gameState: Record<string, any>): void {
+  public executeOnExit(
+    gameState: Record<string, any>,
+    visitedNodes: string[] = [],
+    random?: () => number
+  ): void {
     if (!this.data.onExit) return;
 
     try {
-      const scriptFn = new Function('state', this.data.onExit);
-      scriptFn(gameState);
+      this.getScript(this.data.onExit, 'onExit').execute({
+        state: gameState,
+        visitedNodes,
+        random
+      });
     } catch (error) {
       console.error(`Error executing onExit script for node ${this.data.id}:`, error);
     }
   }
 
   /**
-   * Filter available choices based on conditions
+   * Filter available choices based on conditions and how often they were taken
    * @param gameState Current game state
+   * @param visitedNodes Node history, used by the visited() helper
+   * @param uses How often each choice of this node was taken, by choice ID
+   */
+  public getAvailableChoices(
+    gameState: Record<string, any>,
+    visitedNodes: string[] = [],
+    uses: Record<string, number> = {}
+  ): StoryChoice[] {
+    return this.getOfferedChoices(gameState, visitedNodes).filter(
+      (choice) => !StoryNode.isExhausted(choice, uses[choice.id] ?? 0)
+    );
+  }
+
+  /**
+   * Get the choices to show: the available ones, plus used-up ones that show
+   * disabled
+   * @param gameState Current game state
+   * @param visitedNodes Node history, used by the visited() helper
+   * @param uses How often each choice of this node was taken, by choice ID
+   */
+  public getShownChoices(
+    gameState: Record<string, any>,
+    visitedNodes: string[] = [],
+    uses: Record<string, number> = {}
+  ): Array<{ choice: StoryChoice; disabled: boolean }> {
+    return this.getOfferedChoices(gameState, visitedNodes)
+      .map((choice) => ({ choice, disabled: StoryNode.isExhausted(choice, uses[choice.id] ?? 0) }))
+      .filter(({ choice, disabled }) => !disabled || choice.exhausted === 'disable');
+  }
+
+  /**
+   * Check whether a choice has been taken as often as it may be
+   * @param choice The choice
+   * @param count How often it was taken
+   */
+  public static isExhausted(choice: StoryChoice, count: number): boolean {
+    if (choice.uses === undefined || choice.uses === 'sticky') return false;
+    return count >= (choice.uses === 'once' ? 1 : choice.uses);
+  }
+
+  /**
+   * Get the choices whose condition holds
    */
-  public getAvailableChoices(gameState: Record<string, any>): StoryChoice[] {
+  private getOfferedChoices(gameState: Record<string, any>, visitedNodes: string[]): StoryChoice[] {
     if (!this.data.choices) return [];
 
     return this.data.choices.filter((choice) => {
       if (!choice.condition) return true;
 
       try {
-        const conditionFn = new Function('state', `return ${choice.condition};`);
-        return conditionFn(gameState);
+        return this.getCondition(choice.condition, `choice '${choice.id}' condition`).evaluate({
+          state: gameState,
+          visitedNodes
+        });
       } catch (error) {
         console.error(`Error evaluating condition for choice in node ${this.data.id}:`, error);
         return false;
@@ -206,6 +374,20 @@ export class StoryNode extends EventEmitter {
     });
   }
 
+  /**
+   * Get a compiled condition, compiling it on first use
+   */
+  private getCondition(source: string, field: string): CompiledCondition {
+    return this.scripts.condition(source, { nodeId: this.data.id, field });
+  }
+
+  /**
+   * Get a compiled script, compiling it on first use
+   */
+  private getScript(source: string, field: string): CompiledScript {
+    return this.scripts.script(source, { nodeId: this.data.id, field });
+  }
+
   /**
    * Get the raw node data
    */
@@ -1,6 +1,54 @@
-import YAML from 'yaml';
 import { CharacterEmotion } from '../../game/characters/CharacterData';
-import { Story, StoryNode } from './StoryData';
+import { SchemaViolation } from '../schema/SchemaValidator';
+import { ScriptCache } from '../script/ScriptCache';
+import { ScriptError, ScriptOrigin } from '../script/ScriptError';
+import { ScriptVisitor } from '../script/ScriptVisitor';
+import { StateChanges, StateChangeValue } from '../state/StateChanges';
+import { ScreenplayCompiler } from './ScreenplayCompiler';
+import { StoryAnalyzer } from './StoryAnalyzer';
+import { Story, StoryNode, StoryTrigger } from './StoryData';
+import { DiagnosticSeverity, StoryDiagnostic } from './StoryDiagnostic';
+import { StoryFileReader, StoryIncludes } from './StoryIncludes';
+import { StorySchema } from './StorySchema';
+import { SourceLocator, StorySource } from './StorySource';
+import { StoryVariables } from './StoryVariables';
+import { TextInterpolator } from './TextInterpolator';
+import { TweeImporter } from './TweeImporter';
+
+/**
+ * A parsed story along with every error and warning found while loading it
+ */
+export interface ParseResult {
+  story: Story;
+  diagnostics: StoryDiagnostic[];
+  scripts: ScriptCache; // Every condition and script, compiled while validating
+}
+
+/**
+ * Thrown when a story has one or more errors. Carries every diagnostic, not
+ * just the first.
+ */
+export class StoryValidationError extends Error {
+  public readonly diagnostics: StoryDiagnostic[];
+
+  constructor(diagnostics: StoryDiagnostic[]) {
+    const errors = diagnostics.filter((diagnostic) => diagnostic.severity === 'error');
+    super(`Story has ${errors.length} error(s):\n${StoryAnalyzer.formatReport(errors)}`);
+    this.name = 'StoryValidationError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+/**
+ * Collects diagnostics for one parse, each tagged with the data path it refers to
+ */
+type Reporter = (
+  severity: DiagnosticSeverity,
+  code: string,
+  message: string,
+  path: Array<string | number>,
+  offset?: number
+) => void;
 
 export class StoryParser {
   /**
@@ -9,8 +57,7 @@ export class StoryParser {
    */
   public static parseFromJson(jsonData: string): Story {
     try {
-      const parsedData = JSON.parse(jsonData);
-      return this.validateStory(parsedData);
+      return this.parseJson(jsonData).story;
     } catch (error) {
       throw new Error(`Failed to parse story JSON: ${error}`);
     }
@@ -22,41 +69,522 @@ export class StoryParser {
    */
   public static parseFromYaml(yamlData: string): Story {
     try {
-      const parsedData = YAML.parse(yamlData);
-      const story = this.validateStory(parsedData);
-      return story;
+      return this.parseYaml(yamlData).story;
     } catch (error) {
       throw new Error(`Failed to parse story YAML: ${error}`);
     }
   }
 
+  /**
+   * Parse a JSON story and collect every diagnostic
+   * @param jsonData The JSON data to parse
+   * @throws StoryValidationError if the story has any errors
+   */
+  public static parseJson(jsonData: string): ParseResult {
+    let data: any;
+    try {
+      data = JSON.parse(jsonData);
+    } catch (error) {
+      throw new StoryValidationError([
+        { severity: 'error', code: 'syntax', message: (error as Error).message }
+      ]);
+    }
+
+    // JSON is valid YAML, so the YAML document gives us source positions
+    const source = new StorySource(jsonData);
+    return this.buildResult(data, (path, offset) => source.locate(path, offset));
+  }
+
+  /**
+   * Parse a YAML story and collect every diagnostic, with line and column
+   * @param yamlData The YAML data to parse
+   * @throws StoryValidationError if the story has any errors
+   */
+  public static parseYaml(yamlData: string): ParseResult {
+    const source = new StorySource(yamlData);
+    const syntaxErrors = source.getSyntaxDiagnostics();
+    if (syntaxErrors.length > 0) {
+      throw new StoryValidationError(syntaxErrors);
+    }
+
+    return this.buildResult(source.toJS(), (path, offset) => source.locate(path, offset));
+  }
+
+  /**
+   * Parse a story written in the screenplay format
+   * @param text The screenplay source
+   * @param file File name to attach to diagnostics
+   * @throws StoryValidationError if the screenplay has any errors
+   */
+  public static parseScreenplay(text: string, file?: string): ParseResult {
+    const compiled = ScreenplayCompiler.compile(text, file);
+    if (compiled.diagnostics.length > 0) {
+      throw new StoryValidationError(compiled.diagnostics);
+    }
+
+    return this.buildResult(compiled.story, compiled.locate);
+  }
+
+  /**
+   * Import a Twine story written in Twee 3 (SugarCube). Anything the importer
+   * could not translate is reported as a warning.
+   * @param text The Twee source
+   * @param file File name to attach to diagnostics
+   * @throws StoryValidationError if the imported story has any errors
+   */
+  public static parseTwee(text: string, file?: string): ParseResult {
+    const imported = TweeImporter.import(text, file);
+    return this.buildResult(imported.story, imported.locate, imported.diagnostics);
+  }
+
+  /**
+   * Load a story file along with every file it includes. Diagnostics carry
+   * the file they were found in.
+   * @param entry Path of the main story file
+   * @param readFile Reads a file's text by path
+   * @throws StoryValidationError if any file is missing or the story has any errors
+   */
+  public static async parseFiles(entry: string, readFile: StoryFileReader): Promise<ParseResult> {
+    const resolved = await StoryIncludes.resolve(entry, readFile);
+
+    // Problems with the includes themselves make the merged story meaningless
+    if (resolved.diagnostics.some((diagnostic) => diagnostic.severity === 'error')) {
+      throw new StoryValidationError(resolved.diagnostics);
+    }
+
+    return this.buildResult(resolved.story, resolved.locate, resolved.diagnostics);
+  }
+
+  /**
+   * Validate already-parsed story data, e.g. built by a tool
+   * @param data The story data
+   * @throws StoryValidationError if the story has any errors
+   */
+  public static parseData(data: any): ParseResult {
+    return this.buildResult(data, () => undefined);
+  }
+
+  /**
+   * Validate already-parsed story data without throwing
+   * @param data The story data to validate
+   */
+  public static validate(data: any): StoryDiagnostic[] {
+    return this.collectDiagnostics(data);
+  }
+
+  /**
+   * Validate parsed data, attach source positions and throw if there are errors
+   */
+  private static buildResult(
+    data: any,
+    locate: SourceLocator,
+    diagnostics: StoryDiagnostic[] = []
+  ): ParseResult {
+    const scripts = new ScriptCache();
+    diagnostics = [...diagnostics, ...this.collectDiagnostics(data, locate, scripts)];
+
+    if (diagnostics.some((diagnostic) => diagnostic.severity === 'error')) {
+      throw new StoryValidationError(diagnostics);
+    }
+
+    return { story: data as Story, diagnostics, scripts };
+  }
+
+  /**
+   * Where a trigger's condition comes from, for error messages and the script cache
+   * @param triggerId The ID of the trigger
+   */
+  public static triggerOrigin(triggerId: string): ScriptOrigin {
+    return { field: `condition of trigger '${triggerId}'` };
+  }
+
+  /**
+   * Run structural validation and, when the structure is sound, graph analysis
+   */
+  private static collectDiagnostics(
+    data: any,
+    locate?: SourceLocator,
+    scripts: ScriptCache = new ScriptCache()
+  ): StoryDiagnostic[] {
+    const diagnostics: StoryDiagnostic[] = [];
+    const report: Reporter = (severity, code, message, path, offset) => {
+      const nodeId = path[0] === 'nodes' && path.length > 1 ? String(path[1]) : undefined;
+      diagnostics.push({ severity, code, message, nodeId, path, ...locate?.(path, offset) });
+    };
+
+    this.validateStory(data, report, scripts);
+
+    // Graph-level checks only make sense once every link is known to be valid
+    if (!diagnostics.some((diagnostic) => diagnostic.severity === 'error')) {
+      for (const diagnostic of StoryAnalyzer.analyze(data as Story, scripts)) {
+        const path = diagnostic.nodeId ? ['nodes', diagnostic.nodeId] : [];
+        diagnostics.push({ ...diagnostic, path, ...locate?.(path) });
+      }
+    }
+
+    return diagnostics;
+  }
+
   /**
    * Validate the story structure
    * @param data The story data to validate
+   * @param report Collects each problem found
+   * @param scripts Keeps the compiled conditions and scripts
    */
-  private static validateStory(data: any): Story {
-    // Check required fields
-    if (!data.id) throw new Error('Story must have an ID');
-    if (!data.title) throw new Error('Story must have a title');
-    if (!data.startNode) throw new Error('Story must have a startNode');
-    if (!data.nodes || Object.keys(data.nodes).length === 0) {
-      throw new Error('Story must have at least one node');
+  private static validateStory(data: any, report: Reporter, scripts: ScriptCache): void {
+    // Check the shape against the schema; node problems are reported with their node
+    const violations = StorySchema.validate(data);
+    const nodeViolations = new Map<string, SchemaViolation[]>();
+    for (const violation of violations) {
+      const { path } = violation;
+      if (path[0] === 'nodes' && path.length > 1) {
+        const nodeId = String(path[1]);
+        nodeViolations.set(nodeId, [...(nodeViolations.get(nodeId) || []), violation]);
+      } else {
+        this.reportViolation(violation, report);
+      }
     }
 
+    if (!data || typeof data !== 'object' || Array.isArray(data)) return;
+
+    if (data.includes !== undefined) {
+      report(
+        'error',
+        'unresolved-include',
+        'Stories with includes must be loaded from files so the includes can be read',
+        ['includes']
+      );
+    }
+
+    if (!data.nodes || typeof data.nodes !== 'object' || Array.isArray(data.nodes)) return;
+
     // Validate that startNode exists in nodes
-    if (!data.nodes[data.startNode]) {
-      throw new Error(`Start node '${data.startNode}' does not exist in story nodes`);
+    if (typeof data.startNode === 'string' && !data.nodes[data.startNode]) {
+      report(
+        'error',
+        'missing-node',
+        `Start node '${data.startNode}' does not exist in story nodes`,
+        ['startNode']
+      );
     }
 
     // Validate each node
     for (const [nodeId, node] of Object.entries(data.nodes)) {
-      this.validateNode(nodeId, node as StoryNode, data.nodes);
+      const violations = nodeViolations.get(nodeId) || [];
+      violations.forEach((violation) => this.reportViolation(violation, report));
+
+      // Fields of the wrong type would make the checks below misleading
+      if (violations.some((violation) => violation.keyword === 'type')) continue;
+      this.validateNode(nodeId, node as StoryNode, data.nodes, report, scripts);
+    }
+
+    if (Array.isArray(data.triggers)) {
+      this.validateTriggers(data.triggers, data.nodes, report, scripts);
+    }
+
+    if (data.variables && typeof data.variables === 'object' && !Array.isArray(data.variables)) {
+      this.validateVariables(data as Story, report, scripts);
+    }
+  }
+
+  /**
+   * Check that a choice timer says where time running out leads
+   * @param nodeId The ID of the choice node
+   * @param node The choice node, with a timer
+   * @param allNodes All nodes of the story
+   * @param report Collects each problem found
+   */
+  private static validateTimer(
+    nodeId: string,
+    node: StoryNode,
+    allNodes: Record<string, StoryNode>,
+    report: Reporter
+  ): void {
+    const timer = node.timer!;
+    const at = (...path: string[]): Array<string | number> => ['nodes', nodeId, 'timer', ...path];
+
+    if (!timer.defaultChoice && !timer.nextNode) {
+      report(
+        'error',
+        'missing-field',
+        `Timer of node '${nodeId}' needs a defaultChoice or a nextNode for when time runs out`,
+        at()
+      );
+    }
+    const defaultChoice = node.choices!.find((choice) => choice.id === timer.defaultChoice);
+    if (timer.defaultChoice && !defaultChoice) {
+      report(
+        'error',
+        'missing-choice',
+        `Timer defaultChoice '${timer.defaultChoice}' is not a choice of node '${nodeId}'`,
+        at('defaultChoice')
+      );
+    }
+    const mayBeUnavailable =
+      defaultChoice?.condition !== undefined ||
+      (defaultChoice?.uses !== undefined && defaultChoice.uses !== 'sticky');
+    if (mayBeUnavailable && !timer.nextNode) {
+      report(
+        'warning',
+        'unreliable-default',
+        `Timer defaultChoice '${timer.defaultChoice}' of node '${nodeId}' may be unavailable when time runs out; add a nextNode, or the first available choice is made`,
+        at('defaultChoice')
+      );
+    }
+    if (timer.nextNode && !allNodes[timer.nextNode]) {
+      report(
+        'error',
+        'missing-node',
+        `Timer nextNode '${timer.nextNode}' in node '${nodeId}' does not exist`,
+        at('nextNode')
+      );
+    }
+  }
+
+  /**
+   * Check that each trigger has a unique id, a condition that compiles and
+   * something to do when it fires
+   * @param triggers The story's triggers
+   * @param allNodes All nodes of the story
+   * @param report Collects each problem found
+   * @param scripts Keeps the compiled conditions
+   */
+  private static validateTriggers(
+    triggers: StoryTrigger[],
+    allNodes: Record<string, StoryNode>,
+    report: Reporter,
+    scripts: ScriptCache
+  ): void {
+    const seen = new Set<string>();
+
+    triggers.forEach((trigger, index) => {
+      if (!trigger || typeof trigger !== 'object' || typeof trigger.id !== 'string') return;
+      const at = (...path: string[]): Array<string | number> => ['triggers', index, ...path];
+
+      if (seen.has(trigger.id)) {
+        report('error', 'duplicate-trigger', `Duplicate trigger id '${trigger.id}'`, at('id'));
+      }
+      seen.add(trigger.id);
+
+      if (typeof trigger.condition === 'string') {
+        try {
+          scripts.condition(trigger.condition, this.triggerOrigin(trigger.id));
+        } catch (error) {
+          if (!(error instanceof ScriptError)) throw error;
+          report('error', 'invalid-script', error.message, at('condition'), error.offset);
+        }
+      }
+
+      if (trigger.nextNode === undefined && trigger.stateChanges === undefined) {
+        report(
+          'error',
+          'missing-field',
+          `Trigger '${trigger.id}' needs a nextNode or stateChanges`,
+          at()
+        );
+      }
+      if (typeof trigger.nextNode === 'string' && !allNodes[trigger.nextNode]) {
+        report(
+          'error',
+          'missing-node',
+          `Trigger nextNode '${trigger.nextNode}' in trigger '${trigger.id}' does not exist`,
+          at('nextNode')
+        );
+      }
+      if (trigger.returnAfter && trigger.nextNode === undefined) {
+        report(
+          'warning',
+          'ignored-field',
+          `Trigger '${trigger.id}' has returnAfter but no nextNode to return from`,
+          at('returnAfter')
+        );
+      }
+
+      const stateChanges = trigger.stateChanges;
+      if (stateChanges && typeof stateChanges === 'object' && !Array.isArray(stateChanges)) {
+        for (const [key, change] of Object.entries(stateChanges)) {
+          for (const message of StateChanges.validate({ [key]: change })) {
+            report(
+              'error',
+              'invalid-state-change',
+              `Invalid stateChanges in trigger '${trigger.id}': ${message}`,
+              at('stateChanges', key)
+            );
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Check that initialState, stateChanges, scripts, conditions and text only
+   * use declared variables, with values of the declared type
+   * @param story The story data, with variables declared
+   * @param report Collects each problem found
+   * @param scripts Compiled conditions and scripts to reuse
+   */
+  private static validateVariables(story: Story, report: Reporter, scripts: ScriptCache): void {
+    const variables = story.variables!;
+    const undeclared = (key: string, where: string, path: Array<string | number>): void =>
+      report(
+        'error',
+        'undeclared-variable',
+        `'${key}' is used in ${where} but is not a declared variable`,
+        path
+      );
+
+    (Array.isArray(story.triggers) ? story.triggers : []).forEach((trigger, index) => {
+      if (!trigger || typeof trigger !== 'object') return;
+      const owner = `trigger '${trigger.id}'`;
+
+      let reads = new Set<string>();
+      try {
+        reads = ScriptVisitor.collectStateAccess(
+          scripts.condition(trigger.condition, this.triggerOrigin(trigger.id)).ast
+        ).reads;
+      } catch {
+        // Conditions that do not compile are reported by validateTriggers
+      }
+      for (const key of reads) {
+        if (!variables[key]) {
+          undeclared(key, `the condition of ${owner}`, ['triggers', index, 'condition']);
+        }
+      }
+
+      for (const [key, change] of Object.entries(trigger.stateChanges ?? {})) {
+        const at = ['triggers', index, 'stateChanges', key];
+        if (!variables[key.split('.')[0]]) {
+          undeclared(key.split('.')[0], `the stateChanges of ${owner}`, at);
+          continue;
+        }
+        for (const message of StoryVariables.checkChange(key, change, variables)) {
+          report(
+            'error',
+            'invalid-variable-type',
+            `Invalid stateChanges in ${owner}: ${message}`,
+            at
+          );
+        }
+      }
+    });
+
+    for (const [name, variable] of Object.entries(variables)) {
+      if (!variable || typeof variable !== 'object') continue;
+      for (const message of StoryVariables.checkDeclaration(name, variable)) {
+        report('error', 'invalid-variable', message, ['variables', name]);
+      }
+    }
+
+    for (const [key, value] of Object.entries(story.initialState ?? {})) {
+      if (!variables[key]) {
+        undeclared(key, 'initialState', ['initialState', key]);
+        continue;
+      }
+      const message = StoryVariables.checkValue(key, variables[key], value);
+      if (message) {
+        report('error', 'invalid-variable-type', `Invalid initialState: ${message}`, [
+          'initialState',
+          key
+        ]);
+      }
     }
 
-    // Check for unreachable nodes (optional, can be resource-intensive for large stories)
-    // this.checkForUnreachableNodes(data);
+    for (const [nodeId, node] of Object.entries(story.nodes)) {
+      if (!node || typeof node !== 'object') continue;
 
-    return data as Story;
+      const changeSets = [
+        { owner: `node '${nodeId}'`, changes: node.stateChanges, path: ['stateChanges'] },
+        ...(Array.isArray(node.choices) ? node.choices : []).map((choice, index) => ({
+          owner: `choice '${choice.id}' in node '${nodeId}'`,
+          changes: choice.stateChanges,
+          path: ['choices', index, 'stateChanges']
+        }))
+      ];
+      for (const { owner, changes, path } of changeSets) {
+        if (!changes || typeof changes !== 'object') continue;
+        for (const [key, change] of Object.entries(changes)) {
+          const at = ['nodes', nodeId, ...path, key];
+          if (!variables[key.split('.')[0]]) {
+            undeclared(key.split('.')[0], `the stateChanges of ${owner}`, at);
+            continue;
+          }
+          for (const message of StoryVariables.checkChange(key, change, variables)) {
+            report(
+              'error',
+              'invalid-variable-type',
+              `Invalid stateChanges in ${owner}: ${message}`,
+              at
+            );
+          }
+        }
+      }
+
+      for (const [key, value] of Object.entries(node.params ?? {})) {
+        const at = ['nodes', nodeId, 'params', key];
+        if (!variables[key]) {
+          undeclared(key, `the params of node '${nodeId}'`, at);
+          continue;
+        }
+        const message = StoryVariables.checkValue(key, variables[key], value);
+        if (message) {
+          report(
+            'error',
+            'invalid-variable-type',
+            `Invalid params in node '${nodeId}': ${message}`,
+            at
+          );
+        }
+      }
+
+      // Sources that do not compile are reported by compileNodeScripts
+      for (const site of StoryAnalyzer.getStateAccess(nodeId, node, scripts)) {
+        const keys = new Set([...site.reads, ...site.writes]);
+        for (const key of keys) {
+          if (!variables[key]) {
+            undeclared(key, `the ${site.field} of node '${nodeId}'`, [
+              'nodes',
+              nodeId,
+              ...site.path
+            ]);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Turn a schema violation into a diagnostic. Unknown keys are only warnings
+   * so stories keep loading while they are cleaned up.
+   * @param violation The schema violation
+   * @param report Collects each problem found
+   */
+  private static reportViolation(violation: SchemaViolation, report: Reporter): void {
+    const { keyword, path } = violation;
+    const subject = path.length > 0 ? `'${path.join('.')}'` : 'Story';
+
+    switch (keyword) {
+      case 'additionalProperties':
+        report('warning', 'unknown-property', `Unknown property ${subject}`, path);
+        return;
+      case 'required':
+      case 'minItems':
+      case 'minProperties':
+        report('error', 'missing-field', `${subject} ${violation.message}`, path);
+        return;
+      case 'enum':
+        if (path.length === 3 && path[0] === 'nodes' && path[2] === 'type') {
+          report(
+            'error',
+            'unknown-node-type',
+            `Unknown node type in node '${path[1]}': ${violation.message}`,
+            path
+          );
+          return;
+        }
+        break;
+    }
+
+    report('error', 'invalid-value', `${subject} ${violation.message}`, path);
   }
 
   /**
@@ -64,73 +592,160 @@ export class StoryParser {
    * @param nodeId The ID of the node
    * @param node The node to validate
    * @param allNodes All nodes in the story
+   * @param report Collects each problem found
+   * @param scripts Keeps the compiled conditions and scripts
    */
   private static validateNode(
     nodeId: string,
     node: StoryNode,
-    allNodes: Record<string, StoryNode>
+    allNodes: Record<string, StoryNode>,
+    report: Reporter,
+    scripts: ScriptCache
   ): void {
-    // Check node type
-    if (!node.type) {
-      throw new Error(`Node '${nodeId}' must have a type`);
+    const at = (...path: Array<string | number>): Array<string | number> => [
+      'nodes',
+      nodeId,
+      ...path
+    ];
+    const error = (code: string, message: string, path: Array<string | number>): void =>
+      report('error', code, message, path);
+    const checkTarget = (target: string, message: string, path: Array<string | number>): void => {
+      if (!allNodes[target]) error('missing-node', message, path);
+    };
+
+    if (node.id !== undefined && node.id !== nodeId) {
+      report(
+        'warning',
+        'id-mismatch',
+        `Node '${nodeId}' declares a different id '${node.id}'`,
+        at('id')
+      );
+    }
+
+    // A former id must lead to exactly one node, and not to a node that still has it
+    const formerIds = (other?: StoryNode): string[] =>
+      Array.isArray(other?.renamedFrom) ? other.renamedFrom : [];
+    for (const [index, formerId] of formerIds(node).entries()) {
+      const claimedBy = Object.keys(allNodes).find((otherId) =>
+        formerIds(allNodes[otherId]).includes(formerId)
+      );
+      if (allNodes[formerId]) {
+        error(
+          'invalid-alias',
+          `Node '${nodeId}' was renamed from '${formerId}', but '${formerId}' is still a node`,
+          at('renamedFrom', index)
+        );
+      } else if (claimedBy !== nodeId) {
+        error(
+          'invalid-alias',
+          `Nodes '${claimedBy}' and '${nodeId}' were both renamed from '${formerId}'`,
+          at('renamedFrom', index)
+        );
+      }
     }
 
     // Validate based on node type
     switch (node.type) {
       case 'dialogue':
         if (!node.text) {
-          throw new Error(`Dialogue node '${nodeId}' must have text`);
+          error('missing-field', `Dialogue node '${nodeId}' must have text`, at());
         }
         if (!node.characterId) {
-          throw new Error(`Dialogue node '${nodeId}' must have a characterId`);
+          error('missing-field', `Dialogue node '${nodeId}' must have a characterId`, at());
         }
         break;
 
       case 'choice':
-        if (!node.choices || node.choices.length === 0) {
-          throw new Error(`Choice node '${nodeId}' must have at least one choice`);
+        if (!Array.isArray(node.choices) || node.choices.length === 0) {
+          error('missing-field', `Choice node '${nodeId}' must have at least one choice`, at());
+          break;
         }
 
-        for (const choice of node.choices) {
-          if (!choice.nextNode) {
-            throw new Error(`Choice in node '${nodeId}' must have a nextNode`);
-          }
-          if (!allNodes[choice.nextNode]) {
-            throw new Error(
-              `Choice nextNode '${choice.nextNode}' in node '${nodeId}' does not exist`
+        // Missing fields inside choices are reported by the schema
+        for (const [index, choice] of node.choices.entries()) {
+          if (choice.nextNode) {
+            checkTarget(
+              choice.nextNode,
+              `Choice nextNode '${choice.nextNode}' in node '${nodeId}' does not exist`,
+              at('choices', index, 'nextNode')
             );
           }
         }
+        if (node.timer) this.validateTimer(nodeId, node, allNodes, report);
         break;
 
-      case 'branch':
-        if (!node.condition) {
-          throw new Error(`Branch node '${nodeId}' must have a condition`);
+      case 'branch': {
+        const hasCases = Array.isArray(node.cases) && node.cases.length > 0;
+        if (node.cases !== undefined && !hasCases) {
+          error(
+            'missing-field',
+            `Branch node '${nodeId}' must have at least one case`,
+            at('cases')
+          );
         }
-        if (!node.nextNode) {
-          throw new Error(`Branch node '${nodeId}' must have a nextNode`);
+        if (hasCases && node.condition) {
+          error(
+            'invalid-branch',
+            `Branch node '${nodeId}' cannot have both cases and a condition`,
+            at('condition')
+          );
+        }
+        if (!hasCases && node.cases === undefined) {
+          if (!node.condition) {
+            error('missing-field', `Branch node '${nodeId}' must have cases or a condition`, at());
+          }
+          if (!node.nextNode) {
+            error('missing-field', `Branch node '${nodeId}' must have a nextNode`, at());
+          }
+        }
+
+        for (const [index, branchCase] of (hasCases ? node.cases! : []).entries()) {
+          if (branchCase.nextNode) {
+            checkTarget(
+              branchCase.nextNode,
+              `Case ${index} nextNode '${branchCase.nextNode}' in node '${nodeId}' does not exist`,
+              at('cases', index, 'nextNode')
+            );
+          }
+        }
+
+        // Every branch needs a guaranteed exit
+        if (node.else && node.elseNode) {
+          error(
+            'invalid-branch',
+            `Branch node '${nodeId}' cannot have both else and elseNode`,
+            at('elseNode')
+          );
+        }
+        const elseNodeId = node.else ?? node.elseNode;
+        if (!elseNodeId) {
+          error('missing-field', `Branch node '${nodeId}' must have an else target`, at());
+        } else {
+          checkTarget(
+            elseNodeId,
+            `Else target '${elseNodeId}' in node '${nodeId}' does not exist`,
+            at(node.else ? 'else' : 'elseNode')
+          );
         }
         break;
+      }
 
-      case 'scene':
+      case 'scene': {
         if (!node.sceneId) {
-          throw new Error(`Scene node '${nodeId}' must have a sceneId`);
+          error('missing-field', `Scene node '${nodeId}' must have a sceneId`, at());
         }
         if (!node.characters || !Array.isArray(node.characters)) {
-          throw new Error(`Scene node '${nodeId}' must have a characters array`);
+          error('missing-field', `Scene node '${nodeId}' must have a characters array`, at());
+          break;
         }
         const validPositions = ['left', 'center', 'right', 'offscreenleft', 'offscreenright'];
 
         for (const [index, char] of node.characters.entries()) {
-          if (!char.id) {
-            throw new Error(`Character at index ${index} in node '${nodeId}' must have an id`);
-          }
-          if (!char.position) {
-            throw new Error(`Character '${char.id}' in node '${nodeId}' must have a position`);
-          }
-          if (!validPositions.includes(char.position.toLowerCase())) {
-            throw new Error(
-              `Invalid position '${char.position}' for character '${char.id}' in node '${nodeId}'`
+          if (char.position && !validPositions.includes(char.position.toLowerCase())) {
+            error(
+              'invalid-value',
+              `Invalid position '${char.position}' for character '${char.id}' in node '${nodeId}'`,
+              at('characters', index, 'position')
             );
           }
           if (
@@ -139,45 +754,98 @@ export class StoryParser {
               char.expression.toLowerCase() as CharacterEmotion
             )
           ) {
-            throw new Error(
-              `Invalid expression '${char.expression}' for character '${char.id}' in node '${nodeId}'`
+            error(
+              'invalid-value',
+              `Invalid expression '${char.expression}' for character '${char.id}' in node '${nodeId}'`,
+              at('characters', index, 'expression')
             );
           }
         }
         break;
+      }
+
+      case 'call':
+        if (!node.target) {
+          error('missing-field', `Call node '${nodeId}' must have a target`, at());
+        } else {
+          checkTarget(
+            node.target,
+            `Call target '${node.target}' in node '${nodeId}' does not exist`,
+            at('target')
+          );
+        }
+        if (!node.nextNode) {
+          error(
+            'missing-field',
+            `Call node '${nodeId}' must have a nextNode to continue at after the return`,
+            at()
+          );
+        }
+        break;
+
+      case 'return':
+        if (node.nextNode) {
+          report(
+            'warning',
+            'ignored-field',
+            `Return node '${nodeId}' ignores its nextNode; it goes back to the caller`,
+            at('nextNode')
+          );
+        }
+        break;
+
+      case 'random': {
+        const outcomes = Array.isArray(node.outcomes) ? node.outcomes : [];
+        if (outcomes.length === 0) {
+          error('missing-field', `Random node '${nodeId}' must have at least one outcome`, at());
+        }
+        for (const [index, outcome] of outcomes.entries()) {
+          checkTarget(
+            outcome.nextNode,
+            `Outcome ${index} nextNode '${outcome.nextNode}' in node '${nodeId}' does not exist`,
+            at('outcomes', index, 'nextNode')
+          );
+        }
+        const totalWeight = outcomes.reduce((sum, outcome) => sum + (outcome.weight ?? 1), 0);
+        if (outcomes.length > 0 && totalWeight <= 0) {
+          error(
+            'invalid-weight',
+            `Random node '${nodeId}' needs at least one outcome with a positive weight`,
+            at('outcomes')
+          );
+        }
+        break;
+      }
 
       case 'end':
         // End node doesn't need extra validation
         break;
 
-      default:
-        throw new Error(`Unknown node type '${node.type}' in node '${nodeId}'`);
+      // Missing and unknown types are reported by the schema
     }
 
     // Validate nextNode if specified
-    if (node.nextNode && !allNodes[node.nextNode]) {
-      throw new Error(`NextNode '${node.nextNode}' in node '${nodeId}' does not exist`);
+    if (node.nextNode) {
+      checkTarget(
+        node.nextNode,
+        `NextNode '${node.nextNode}' in node '${nodeId}' does not exist`,
+        at('nextNode')
+      );
     }
 
-    // Validate animations if present
-    if (node.animations) {
-      for (const animation of node.animations) {
-        if (!animation.target) {
-          throw new Error(`Animation in node '${nodeId}' must have a target`);
-        }
-        if (!animation.type) {
-          throw new Error(`Animation in node '${nodeId}' must have a type`);
-        }
-      }
-    }
+    // Compile conditions and scripts so syntax errors fail the load
+    this.compileNodeScripts(nodeId, node, report, scripts);
 
-    // Validate dialogue options if present
-    if (node.dialogueOptions?.textEffects) {
-      if (
-        !['wave', 'shake', 'bounce', 'typewriter'].includes(node.dialogueOptions.textEffects.type)
-      ) {
-        throw new Error(`Invalid text effect type in node '${nodeId}'`);
-      }
+    // Validate state change operations
+    this.validateStateChanges(nodeId, node.stateChanges, at('stateChanges'), report);
+    for (const [index, choice] of (Array.isArray(node.choices) ? node.choices : []).entries()) {
+      this.validateStateChanges(
+        nodeId,
+        choice.stateChanges,
+        at('choices', index, 'stateChanges'),
+        report,
+        choice.id
+      );
     }
 
     // Validate metadata emotion
@@ -187,45 +855,125 @@ export class StoryParser {
         node.metadata.emotion.toLowerCase() as CharacterEmotion
       )
     ) {
-      throw new Error(`Invalid emotion '${node.metadata.emotion}' in node '${nodeId}'`);
+      error(
+        'invalid-value',
+        `Invalid emotion '${node.metadata.emotion}' in node '${nodeId}'`,
+        at('metadata', 'emotion')
+      );
     }
   }
 
   /**
-   * Check for unreachable nodes in the story
-   * @param story The story data
+   * Validate a stateChanges map from a node or one of its choices
+   * @param nodeId The ID of the node
+   * @param stateChanges The stateChanges map, if any
+   * @param path Data path of the map
+   * @param report Collects each problem found
+   * @param choiceId The ID of the choice the map belongs to, if any
    */
-  private static checkForUnreachableNodes(story: Story): void {
-    const reachableNodes = new Set<string>();
+  private static validateStateChanges(
+    nodeId: string,
+    stateChanges: Record<string, StateChangeValue> | undefined,
+    path: Array<string | number>,
+    report: Reporter,
+    choiceId?: string
+  ): void {
+    if (stateChanges === undefined) return;
 
-    // Function to recursively mark nodes as reachable
-    const markReachable = (nodeId: string) => {
-      if (reachableNodes.has(nodeId)) return;
+    const owner = choiceId ? `choice '${choiceId}' in node '${nodeId}'` : `node '${nodeId}'`;
+    if (!stateChanges || typeof stateChanges !== 'object' || Array.isArray(stateChanges)) {
+      report('error', 'invalid-state-change', `stateChanges of ${owner} must be a map`, path);
+      return;
+    }
 
-      reachableNodes.add(nodeId);
-      const node = story.nodes[nodeId];
+    for (const [key, change] of Object.entries(stateChanges)) {
+      for (const message of StateChanges.validate({ [key]: change })) {
+        report('error', 'invalid-state-change', `Invalid stateChanges in ${owner}: ${message}`, [
+          ...path,
+          key
+        ]);
+      }
+    }
+  }
 
-      if (node.nextNode) {
-        markReachable(node.nextNode);
+  /**
+   * Compile every condition and script in a node
+   * @param nodeId The ID of the node
+   * @param node The node whose scripts to compile
+   * @param report Collects each problem found
+   * @param scripts Keeps the compiled conditions and scripts for the runtime
+   */
+  private static compileNodeScripts(
+    nodeId: string,
+    node: StoryNode,
+    report: Reporter,
+    scripts: ScriptCache
+  ): void {
+    const compile = (
+      kind: 'condition' | 'script' | 'text',
+      value: unknown,
+      field: string,
+      path: Array<string | number>
+    ): void => {
+      if (value === undefined) return;
+      if (typeof value !== 'string') {
+        report(
+          'error',
+          'invalid-script',
+          `The ${field} of node '${nodeId}' must be a string`,
+          path
+        );
+        return;
       }
 
-      if (node.choices) {
-        for (const choice of node.choices) {
-          markReachable(choice.nextNode);
+      try {
+        if (kind === 'condition') {
+          scripts.condition(value, { nodeId, field });
+        } else if (kind === 'text') {
+          TextInterpolator.getReferences(value, { nodeId, field });
+        } else {
+          scripts.script(value, { nodeId, field });
         }
+      } catch (error) {
+        if (!(error instanceof ScriptError)) throw error;
+        report(
+          'error',
+          kind === 'text' ? 'invalid-text' : 'invalid-script',
+          error.message,
+          path,
+          error.offset
+        );
       }
     };
 
-    // Start marking from the start node
-    markReachable(story.startNode);
+    const at = (...path: Array<string | number>): Array<string | number> => [
+      'nodes',
+      nodeId,
+      ...path
+    ];
+
+    compile('text', node.text, 'text', at('text'));
+    compile('condition', node.condition, 'condition', at('condition'));
+    compile('script', node.onEnter, 'onEnter', at('onEnter'));
+    compile('script', node.onExit, 'onExit', at('onExit'));
 
-    // Check for unreachable nodes
-    const unreachableNodes = Object.keys(story.nodes).filter(
-      (nodeId) => !reachableNodes.has(nodeId)
-    );
+    for (const [index, branchCase] of (Array.isArray(node.cases) ? node.cases : []).entries()) {
+      compile(
+        'condition',
+        branchCase.condition,
+        `case ${index} condition`,
+        at('cases', index, 'condition')
+      );
+    }
 
-    if (unreachableNodes.length > 0) {
-      console.warn(`Story has unreachable nodes: ${unreachableNodes.join(', ')}`);
+    for (const [index, choice] of (Array.isArray(node.choices) ? node.choices : []).entries()) {
+      compile(
+        'condition',
+        choice.condition,
+        `choice '${choice.id}' condition`,
+        at('choices', index, 'condition')
+      );
+      compile('text', choice.text, `choice '${choice.id}' text`, at('choices', index, 'text'));
     }
   }
 }
@@ -0,0 +1,179 @@
+import { EventEmitter } from '../events/EventEmitter';
+import { StoryChoice } from './StoryData';
+import { StoryNode } from './StoryNode';
+import { StoryRuntime, StorySnapshot } from './StoryRuntime';
+
+/**
+ * Options for rollback
+ */
+export interface RollbackOptions<T> {
+  maxDepth?: number; // Most lines the player can go back (default 100)
+  allowRechoose?: boolean; // Whether rolled-back choices may be made differently (default true)
+  capture?: () => T; // Captures state kept outside the runtime, e.g. character states
+  restore?: (state: T) => void; // Restores what capture returned
+}
+
+/**
+ * A line the player can return to
+ */
+export interface RollbackEntry<T> {
+  snapshot: StorySnapshot;
+  extra?: T; // What options.capture returned on entering the line
+  choiceId?: string; // The choice made here, for choice nodes
+}
+
+// Node types that wait for the player, and so are lines to go back to
+const ROLLBACK_TYPES = ['dialogue', 'choice', 'end'];
+
+/**
+ * Lets the player step back through previous lines and choices, and forward
+ * again until they do something different. Every dialogue, choice and end
+ * node entered is recorded with the story position, game state and whatever
+ * `capture` returns.
+ *
+ * Emits `rollback:moved` (node, position) after each step so presenters can
+ * re-render the line.
+ */
+export class StoryRollback<T = unknown> extends EventEmitter {
+  private runtime: StoryRuntime | null = null;
+  private entries: RollbackEntry<T>[] = [];
+  private position: number = -1; // Index of the entry being shown
+  private maxDepth: number;
+  private allowRechoose: boolean;
+  private capture?: () => T;
+  private restore?: (state: T) => void;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(options: RollbackOptions<T> = {}) {
+    super();
+    this.maxDepth = options.maxDepth ?? 100;
+    this.allowRechoose = options.allowRechoose ?? true;
+    this.capture = options.capture;
+    this.restore = options.restore;
+  }
+
+  /**
+   * Start recording a runtime
+   * @param runtime The story runtime
+   */
+  public attach(runtime: StoryRuntime): void {
+    this.detach();
+    this.runtime = runtime;
+
+    this.unsubscribers = [
+      runtime.on('node:enter', (node: StoryNode) => this.record(node)),
+      runtime.on('choice:made', (choice: StoryChoice) => {
+        const entry = this.entries[this.position];
+        if (entry) entry.choiceId = choice.id;
+      }),
+      runtime.on('story:loaded', () => this.clear()),
+      // Recorded lines may point at nodes an edit removed
+      runtime.on('story:reloaded', () => this.clear())
+    ];
+  }
+
+  /**
+   * Stop recording the attached runtime
+   */
+  public detach(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    this.runtime = null;
+  }
+
+  /**
+   * Set how many lines the player can go back, dropping older ones
+   * @param depth The rollback depth
+   */
+  public setMaxDepth(depth: number): void {
+    this.maxDepth = depth;
+    this.trim();
+  }
+
+  public canRollBack(): boolean {
+    return this.position > 0;
+  }
+
+  public canRollForward(): boolean {
+    return this.position < this.entries.length - 1;
+  }
+
+  /**
+   * Go back to an earlier line
+   * @param steps How many lines to go back
+   * @returns Whether the story moved
+   */
+  public rollBack(steps: number = 1): boolean {
+    return this.moveTo(Math.max(0, this.position - steps));
+  }
+
+  /**
+   * Go forward again through lines already seen
+   * @param steps How many lines to go forward
+   * @returns Whether the story moved
+   */
+  public rollForward(steps: number = 1): boolean {
+    return this.moveTo(Math.min(this.entries.length - 1, this.position + steps));
+  }
+
+  /**
+   * The choice that must be made again at the current line, when rechoosing
+   * is off and the player rolled back to a choice they already made
+   */
+  public getFixedChoiceId(): string | undefined {
+    if (this.allowRechoose || !this.canRollForward()) return undefined;
+    return this.entries[this.position]?.choiceId;
+  }
+
+  /**
+   * Get the recorded lines, oldest first
+   */
+  public getEntries(): RollbackEntry<T>[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Get the index of the line being shown
+   */
+  public getPosition(): number {
+    return this.position;
+  }
+
+  /**
+   * Forget every recorded line
+   */
+  public clear(): void {
+    this.entries = [];
+    this.position = -1;
+  }
+
+  private record(node: StoryNode): void {
+    if (!this.runtime || !ROLLBACK_TYPES.includes(node.getType())) return;
+
+    // Moving on from a rolled-back line replaces the lines after it
+    this.entries.splice(this.position + 1);
+    this.entries.push({ snapshot: this.runtime.getSnapshot(), extra: this.capture?.() });
+    this.position = this.entries.length - 1;
+    this.trim();
+  }
+
+  private trim(): void {
+    const excess = this.entries.length - (this.maxDepth + 1);
+    if (excess > 0) {
+      this.entries.splice(0, excess);
+      this.position = Math.max(0, this.position - excess);
+    }
+  }
+
+  private moveTo(position: number): boolean {
+    const entry = this.entries[position];
+    if (!this.runtime || !entry || position === this.position) return false;
+
+    this.position = position;
+    this.runtime.restoreSnapshot(entry.snapshot);
+    if (entry.extra !== undefined) this.restore?.(entry.extra);
+
+    this.emit('rollback:moved', this.runtime.getCurrentNode(), position);
+    return true;
+  }
+}
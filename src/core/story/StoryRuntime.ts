@@ -0,0 +1,1297 @@
+import { EventEmitter } from '../events/EventEmitter';
+import { RandomState, SeededRandom } from '../random/SeededRandom';
+import { StateChanges, StateChangeValue, StateDiffEntry } from '../state/StateChanges';
+import { ScriptCache } from '../script/ScriptCache';
+import { Story, StoryChoice, StoryTrigger } from './StoryData';
+import { StoryNode } from './StoryNode';
+import { StoryAnalyzer } from './StoryAnalyzer';
+import { StoryDiagnostic } from './StoryDiagnostic';
+import { StoryLocalizer, StringTable } from './StoryLocalizer';
+import { MigrationHook, MigrationResult, StoryMigration, StoryProgress } from './StoryMigration';
+import { StoryFileReader } from './StoryIncludes';
+import { ParseResult, StoryParser } from './StoryParser';
+import { StoryVariables } from './StoryVariables';
+import { TextInterpolator } from './TextInterpolator';
+
+/**
+ * Options for a story runtime
+ */
+export interface StoryRuntimeOptions {
+  // Runs automatic progression (branches, unpresented scenes) once the current
+  // step has finished; defaults to setTimeout. Pass `(task) => task()` to run
+  // a story synchronously, e.g. in tests.
+  schedule?: (task: () => void) => void;
+  // Seed for random nodes and the random() script helper. Without one, every
+  // start and reset picks a fresh seed; pass one for repeatable runs.
+  seed?: number;
+}
+
+/**
+ * A sub-flow entered by a call node, waiting for its return node
+ */
+export interface CallFrame {
+  callerId: string; // The call node, or the node a trigger interrupted
+  returnTo: string; // Node to continue at on return
+  shadowed: Record<string, any>; // The caller's values of the params, restored on return
+  unset: string[]; // Params the caller had no value for, removed on return
+  resume?: boolean; // Go back into returnTo without re-running it (trigger interrupts)
+}
+
+/**
+ * Whether a story trigger's condition held at the last check, and how often it fired
+ */
+export interface TriggerStatus {
+  active: boolean;
+  fired: number;
+}
+
+// Node types that wait for the player; triggers only interrupt the story there
+const WAITING_TYPES = ['dialogue', 'choice'];
+
+/**
+ * Where a playthrough stands: enough to resume it exactly
+ */
+export interface StorySnapshot {
+  currentNodeId: string | null;
+  gameState: Record<string, any>;
+  history: string[];
+  choiceUses: Record<string, Record<string, number>>; // By node ID, then choice ID
+  callStack: CallFrame[]; // Innermost call last
+  random: RandomState;
+  triggers: Record<string, TriggerStatus>; // By trigger ID
+}
+
+/**
+ * Presents a scene node. Returns true if it took over the scene, in which
+ * case the runtime waits for a call to progress() instead of moving on.
+ */
+export type ScenePresenter = (sceneId: string, transitionType: string, node: StoryNode) => boolean;
+
+/**
+ * The narrative core: story graph, state, navigation and choices, with no
+ * rendering dependencies. Presentation adapters subscribe to its events
+ * (`node:enter`, `choice:made`, `state:changed`, ...) so the same story can
+ * drive the game, a text runner or tests.
+ */
+export class StoryRuntime extends EventEmitter {
+  private story: Story | null = null;
+  private nodes: Map<string, StoryNode> = new Map();
+  private currentNode: StoryNode | null = null;
+  private gameState: Record<string, any> = {};
+  private history: string[] = [];
+  private choiceUses: Record<string, Record<string, number>> = {}; // Times each choice was taken
+  private callStack: CallFrame[] = [];
+  private seed?: number;
+  private random: SeededRandom;
+  private triggers: Record<string, TriggerStatus> = {}; // By trigger ID
+  private pendingTriggers: StoryTrigger[] = []; // Became true, waiting for the story to settle
+  private transitionDepth = 0; // Navigations and choices in progress
+  private diagnostics: StoryDiagnostic[] = [];
+  private scripts = new ScriptCache(); // Compiled by the parser when the story loaded
+  private schedule: (task: () => void) => void;
+  private scenePresenter?: ScenePresenter;
+  private localizer = new StoryLocalizer();
+  private migrations: Record<string, MigrationHook> = {}; // By the story version they upgrade to
+
+  constructor(options: StoryRuntimeOptions = {}) {
+    super();
+    this.schedule = options.schedule ?? ((task) => setTimeout(task, 0));
+    this.seed = options.seed;
+    this.random = new SeededRandom(this.seed);
+  }
+
+  /**
+   * Set who presents scene nodes; without one, scene nodes move straight on
+   * @param presenter The scene presenter, or undefined to remove it
+   */
+  public setScenePresenter(presenter?: ScenePresenter): void {
+    this.scenePresenter = presenter;
+  }
+
+  /**
+   * Load a story from JSON data
+   * @param jsonData JSON story data
+   */
+  public loadFromJson(jsonData: string): void {
+    try {
+      this.applyParseResult(StoryParser.parseJson(jsonData));
+      this.initializeStory();
+    } catch (error) {
+      console.error('Failed to load story from JSON:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load a story from YAML data
+   * @param yamlData YAML story data
+   */
+  public loadFromYaml(yamlData: string): void {
+    try {
+      this.applyParseResult(StoryParser.parseYaml(yamlData));
+      this.setSceneIds();
+      this.initializeStory();
+    } catch (error) {
+      console.error('Failed to load story from YAML:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load a story written in the screenplay format
+   * @param scriptData Screenplay source
+   */
+  public loadFromScript(scriptData: string): void {
+    try {
+      this.applyParseResult(StoryParser.parseScreenplay(scriptData));
+      this.setSceneIds();
+      this.initializeStory();
+    } catch (error) {
+      console.error('Failed to load story from script:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load a Twine story written in Twee 3 (SugarCube)
+   * @param tweeData Twee source
+   */
+  public loadFromTwee(tweeData: string): void {
+    try {
+      this.applyParseResult(StoryParser.parseTwee(tweeData));
+      this.setSceneIds();
+      this.initializeStory();
+    } catch (error) {
+      console.error('Failed to load story from Twee:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load story data that has already been parsed, e.g. by a tool
+   * @param story Story data
+   */
+  public loadFromData(story: Story): void {
+    try {
+      // sceneIds is filled in on load, so a loaded story can be loaded again
+      const data: Partial<Story> = { ...story };
+      delete data.sceneIds;
+
+      this.applyParseResult(StoryParser.parseData(data));
+      this.setSceneIds();
+      this.initializeStory();
+    } catch (error) {
+      console.error('Failed to load story data:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load a story file along with every file it includes
+   * @param path Path of the main story file
+   * @param readFile Reads a file's text by path, e.g. AssetManager.loadText
+   */
+  public async loadFromFile(path: string, readFile: StoryFileReader): Promise<void> {
+    try {
+      this.applyParseResult(await StoryParser.parseFiles(path, readFile));
+      this.setSceneIds();
+      this.initializeStory();
+    } catch (error) {
+      console.error(`Failed to load story from '${path}':`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store a parsed story and report its warnings
+   * @param result The parse result
+   */
+  private applyParseResult(result: ParseResult): void {
+    this.story = result.story;
+    this.diagnostics = result.diagnostics;
+    this.scripts = result.scripts;
+
+    if (result.diagnostics.length > 0) {
+      console.warn(
+        `Story '${result.story.id}' loaded with ${result.diagnostics.length} warning(s):\n` +
+          StoryAnalyzer.formatReport(result.diagnostics)
+      );
+    }
+  }
+
+  /**
+   * Get the warnings reported when the current story was loaded
+   */
+  public getDiagnostics(): StoryDiagnostic[] {
+    return [...this.diagnostics];
+  }
+
+  /**
+   * Get the current node ID
+   */
+  public getCurrentNodeId(): string | null {
+    return this.currentNode ? this.currentNode.getId() : null;
+  }
+
+  /**
+   * Get list of visited nodes
+   */
+  public getVisitedNodes(): string[] {
+    return [...this.history];
+  }
+
+  /**
+   * Get list of completed branches
+   */
+  public getCompletedBranches(): string[] {
+    const completedBranches: string[] = [];
+
+    for (const [nodeId, node] of this.nodes.entries()) {
+      if (node.getType() === 'branch' && this.history.includes(nodeId)) {
+        completedBranches.push(nodeId);
+      }
+    }
+
+    return completedBranches;
+  }
+
+  /**
+   * Where the playthrough stands, for save data. Scripts may change state in
+   * place, so the state is deep-copied.
+   */
+  public getProgress(): StoryProgress {
+    return {
+      currentNodeId: this.getCurrentNodeId() ?? '',
+      visitedNodes: this.getVisitedNodes(),
+      completedBranches: this.getCompletedBranches(),
+      choiceUses: this.getChoiceUses(),
+      callStack: this.getCallStack(),
+      random: this.getRandomState(),
+      triggers: this.getTriggerStatuses(),
+      gameState: JSON.parse(JSON.stringify(this.gameState)),
+      storyVersion: this.story?.version
+    };
+  }
+
+  /**
+   * Resume a saved playthrough at the node it was saved on. That node's
+   * state changes and scripts ran before the save, so they are not run
+   * again; `node:enter` is emitted for presenters to show it.
+   * @param progress Saved progress, e.g. from migrateProgress
+   */
+  public restoreProgress(progress: StoryProgress): void {
+    if (!this.story) return;
+
+    const { currentNodeId } = progress;
+    const resumable = !!currentNodeId && this.nodes.has(currentNodeId);
+
+    // Saves made before the state was saved with the progress start from the initial state
+    this.gameState =
+      resumable && progress.gameState
+        ? JSON.parse(JSON.stringify(progress.gameState))
+        : this.getInitialState();
+    this.enforceVariables();
+    this.history = [...progress.visitedNodes];
+    this.choiceUses = JSON.parse(JSON.stringify(progress.choiceUses ?? {}));
+    this.callStack = JSON.parse(JSON.stringify(progress.callStack ?? []));
+    if (progress.random) this.random.setState(progress.random);
+    this.resetTriggers(progress.triggers);
+
+    if (!resumable) {
+      // If no valid current node, restart from beginning
+      if (currentNodeId) {
+        console.warn(`Saved node '${currentNodeId}' does not exist; restarting the story`);
+      }
+      this.start();
+      return;
+    }
+
+    this.currentNode = this.nodes.get(currentNodeId)!;
+    this.emit('node:enter', this.currentNode, null);
+    this.emit('story:resumed', currentNodeId);
+
+    // Saved on a node that moves on by itself, e.g. a branch
+    this.transition(() => this.handleAutoProgress());
+  }
+
+  /**
+   * Load story progress from save data; restoreProgress with the progress
+   * given field by field, and without saved game state
+   * @param currentNodeId Current node ID
+   * @param visitedNodes Array of visited node IDs
+   * @param completedBranches Completed branch IDs; derived from the history instead
+   * @param choiceUses Times each choice was taken, by node ID then choice ID
+   * @param callStack Sub-flows entered and not yet returned from, innermost last
+   * @param random Seed and cursor of the random generator, so random nodes replay
+   * @param triggers Trigger statuses by trigger ID, so one-shot triggers stay spent
+   */
+  public loadProgress(
+    currentNodeId: string | null,
+    visitedNodes: string[] = [],
+    completedBranches: string[] = [],
+    choiceUses: Record<string, Record<string, number>> = {},
+    callStack: CallFrame[] = [],
+    random?: RandomState,
+    triggers?: Record<string, TriggerStatus>
+  ): void {
+    this.restoreProgress({
+      currentNodeId: currentNodeId ?? '',
+      visitedNodes,
+      completedBranches,
+      choiceUses,
+      callStack,
+      random,
+      triggers
+    });
+  }
+
+  /**
+   * Register a hook that upgrades saves made before a story version, e.g. to
+   * rename state keys. Renamed nodes only need `renamedFrom` in the story.
+   * @param version The story version the hook upgrades saves to
+   * @param hook Changes the save through its context
+   */
+  public addMigration(version: string, hook: MigrationHook): void {
+    this.migrations[version] = hook;
+  }
+
+  /**
+   * Bring saved progress and state in line with the loaded story, before
+   * passing them to restoreProgress
+   * @param progress The saved progress
+   * @param state The saved game state (default: the one saved with the
+   * progress, or the initial state for saves made before it was)
+   */
+  public migrateProgress(progress: StoryProgress, state?: Record<string, any>): MigrationResult {
+    if (!this.story) {
+      throw new Error('No story loaded');
+    }
+
+    const saved = state ?? progress.gameState ?? this.getInitialState();
+    return StoryMigration.migrate(this.story, progress, saved, this.migrations);
+  }
+
+  /**
+   * Capture the current playthrough. Scripts may change state in place, so
+   * the state is deep-copied.
+   */
+  public getSnapshot(): StorySnapshot {
+    return {
+      currentNodeId: this.getCurrentNodeId(),
+      gameState: JSON.parse(JSON.stringify(this.gameState)),
+      history: [...this.history],
+      choiceUses: JSON.parse(JSON.stringify(this.choiceUses)),
+      callStack: JSON.parse(JSON.stringify(this.callStack)),
+      random: this.random.getState(),
+      triggers: JSON.parse(JSON.stringify(this.triggers))
+    };
+  }
+
+  /**
+   * Return to a captured playthrough without running scripts, applying
+   * state changes or emitting node events
+   * @param snapshot A snapshot from getSnapshot
+   */
+  public restoreSnapshot(snapshot: StorySnapshot): void {
+    if (snapshot.currentNodeId !== null && !this.nodes.has(snapshot.currentNodeId)) {
+      throw new Error(`Node with ID "${snapshot.currentNodeId}" does not exist`);
+    }
+
+    this.currentNode =
+      snapshot.currentNodeId !== null ? this.nodes.get(snapshot.currentNodeId)! : null;
+    this.gameState = JSON.parse(JSON.stringify(snapshot.gameState));
+    this.history = [...snapshot.history];
+    this.choiceUses = JSON.parse(JSON.stringify(snapshot.choiceUses));
+    this.callStack = JSON.parse(JSON.stringify(snapshot.callStack));
+    this.random.setState(snapshot.random);
+    this.triggers = JSON.parse(JSON.stringify(snapshot.triggers));
+    this.pendingTriggers = [];
+  }
+
+  /**
+   * Check if a specific node ID exists
+   * @param nodeId Node ID to check
+   */
+  public hasNode(nodeId: string): boolean {
+    return this.nodes.has(nodeId);
+  }
+
+  /**
+   * Get all available nodes
+   */
+  public getAllNodes(): Map<string, StoryNode> {
+    return new Map(this.nodes);
+  }
+
+  /**
+   * Get all nodes of a specific type
+   * @param type Node type
+   */
+  public getNodesByType(type: string): StoryNode[] {
+    const result: StoryNode[] = [];
+
+    for (const node of this.nodes.values()) {
+      if (node.getType() === type) {
+        result.push(node);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Jump to a specific node (bypassing normal flow)
+   * This is useful for debugging or special control flow
+   * @param nodeId Node ID to jump to
+   * @param preserveHistory Whether to preserve history
+   */
+  public jumpToNode(nodeId: string, preserveHistory: boolean = false): void {
+    if (!this.nodes.has(nodeId)) {
+      throw new Error(`Node with ID "${nodeId}" does not exist`);
+    }
+
+    // If not preserving history, clear it
+    if (!preserveHistory) {
+      this.history = [];
+    }
+
+    // Navigate to node
+    this.navigateToNode(nodeId);
+
+    // Emit jump event
+    this.emit('story:jump', nodeId, preserveHistory);
+  }
+
+  /**
+   * Initialize the story after loading
+   */
+  private initializeStory(): void {
+    if (!this.story) return;
+
+    this.createNodes(this.story);
+
+    // Initialize game state
+    this.gameState = this.getInitialState();
+
+    // Clear history
+    this.history = [];
+    this.choiceUses = {};
+    this.callStack = [];
+    this.random = new SeededRandom(this.seed);
+    this.resetTriggers();
+
+    this.localizer.setDefaultLocale(this.story.locale ?? 'en');
+
+    // Emit story loaded event
+    this.emit('story:loaded', this.story);
+  }
+
+  /**
+   * Replace the node objects with the nodes of a story
+   * @param story The loaded story
+   */
+  private createNodes(story: Story): void {
+    this.nodes.clear();
+
+    // The key is the id when the node does not repeat it
+    for (const [nodeId, nodeData] of Object.entries(story.nodes)) {
+      this.nodes.set(
+        nodeId,
+        new StoryNode({ ...nodeData, id: nodeData.id ?? nodeId }, this.scripts)
+      );
+    }
+  }
+
+  /**
+   * Swap in an edited version of the story mid-playthrough, e.g. when a
+   * story file changes on the dev server. Game state, history and choice
+   * uses are kept. The current node stays current if it still exists, else
+   * the latest visited node that does (or the start node) takes its place.
+   * Scripts are not run; presenters re-render on `story:reloaded`.
+   * Calls waiting to return to a node that was renamed return to its new id;
+   * calls whose node is gone are dropped.
+   * @param result The parse result of the edited story
+   * @returns A message for each call dropped
+   */
+  public reloadStory(result: ParseResult): string[] {
+    const previousId = this.getCurrentNodeId();
+
+    this.applyParseResult(result);
+    this.setSceneIds();
+    this.createNodes(result.story);
+    this.localizer.setDefaultLocale(result.story.locale ?? 'en');
+    this.resetTriggers(this.triggers);
+    const dropped = this.repairCallStack(result.story);
+
+    if (previousId === null) {
+      this.currentNode = null;
+      this.emit('story:reloaded', this.story, null);
+      return dropped;
+    }
+
+    const nodeId =
+      [previousId, ...[...this.history].reverse()].find((id) => this.nodes.has(id)) ??
+      result.story.startNode;
+    this.currentNode = this.nodes.get(nodeId) ?? null;
+    this.emit('story:reloaded', this.story, this.currentNode);
+
+    // A stand-in node may be one that moves on by itself
+    if (nodeId !== previousId) this.handleAutoProgress();
+    return dropped;
+  }
+
+  /**
+   * Point call frames at the nodes' new ids after a reload, dropping frames
+   * whose node to return to no longer exists
+   * @param story The reloaded story
+   * @returns A message for each frame dropped
+   */
+  private repairCallStack(story: Story): string[] {
+    const renames = new Map<string, string>();
+    for (const [nodeId, node] of Object.entries(story.nodes)) {
+      for (const formerId of node.renamedFrom ?? []) renames.set(formerId, nodeId);
+    }
+    const resolve = (nodeId: string): string | undefined =>
+      this.nodes.has(nodeId) ? nodeId : renames.get(nodeId);
+
+    const dropped: string[] = [];
+    this.callStack = this.callStack.filter((frame) => {
+      const returnTo = resolve(frame.returnTo);
+      if (!returnTo) {
+        dropped.push(
+          `Node '${frame.returnTo}' no longer exists, so the call from '${frame.callerId}' will not return to it`
+        );
+        return false;
+      }
+      frame.returnTo = returnTo;
+      frame.callerId = resolve(frame.callerId) ?? frame.callerId;
+      return true;
+    });
+
+    dropped.forEach((message) => console.warn(message));
+    return dropped;
+  }
+
+  /**
+   * Re-read a story file and its includes and swap it in with reloadStory.
+   * If the edited story has errors they are thrown and the story in play is
+   * left as it was.
+   * @param path Path of the main story file
+   * @param readFile Reads a file's text by path, e.g. AssetManager.loadText
+   * @returns A message for each call dropped, as reloadStory
+   */
+  public async reloadFromFile(path: string, readFile: StoryFileReader): Promise<string[]> {
+    return this.reloadStory(await StoryParser.parseFiles(path, readFile));
+  }
+
+  /**
+   * Start the story
+   */
+  public start(): void {
+    if (!this.story) {
+      throw new Error('No story loaded');
+    }
+
+    this.navigateToNode(this.story.startNode);
+    this.emit('story:started', this.story);
+  }
+
+  /**
+   * Navigate to a specific node
+   * @param nodeId ID of the node to navigate to
+   */
+  public navigateToNode(nodeId: string): void {
+    // Existing navigation code...
+    if (!this.nodes.has(nodeId)) {
+      throw new Error(`Node with ID "${nodeId}" does not exist`);
+    }
+
+    this.transition(() => this.enterNode(nodeId));
+  }
+
+  /**
+   * Leave the current node and enter another
+   * @param nodeId ID of the node to enter
+   * @param resume Go back into a node a trigger interrupted, without applying
+   * its stateChanges or running its onEnter again
+   */
+  private enterNode(nodeId: string, resume: boolean = false): void {
+    // Execute onExit for current node if it exists
+    if (this.currentNode) {
+      this.currentNode.executeOnExit(this.gameState, this.history, () => this.random.next());
+      this.enforceVariables();
+      this.emit('node:exit', this.currentNode);
+    }
+
+    // Update current node
+    const prevNode = this.currentNode;
+    this.currentNode = this.nodes.get(nodeId)!;
+
+    // Add to history
+    this.history.push(nodeId);
+
+    if (!resume) {
+      // Apply state changes
+      const stateChanges = this.currentNode.getStateChanges();
+      if (stateChanges) {
+        this.updateGameState(stateChanges);
+      }
+
+      // Execute onEnter for new node
+      this.currentNode.executeOnEnter(this.gameState, this.history, () => this.random.next());
+      this.enforceVariables();
+    }
+
+    // Scripts change state without a state:changed event
+    this.checkTriggers();
+
+    // Emit node changed event
+    this.emit('node:enter', this.currentNode, prevNode);
+
+    // Handle automatic progression for specific node types
+    this.handleAutoProgress();
+  }
+
+  /**
+   * Run a navigation or choice. Triggers that become true meanwhile wait for
+   * it to finish, so they never cut a step short.
+   * @param step The navigation or choice
+   */
+  private transition(step: () => void): void {
+    this.transitionDepth++;
+    try {
+      step();
+    } finally {
+      this.transitionDepth--;
+    }
+    this.fireTriggers();
+  }
+
+  /**
+   * Queue every trigger whose condition has just become true
+   */
+  private checkTriggers(): void {
+    for (const trigger of this.story?.triggers ?? []) {
+      const status = this.triggers[trigger.id] ?? { active: false, fired: 0 };
+      const active = this.evaluateTrigger(trigger);
+      const canFire = trigger.repeat || status.fired === 0;
+      if (active && !status.active && canFire && !this.pendingTriggers.includes(trigger)) {
+        this.pendingTriggers.push(trigger);
+      }
+      this.triggers[trigger.id] = { ...status, active };
+    }
+
+    // Higher priority first; the sort is stable, so ties keep story order
+    this.pendingTriggers.sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+    this.fireTriggers();
+  }
+
+  /**
+   * Fire queued triggers once the story waits for the player, in priority order
+   */
+  private fireTriggers(): void {
+    while (this.transitionDepth === 0 && this.pendingTriggers.length > 0) {
+      const node = this.currentNode;
+      if (!node || !WAITING_TYPES.includes(node.getType())) return;
+
+      // The condition may have turned false again before the story settled
+      const trigger = this.pendingTriggers.shift()!;
+      if (!this.evaluateTrigger(trigger)) continue;
+
+      this.triggers[trigger.id] = { active: true, fired: this.triggers[trigger.id].fired + 1 };
+      this.emit('trigger:fired', trigger, node);
+
+      this.transition(() => {
+        if (trigger.stateChanges) this.updateGameState(trigger.stateChanges);
+        if (!trigger.nextNode || !this.nodes.has(trigger.nextNode)) return;
+
+        // A return node in the trigger's flow comes back to this node
+        if (trigger.returnAfter) {
+          const frame = { callerId: node.getId(), returnTo: node.getId(), shadowed: {}, unset: [] };
+          this.callStack.push({ ...frame, resume: true });
+        }
+        this.enterNode(trigger.nextNode);
+      });
+    }
+  }
+
+  private evaluateTrigger(trigger: StoryTrigger): boolean {
+    try {
+      const condition = this.scripts.condition(
+        trigger.condition,
+        StoryParser.triggerOrigin(trigger.id)
+      );
+      return condition.evaluate({ state: this.gameState, visitedNodes: this.history });
+    } catch (error) {
+      console.error(`Error evaluating trigger '${trigger.id}':`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Note which triggers hold in the current state, so only later changes fire them
+   * @param saved Trigger statuses from a save or snapshot, kept as they were
+   */
+  private resetTriggers(saved: Record<string, TriggerStatus> = {}): void {
+    this.pendingTriggers = [];
+    this.triggers = {};
+    for (const trigger of this.story?.triggers ?? []) {
+      this.triggers[trigger.id] = saved[trigger.id]
+        ? { ...saved[trigger.id] }
+        : { active: this.evaluateTrigger(trigger), fired: 0 };
+    }
+  }
+
+  /**
+   * Handle automatic progression based on node type
+   */
+  private handleAutoProgress(): void {
+    if (!this.currentNode) return;
+
+    const nodeType = this.currentNode.getType();
+
+    switch (nodeType) {
+      case 'scene': {
+        // Let the presenter show the scene, or move on if nobody does
+        const sceneNode = this.currentNode;
+        const sceneId = sceneNode.getSceneId();
+        const transition = sceneNode.getMetadata()?.transition || 'default';
+        const transitionType = typeof transition === 'string' ? transition : transition.type;
+
+        this.emit('scene:enter', sceneNode, sceneId, transitionType);
+
+        if (sceneId && this.scenePresenter?.(sceneId, transitionType, sceneNode)) break;
+
+        const nextNodeId = sceneNode.getNextNodeId();
+        if (nextNodeId) {
+          this.schedule(() => this.navigateToNode(nextNodeId));
+        }
+        break;
+      }
+
+      case 'branch': {
+        // For branch nodes, take the first matching case or the else target
+        const branchNode = this.currentNode;
+        const result = branchNode.resolveBranch(this.gameState, this.history);
+
+        if (!result) {
+          console.warn(`Branch node '${branchNode.getId()}' has no matching case and no else`);
+          break;
+        }
+
+        this.emit('branch:taken', branchNode, result);
+
+        // Let the current flow complete first
+        this.schedule(() => this.navigateToNode(result.nextNode));
+        break;
+      }
+
+      case 'call': {
+        const callNode = this.currentNode;
+        const target = callNode.getTarget();
+        const returnTo = callNode.getNextNodeId();
+        if (!target || !returnTo) {
+          console.warn(`Call node '${callNode.getId()}' needs a target and a nextNode`);
+          break;
+        }
+
+        this.enterCall(callNode, target, returnTo);
+        this.schedule(() => this.navigateToNode(target));
+        break;
+      }
+
+      case 'return': {
+        const frame = this.returnFromCall();
+        if (!frame) {
+          console.warn(`Return node '${this.currentNode.getId()}' was reached without a call`);
+          break;
+        }
+
+        this.schedule(() =>
+          frame.resume
+            ? this.transition(() => this.enterNode(frame.returnTo, true))
+            : this.navigateToNode(frame.returnTo)
+        );
+        break;
+      }
+
+      case 'random': {
+        // Roll once per visit; the seeded generator makes the roll repeatable
+        const randomNode = this.currentNode;
+        const outcomes = randomNode.getOutcomes();
+        const index = this.random.pickWeighted(outcomes.map((outcome) => outcome.weight ?? 1));
+        if (index < 0) {
+          console.warn(`Random node '${randomNode.getId()}' has no outcome with a positive weight`);
+          break;
+        }
+
+        this.emit('random:taken', randomNode, outcomes[index]);
+        this.schedule(() => this.navigateToNode(outcomes[index].nextNode));
+        break;
+      }
+
+      case 'choice': {
+        // Fall through to nextNode once no choice is left to take
+        const choiceNode = this.currentNode;
+        const nextNodeId = choiceNode.getNextNodeId();
+        if (nextNodeId && this.getAvailableChoices().length === 0) {
+          this.emit('choices:exhausted', choiceNode);
+          this.schedule(() => this.navigateToNode(nextNodeId));
+        }
+        break;
+      }
+
+      // Other types don't auto-progress
+      case 'dialogue':
+      case 'end':
+        break;
+    }
+  }
+
+  /**
+   * Make a choice in a choice node
+   * @param choiceIndex Index of the choice to make
+   */
+  public makeChoice(choiceIndex: number): void {
+    if (!this.currentNode || this.currentNode.getType() !== 'choice') {
+      throw new Error('Cannot make a choice: Current node is not a choice node');
+    }
+
+    const availableChoices = this.getAvailableChoices();
+
+    if (choiceIndex < 0 || choiceIndex >= availableChoices.length) {
+      throw new Error(`Invalid choice index: ${choiceIndex}`);
+    }
+
+    const choice = availableChoices[choiceIndex];
+    const nodeId = this.currentNode.getId();
+    this.choiceUses[nodeId] = {
+      ...this.choiceUses[nodeId],
+      [choice.id]: (this.choiceUses[nodeId]?.[choice.id] ?? 0) + 1
+    };
+
+    this.transition(() => {
+      // Apply state changes from the choice
+      if (choice.stateChanges) {
+        this.updateGameState(choice.stateChanges);
+      }
+
+      // Emit choice made event
+      this.emit('choice:made', choice, choiceIndex);
+
+      // Navigate to the next node
+      this.navigateToNode(choice.nextNode);
+    });
+  }
+
+  /**
+   * Push a call frame and set the call's params, remembering the caller's values
+   */
+  private enterCall(callNode: StoryNode, target: string, returnTo: string): void {
+    const params = callNode.getParams();
+    const frame: CallFrame = { callerId: callNode.getId(), returnTo, shadowed: {}, unset: [] };
+    for (const key of Object.keys(params)) {
+      if (key in this.gameState) {
+        frame.shadowed[key] = JSON.parse(JSON.stringify(this.gameState[key]));
+      } else {
+        frame.unset.push(key);
+      }
+    }
+    this.callStack.push(frame);
+
+    this.emit('call:enter', callNode, target);
+
+    const changes: Record<string, StateChangeValue> = {};
+    for (const [key, value] of Object.entries(params)) {
+      changes[key] = { set: value };
+    }
+    this.updateGameState(changes);
+  }
+
+  /**
+   * Pop the innermost call frame, giving the params back the caller's values
+   * @returns The frame, or undefined when no call is active
+   */
+  private returnFromCall(): CallFrame | undefined {
+    const frame = this.callStack.pop();
+    if (!frame) return undefined;
+
+    const prevState = { ...this.gameState };
+    const diff: StateDiffEntry[] = [];
+    for (const [key, value] of Object.entries(frame.shadowed)) {
+      diff.push({ path: key, oldValue: this.gameState[key], newValue: value });
+      this.gameState[key] = value;
+    }
+    for (const key of frame.unset) {
+      diff.push({ path: key, oldValue: this.gameState[key], newValue: undefined });
+      delete this.gameState[key];
+    }
+
+    this.emit('call:return', this.currentNode, frame.returnTo);
+    const changed = diff.filter((entry) => entry.oldValue !== entry.newValue);
+    if (changed.length > 0) {
+      this.emit('state:changed', this.getGameState(), prevState, {}, changed);
+      this.checkTriggers();
+    }
+    return frame;
+  }
+
+  /**
+   * Get the seed and cursor of the random generator, e.g. for a save
+   */
+  public getRandomState(): RandomState {
+    return this.random.getState();
+  }
+
+  /**
+   * Continue a saved random sequence
+   * @param state A state from getRandomState
+   */
+  public setRandomState(state: RandomState): void {
+    this.random.setState(state);
+  }
+
+  /**
+   * Get whether each trigger's condition holds and how often it fired, by trigger ID
+   */
+  public getTriggerStatuses(): Record<string, TriggerStatus> {
+    return JSON.parse(JSON.stringify(this.triggers));
+  }
+
+  /**
+   * Get the sub-flows entered and not yet returned from, innermost last
+   */
+  public getCallStack(): CallFrame[] {
+    return JSON.parse(JSON.stringify(this.callStack));
+  }
+
+  /**
+   * Get the choices of a node the player can take now
+   * @param node The node (default: the current node)
+   */
+  public getAvailableChoices(node: StoryNode | null = this.currentNode): StoryChoice[] {
+    if (!node) return [];
+    return node.getAvailableChoices(this.gameState, this.history, this.choiceUses[node.getId()]);
+  }
+
+  /**
+   * Get the choices of a node to show, marking used-up ones that show disabled
+   * @param node The node (default: the current node)
+   */
+  public getShownChoices(
+    node: StoryNode | null = this.currentNode
+  ): Array<{ choice: StoryChoice; disabled: boolean }> {
+    if (!node) return [];
+    return node.getShownChoices(this.gameState, this.history, this.choiceUses[node.getId()]);
+  }
+
+  /**
+   * Get how often each choice was taken, by node ID then choice ID
+   */
+  public getChoiceUses(): Record<string, Record<string, number>> {
+    return JSON.parse(JSON.stringify(this.choiceUses));
+  }
+
+  /**
+   * Let a timed choice run out: the timer's default choice is made if it is
+   * available, otherwise the story goes to the timer's nextNode. Without a
+   * nextNode, the first available choice is made instead.
+   * @throws Error if the current node has no timer, or nothing is left to take
+   */
+  public timeOutChoice(): void {
+    const timer = this.currentNode?.getTimer();
+    if (!this.currentNode || this.currentNode.getType() !== 'choice' || !timer) {
+      throw new Error('Cannot time out: Current node is not a timed choice node');
+    }
+
+    const available = this.getAvailableChoices();
+    let choiceIndex = available.findIndex((choice) => choice.id === timer.defaultChoice);
+
+    // The default choice may be hidden by its condition or used up
+    if (choiceIndex < 0 && !timer.nextNode) {
+      if (available.length === 0) {
+        throw new Error(
+          `Cannot time out: No choice of node '${this.currentNode.getId()}' is available and the timer has no nextNode`
+        );
+      }
+      choiceIndex = 0;
+    }
+
+    this.emit('choice:timeout', this.currentNode, timer);
+
+    if (choiceIndex >= 0) {
+      this.makeChoice(choiceIndex);
+    } else {
+      this.navigateToNode(timer.nextNode!);
+    }
+  }
+
+  /**
+   * Progress to the next node (for dialogue/scene nodes)
+   */
+  public progress(): void {
+    if (!this.currentNode) {
+      throw new Error('Cannot progress: No current node');
+    }
+
+    if (this.currentNode.getType() === 'choice') {
+      throw new Error('Cannot progress: Current node is a choice node, use makeChoice instead');
+    }
+
+    if (this.currentNode.getType() === 'end') {
+      throw new Error('Cannot progress: Current node is an end node');
+    }
+
+    const nextNodeId = this.currentNode.getNextNodeId();
+
+    if (!nextNodeId) {
+      throw new Error('Cannot progress: Current node has no next node defined');
+    }
+
+    this.navigateToNode(nextNodeId);
+  }
+
+  /**
+   * Update the game state
+   * Plain values replace the current value; operation objects such as
+   * `{ increment: 2 }` are applied to it. All changes are applied atomically.
+   * @param changes State changes to apply, keyed by (possibly dotted) state path
+   */
+  public updateGameState(changes: Record<string, StateChangeValue>): void {
+    const prevState = this.gameState;
+    const applied = StateChanges.apply(this.gameState, changes);
+
+    this.gameState = applied.state;
+    let diff = applied.diff;
+
+    // Declared ranges may clamp what was just applied
+    if (this.enforceVariables(diff.map((entry) => entry.path.split('.')[0]))) {
+      diff = diff
+        .map((entry) => ({ ...entry, newValue: StateChanges.get(this.gameState, entry.path) }))
+        .filter((entry) => entry.newValue !== entry.oldValue);
+    }
+
+    // Emit a single state changed event with the paths that actually changed
+    if (diff.length > 0) {
+      this.emit('state:changed', this.getGameState(), { ...prevState }, changes, diff);
+      this.checkTriggers();
+    }
+  }
+
+  /**
+   * The state a story starts with: declared variable defaults, overridden by
+   * initialState
+   */
+  private getInitialState(): Record<string, any> {
+    return {
+      ...StoryVariables.defaults(this.story?.variables),
+      ...this.story?.initialState
+    };
+  }
+
+  /**
+   * Clamp state values to the story's declared variable ranges, warning about
+   * each value changed or of the wrong type
+   * @param names The state keys to check (default: all of them)
+   * @returns Whether any value was clamped
+   */
+  private enforceVariables(names?: string[]): boolean {
+    const variables = this.story?.variables;
+    if (!variables) return false;
+
+    const { state, messages } = StoryVariables.enforce(this.gameState, variables, names);
+    const clamped = Object.keys(state).some((key) => state[key] !== this.gameState[key]);
+    if (clamped) {
+      // Mutate in place, as scripts do, so callers holding the state see it
+      Object.assign(this.gameState, state);
+    }
+    messages.forEach((message) => console.warn(message));
+    return clamped;
+  }
+
+  /**
+   * Get all unique scene IDs from the story
+   */
+  public setSceneIds(): void {
+    if (!this.story) {
+      throw new Error('No story loaded');
+    }
+
+    const sceneIds = new Set<string>();
+    Object.values(this.story.nodes).forEach((node: any) => {
+      if (node.type === 'scene' && node.sceneId) {
+        sceneIds.add(node.sceneId);
+      }
+    });
+
+    // Add scene IDs to the story object
+    this.story.sceneIds = Array.from(sceneIds);
+  }
+
+  /**
+   * Get the current node
+   */
+  public getCurrentNode(): StoryNode | null {
+    return this.currentNode;
+  }
+
+  /**
+   * Get the current game state
+   */
+  public getGameState(): Record<string, any> {
+    return { ...this.gameState };
+  }
+
+  /**
+   * Get the loaded story
+   */
+  public getStory(): Story | null {
+    return this.story;
+  }
+
+  /**
+   * Get node history
+   */
+  public getHistory(): string[] {
+    return [...this.history];
+  }
+
+  /**
+   * Add a string table for a locale
+   * @param table A parsed table, or its YAML/JSON source
+   */
+  public addStringTable(table: StringTable | string): void {
+    this.localizer.addTable(typeof table === 'string' ? StoryLocalizer.parseTable(table) : table);
+  }
+
+  /**
+   * Switch the locale text is shown in; presenters re-render on `locale:changed`
+   * @param locale The locale, e.g. 'fr'
+   */
+  public setLocale(locale: string): void {
+    const previous = this.localizer.getLocale();
+    if (locale === previous) return;
+
+    this.localizer.setLocale(locale);
+    this.emit('locale:changed', locale, previous);
+  }
+
+  /**
+   * Get the locale text is shown in
+   */
+  public getLocale(): string {
+    return this.localizer.getLocale();
+  }
+
+  /**
+   * Get every locale the story can be shown in
+   */
+  public getLocales(): string[] {
+    return this.localizer.getLocales();
+  }
+
+  /**
+   * List the story's text keys that a locale has no translation for
+   * @param locale The locale to check (default: the current locale)
+   */
+  public getMissingTranslations(locale?: string): string[] {
+    return this.story ? this.localizer.findMissingKeys(this.story, locale) : [];
+  }
+
+  /**
+   * Get the story title in the current locale
+   */
+  public getTitle(): string | undefined {
+    return this.story ? this.localizer.translate('title', this.story.title) : undefined;
+  }
+
+  /**
+   * Get a node's text in the current locale, with references resolved
+   * @param node The node
+   */
+  public getNodeText(node: StoryNode): string | undefined {
+    const text = node.getText();
+    if (text === undefined) return undefined;
+
+    return this.formatText(this.localizer.translate(`nodes.${node.getId()}.text`, text));
+  }
+
+  /**
+   * Get a choice's text in the current locale, with references resolved
+   * @param choice The choice
+   * @param nodeId The node offering the choice (default: the current node)
+   */
+  public getChoiceText(choice: StoryChoice, nodeId?: string): string {
+    const key = `nodes.${nodeId ?? this.currentNode?.getId()}.choices.${choice.id}`;
+    return this.formatText(this.localizer.translate(key, choice.text));
+  }
+
+  /**
+   * Get a story character's display name in the current locale
+   * @param characterId The character ID
+   */
+  public getCharacterName(characterId: string): string | undefined {
+    const character = this.story?.assets?.characters?.[characterId];
+    if (!character) return undefined;
+
+    return this.localizer.translate(
+      `characters.${characterId}.displayName`,
+      character.displayName ?? character.name
+    );
+  }
+
+  /**
+   * Resolve `{...}` references in dialogue or choice text against the current
+   * state and the story's characters
+   * @param text The text as written in the story
+   */
+  public formatText(text: string): string {
+    const characters = Object.fromEntries(
+      Object.entries(this.story?.assets?.characters ?? {}).map(([id, character]) => [
+        id,
+        { ...character, displayName: this.getCharacterName(id) }
+      ])
+    );
+
+    return TextInterpolator.interpolate(text, {
+      state: this.gameState,
+      visitedNodes: this.history,
+      characters,
+      locale: this.localizer.getLocale()
+    });
+  }
+
+  /**
+   * Reset the story back to the start
+   */
+  public reset(): void {
+    if (!this.story) return;
+
+    // Reset game state
+    this.gameState = this.getInitialState();
+
+    // Clear history
+    this.history = [];
+    this.choiceUses = {};
+    this.callStack = [];
+    this.random = new SeededRandom(this.seed);
+    this.resetTriggers();
+
+    // Reset current node
+    this.currentNode = null;
+
+    // Emit reset event
+    this.emit('story:reset');
+
+    // Start from beginning
+    this.start();
+  }
+
+  /**
+   * Get a specific node by ID
+   * @param nodeId Node ID
+   */
+  public getNode(nodeId: string): StoryNode | undefined {
+    return this.nodes.get(nodeId);
+  }
+}
@@ -0,0 +1,455 @@
+import { JsonSchema, SchemaValidator, SchemaViolation } from '../schema/SchemaValidator';
+import {
+  BranchCase,
+  ChoiceTimer,
+  DialogueOptions,
+  NodeMetadata,
+  RandomOutcome,
+  Story,
+  StoryAnimation,
+  StoryAudio,
+  StoryBackground,
+  StoryChapter,
+  StoryCharacter,
+  StoryChoice,
+  StoryInclude,
+  StoryNode,
+  StoryTrigger,
+  StoryVariable
+} from './StoryData';
+
+/**
+ * A schema for every field of T. Adding, renaming or removing a field in
+ * StoryData.ts fails to compile here until the schema follows.
+ */
+type PropertiesOf<T> = { [K in keyof Required<T>]: JsonSchema };
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/definitions/${name}` });
+
+const string = (description?: string): JsonSchema => ({ type: 'string', description });
+const number = (description?: string): JsonSchema => ({ type: 'number', description });
+const boolean = (description?: string): JsonSchema => ({ type: 'boolean', description });
+const oneOfStrings = (values: string[], description?: string): JsonSchema => ({
+  type: 'string',
+  enum: values,
+  description
+});
+const stringArray = (description?: string): JsonSchema => ({
+  type: 'array',
+  items: { type: 'string' },
+  description
+});
+
+/**
+ * A closed object: editors flag any key not listed
+ */
+const object = <T>(
+  properties: PropertiesOf<T>,
+  required: Array<keyof T & string> = [],
+  description?: string
+): JsonSchema => ({
+  type: 'object',
+  description,
+  properties,
+  required: required.length > 0 ? required : undefined,
+  additionalProperties: false
+});
+
+const stateChanges: JsonSchema = {
+  type: 'object',
+  description:
+    'State keys (dotted paths allowed) mapped to a new value or an operation such as { increment: 1 }',
+  additionalProperties: {
+    anyOf: [ref('StateChangeOperation'), {}]
+  }
+};
+
+const storyChoice = object<StoryChoice>(
+  {
+    id: string(),
+    text: string('Text shown on the choice button'),
+    nextNode: string('ID of the node this choice leads to'),
+    condition: string('Expression that must hold for the choice to be offered'),
+    stateChanges,
+    uses: {
+      description:
+        "How often the choice can be taken: 'once', 'sticky' (any number, the default) or a count",
+      anyOf: [oneOfStrings(['once', 'sticky']), { type: 'integer', minimum: 1 }]
+    },
+    exhausted: oneOfStrings(['hide', 'disable'], 'How a used-up choice shows (default hide)')
+  },
+  ['text', 'nextNode']
+);
+
+const choiceTimer = object<ChoiceTimer>(
+  {
+    seconds: { type: 'number', minimum: 0, description: 'Time the player has to choose' },
+    defaultChoice: string('ID of the choice made when time runs out'),
+    nextNode: string('ID of the node to go to when time runs out without a default choice')
+  },
+  ['seconds'],
+  'A time limit on a choice node; needs a defaultChoice, a nextNode or both'
+);
+
+const branchCase = object<BranchCase>(
+  {
+    condition: string('Expression checked in order; the first that holds is taken'),
+    nextNode: string('ID of the node to go to when the condition holds')
+  },
+  ['condition', 'nextNode']
+);
+
+const randomOutcome = object<RandomOutcome>(
+  {
+    nextNode: string('ID of the node to go to'),
+    weight: { type: 'number', minimum: 0, description: 'Relative chance (default 1)' }
+  },
+  ['nextNode']
+);
+
+const storyTrigger = object<StoryTrigger>(
+  {
+    id: string(),
+    condition: string('Expression watched after every state change; fires when it becomes true'),
+    nextNode: string('ID of the node to interrupt the flow with'),
+    stateChanges,
+    repeat: boolean('Fire each time the condition becomes true (default once)'),
+    priority: number('Higher fires first when several triggers fire together (default 0)'),
+    returnAfter: boolean('A return node in the interrupting flow resumes the interrupted node')
+  },
+  ['id', 'condition'],
+  'A story-wide rule; needs a nextNode, stateChanges or both'
+);
+
+const storyCharacter = object<StoryCharacter>(
+  {
+    id: string(),
+    name: string(),
+    displayName: string(),
+    avatarId: string(),
+    textColor: string(),
+    textSpeed: number('Characters per second')
+  },
+  ['id', 'name']
+);
+
+const storyVariable = object<StoryVariable>(
+  {
+    type: oneOfStrings(['number', 'boolean', 'string', 'array', 'object']),
+    default: { description: 'Initial value unless initialState sets one' },
+    min: number('Lowest value of a number'),
+    max: number('Highest value of a number'),
+    description: string()
+  },
+  ['type']
+);
+
+const storyBackground = object<StoryBackground>(
+  {
+    id: string(),
+    imageId: string(),
+    transition: string()
+  },
+  ['id', 'imageId']
+);
+
+const storyAudio = object<StoryAudio>(
+  {
+    id: string(),
+    file: string(),
+    volume: number(),
+    loop: boolean(),
+    fadeIn: number(),
+    fadeOut: number()
+  },
+  ['id', 'file']
+);
+
+const storyAnimation = object<StoryAnimation>(
+  {
+    target: string('ID of the element to animate'),
+    type: string('Animation type or preset, e.g. fadeIn, slideInLeft, pulse'),
+    duration: number(),
+    delay: number(),
+    ease: string('GSAP easing, e.g. power2.out'),
+    scale: number(),
+    distance: number(),
+    repeat: number(),
+    direction: oneOfStrings(['left', 'right', 'top', 'bottom'], 'For character enter/exit'),
+    parameters: { type: 'object' },
+    cameraEffect: object<NonNullable<StoryAnimation['cameraEffect']>>(
+      {
+        type: oneOfStrings(['shake', 'zoom', 'pan', 'fadeToBlack']),
+        targetX: number(),
+        targetY: number(),
+        targetScale: number()
+      },
+      ['type']
+    ),
+    backgroundTransition: object<NonNullable<StoryAnimation['backgroundTransition']>>(
+      { type: oneOfStrings(['fade', 'crossfade', 'slideLeft', 'slideRight']) },
+      ['type']
+    ),
+    dialogueBoxAnimation: object<NonNullable<StoryAnimation['dialogueBoxAnimation']>>(
+      { type: oneOfStrings(['show', 'hide', 'emphasize']) },
+      ['type']
+    )
+  },
+  ['target', 'type']
+);
+
+const dialogueOptions = object<DialogueOptions>({
+  speed: number('Text display speed'),
+  autoProgress: boolean('Auto progress after text is shown'),
+  textEffects: {
+    // An empty `textEffects:` key in YAML means no effect
+    anyOf: [
+      object<NonNullable<DialogueOptions['textEffects']>>(
+        {
+          type: oneOfStrings(['wave', 'shake', 'bounce', 'typewriter']),
+          intensity: number()
+        },
+        ['type']
+      ),
+      { type: 'null' }
+    ]
+  }
+});
+
+const nodeMetadata = object<NodeMetadata>(
+  {
+    transition: {
+      anyOf: [
+        string(),
+        object<{ type: string; duration?: number }>({ type: string(), duration: number() }, [
+          'type'
+        ])
+      ]
+    },
+    effect: {
+      anyOf: [
+        string(),
+        object<Exclude<NodeMetadata['effect'], string | undefined>>(
+          {
+            type: string("Effect type, e.g. 'shake', 'flash' or 'sound'"),
+            sound: string("Audio asset ID, for type 'sound'"),
+            intensity: number(),
+            duration: number()
+          },
+          ['type']
+        )
+      ]
+    },
+    animation: object<NonNullable<NodeMetadata['animation']>>({ in: string(), out: string() }),
+    animationIn: string('Shorthand for animation.in'),
+    animationOut: string('Shorthand for animation.out'),
+    audio: string('Audio asset ID to play when the node is shown'),
+    textSpeed: number(),
+    textEffect: string(),
+    emotion: string(),
+    choiceAnimation: string()
+  },
+  [],
+  'Presentation hints for a node'
+);
+
+const storyNode = object<StoryNode>(
+  {
+    id: string('Should match the key of the node'),
+    renamedFrom: stringArray('Former ids of this node; saves made with them load here'),
+    type: oneOfStrings([
+      'dialogue',
+      'scene',
+      'choice',
+      'branch',
+      'random',
+      'call',
+      'return',
+      'end'
+    ]),
+    character: string(),
+    text: string(),
+    textSpeed: number(),
+    choices: { type: 'array', items: ref('StoryChoice') },
+    timer: ref('ChoiceTimer'),
+    background: { anyOf: [string(), ref('StoryBackground')] },
+    characters: {
+      type: 'array',
+      items: object<NonNullable<StoryNode['characters']>[number]>(
+        {
+          id: string(),
+          position: string('left, center, right, offscreenLeft or offscreenRight'),
+          expression: string('A character emotion, e.g. happy')
+        },
+        ['id', 'position']
+      )
+    },
+    animations: { type: 'array', items: ref('StoryAnimation') },
+    audio: { anyOf: [string(), ref('StoryAudio')] },
+    cases: { type: 'array', items: ref('BranchCase') },
+    else: string('Branch fallback when no case holds'),
+    elseNode: string('Branch fallback when no case holds'),
+    condition: string('Expression; on a branch node, shorthand for a single case'),
+    onEnter: string('Script to run when entering this node'),
+    onExit: string('Script to run when exiting this node'),
+    outcomes: { type: 'array', items: ref('RandomOutcome') },
+    target: string('Call node: ID of the first node of the sub-flow to run'),
+    params: {
+      type: 'object',
+      description: 'Call node: state keys set for the sub-flow, restored when it returns'
+    },
+    nextNode: string('Next node; on a choice node, taken once no choice is available'),
+    stateChanges,
+    tags: stringArray(),
+    dialogueOptions: ref('DialogueOptions'),
+    metadata: ref('NodeMetadata'),
+    sceneId: string(),
+    characterId: string(),
+    mood: string()
+  },
+  ['type']
+);
+
+const storyInclude = object<StoryInclude>(
+  {
+    file: string('Path relative to the including file'),
+    namespace: string('Prefix for the node ids of the file, e.g. chapter2 gives chapter2/intro')
+  },
+  ['file']
+);
+
+const includes: JsonSchema = {
+  type: 'array',
+  description: 'Files contributing more nodes and assets',
+  items: { anyOf: [string('Path relative to the including file'), ref('StoryInclude')] }
+};
+
+const assets: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    images: { type: 'object', additionalProperties: string('Image path') },
+    audio: { type: 'object', additionalProperties: string('Audio path') },
+    characters: { type: 'object', additionalProperties: ref('StoryCharacter') },
+    backgrounds: { type: 'object', additionalProperties: ref('StoryBackground') }
+  }
+};
+
+const nodes: JsonSchema = {
+  type: 'object',
+  minProperties: 1,
+  additionalProperties: ref('StoryNode')
+};
+
+/**
+ * `sceneIds` is derived from the nodes when a story loads, so writers never set it
+ */
+const story = object<Omit<Story, 'sceneIds'>>(
+  {
+    id: string(),
+    title: string(),
+    author: string(),
+    version: string(),
+    description: string(),
+    tags: stringArray(),
+    locale: string("Locale of the text written in the story, e.g. 'en'"),
+    includes,
+    assets,
+    variables: {
+      type: 'object',
+      description: 'State variables; once any are declared, every state key must be',
+      additionalProperties: ref('StoryVariable')
+    },
+    initialState: { type: 'object', description: 'Game state when the story starts' },
+    startNode: string('ID of the first node'),
+    triggers: {
+      type: 'array',
+      description: 'Rules watching state, checked after every state change',
+      items: ref('StoryTrigger')
+    },
+    nodes
+  },
+  ['id', 'title', 'startNode', 'nodes']
+);
+
+const chapter = object<StoryChapter>({
+  includes,
+  assets,
+  nodes: { type: 'object', additionalProperties: ref('StoryNode') }
+});
+
+const definitions: Record<string, JsonSchema> = {
+  StoryNode: storyNode,
+  StoryChoice: storyChoice,
+  ChoiceTimer: choiceTimer,
+  BranchCase: branchCase,
+  RandomOutcome: randomOutcome,
+  StoryTrigger: storyTrigger,
+  StoryInclude: storyInclude,
+  StoryCharacter: storyCharacter,
+  StoryVariable: storyVariable,
+  StoryBackground: storyBackground,
+  StoryAudio: storyAudio,
+  StoryAnimation: storyAnimation,
+  DialogueOptions: dialogueOptions,
+  NodeMetadata: nodeMetadata,
+  StateChangeOperation: {
+    type: 'object',
+    additionalProperties: false,
+    minProperties: 1,
+    properties: {
+      set: {},
+      setIfUnset: {},
+      increment: number(),
+      decrement: number(),
+      multiply: number(),
+      clamp: { type: 'array', items: { type: 'number' }, minItems: 2 },
+      push: {},
+      remove: {},
+      toggle: boolean()
+    }
+  }
+};
+
+/**
+ * JSON Schema for story files. A copy ships as
+ * public/assets/stories/story.schema.json for editors; StorySchema.test.ts
+ * fails when the two differ.
+ */
+export const STORY_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'story.schema.json',
+  title: 'Story',
+  ...story,
+  definitions
+};
+
+/**
+ * JSON Schema for files included by a story. Ships as
+ * public/assets/stories/story-chapter.schema.json.
+ */
+export const STORY_CHAPTER_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'story-chapter.schema.json',
+  title: 'Story chapter',
+  ...chapter,
+  definitions
+};
+
+export class StorySchema {
+  /**
+   * Check story data against the story schema
+   * @param data The parsed story data
+   */
+  public static validate(data: unknown): SchemaViolation[] {
+    return SchemaValidator.validate(STORY_SCHEMA, data);
+  }
+
+  /**
+   * A schema as published for editors
+   * @param schema The schema to render
+   */
+  public static toJson(schema: JsonSchema = STORY_SCHEMA): string {
+    return `${JSON.stringify(schema, null, 2)}\n`;
+  }
+}
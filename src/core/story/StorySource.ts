@@ -0,0 +1,107 @@
+import YAML, { Document, LineCounter, isScalar, Node as YamlNode } from 'yaml';
+import { StoryDiagnostic } from './StoryDiagnostic';
+
+/**
+ * A position in a story source file
+ */
+export interface SourceLocation {
+  file?: string;
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+/**
+ * Maps a data path (and optional offset into a scalar) back to its source
+ */
+export type SourceLocator = (
+  path: Array<string | number>,
+  offset?: number
+) => SourceLocation | undefined;
+
+/**
+ * Story data built from a source file, not yet validated, with a map back into the source
+ */
+export interface SourceMappedStory {
+  story: any;
+  diagnostics: StoryDiagnostic[]; // Problems found while building the data
+  locate: SourceLocator;
+}
+
+/**
+ * One parsed story file, kept so diagnostics can point back into it. JSON is
+ * valid YAML, so both formats go through the YAML parser.
+ */
+export class StorySource {
+  public readonly file?: string;
+  private document: Document;
+  private lineCounter = new LineCounter();
+
+  constructor(text: string, file?: string) {
+    this.file = file;
+    this.document = YAML.parseDocument(text, { lineCounter: this.lineCounter });
+  }
+
+  /**
+   * Get the syntax errors in the file, if any
+   */
+  public getSyntaxDiagnostics(): StoryDiagnostic[] {
+    return this.document.errors.map((error) => {
+      const position = this.lineCounter.linePos(error.pos[0]);
+      return {
+        severity: 'error',
+        code: 'syntax',
+        message: error.message.split('\n')[0],
+        file: this.file,
+        line: position.line,
+        column: position.col
+      };
+    });
+  }
+
+  /**
+   * Get the file contents as plain data
+   */
+  public toJS(): any {
+    return this.document.toJS();
+  }
+
+  /**
+   * Map a data path to a line and column. Missing keys fall back to the
+   * closest parent that exists.
+   * @param path Data path, e.g. ['nodes', 'intro', 'nextNode']
+   * @param offset Character offset inside a scalar, e.g. where a script fails
+   */
+  public locate(path: Array<string | number>, offset?: number): SourceLocation | undefined {
+    for (let length = path.length; length >= 0; length--) {
+      const node = (
+        length === 0 ? this.document.contents : this.document.getIn(path.slice(0, length), true)
+      ) as YamlNode | null | undefined;
+      if (!node || !node.range) continue;
+
+      let start = node.range[0];
+
+      // Point inside single-line scalars, e.g. at the failing character of a condition
+      if (offset !== undefined && length === path.length && isScalar(node)) {
+        if (node.type === 'QUOTE_SINGLE' || node.type === 'QUOTE_DOUBLE') {
+          start += 1 + offset;
+        } else if (node.type === 'PLAIN') {
+          start += offset;
+        }
+      }
+
+      const position = this.lineCounter.linePos(start);
+      return { file: this.file, line: position.line, column: position.col };
+    }
+    return undefined;
+  }
+
+  /**
+   * Render a location as `file:line:column`
+   * @param location The location to render
+   * @param file File name to use when the location has none
+   */
+  public static formatLocation(location: SourceLocation | undefined, file?: string): string {
+    const name = location?.file ?? file ?? '<story>';
+    return location ? `${name}:${location.line}:${location.column}` : name;
+  }
+}
@@ -0,0 +1,192 @@
+import { StateChanges, StateChangeValue } from '../state/StateChanges';
+import { StoryVariable, VariableType } from './StoryData';
+
+const ARITHMETIC_OPERATIONS = ['increment', 'decrement', 'multiply', 'clamp'] as const;
+
+/**
+ * Checks values and state changes against a story's declared variables
+ */
+export class StoryVariables {
+  /**
+   * Get the default value of every variable that has one
+   * @param variables The declared variables
+   */
+  public static defaults(variables: Record<string, StoryVariable> = {}): Record<string, any> {
+    const defaults: Record<string, any> = {};
+    for (const [name, variable] of Object.entries(variables)) {
+      if (variable.default !== undefined) {
+        defaults[name] = JSON.parse(JSON.stringify(variable.default));
+      }
+    }
+    return defaults;
+  }
+
+  /**
+   * Get the variable type of a value, or undefined for null and unsupported values
+   * @param value Any value
+   */
+  public static typeOf(value: unknown): VariableType | undefined {
+    if (Array.isArray(value)) return 'array';
+    if (value === null) return undefined;
+    switch (typeof value) {
+      case 'number':
+      case 'boolean':
+      case 'string':
+        return typeof value as VariableType;
+      case 'object':
+        return 'object';
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Check a declaration for a range on a non-number, an inverted range or a
+   * default that does not fit
+   * @param name The variable name
+   * @param variable The declaration
+   */
+  public static checkDeclaration(name: string, variable: StoryVariable): string[] {
+    const errors: string[] = [];
+
+    if (variable.type !== 'number' && (variable.min !== undefined || variable.max !== undefined)) {
+      errors.push(
+        `Variable '${name}' is ${this.article(variable.type)}, so it cannot have a min or max`
+      );
+    }
+    if (variable.min !== undefined && variable.max !== undefined && variable.min > variable.max) {
+      errors.push(`Variable '${name}' has a min greater than its max`);
+    }
+    if (variable.default !== undefined) {
+      const error = this.checkValue(name, variable, variable.default);
+      if (error) errors.push(`Default of ${error}`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Check a value against a variable's type and range
+   * @param name The variable name
+   * @param variable The declaration
+   * @param value The value to check
+   * @returns A problem, or undefined when the value fits
+   */
+  public static checkValue(
+    name: string,
+    variable: StoryVariable,
+    value: unknown
+  ): string | undefined {
+    // Null clears a variable of any type
+    if (value === null) return undefined;
+
+    const type = this.typeOf(value);
+    if (type !== variable.type) {
+      return `'${name}' must be ${this.article(variable.type)}, not ${JSON.stringify(value)}`;
+    }
+    if (typeof value === 'number' && !this.isInRange(variable, value)) {
+      return `'${name}' must be within ${this.formatRange(variable)}, not ${value}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Check one stateChanges entry against the declared variables. Only
+   * changes to a whole variable are type-checked; changes inside an object
+   * or array variable are not.
+   * @param path The changed path, e.g. 'courage' or 'inventory.keys'
+   * @param change The new value or operation
+   * @param variables The declared variables
+   */
+  public static checkChange(
+    path: string,
+    change: StateChangeValue,
+    variables: Record<string, StoryVariable>
+  ): string[] {
+    const variable = variables[path];
+    if (!variable) return [];
+
+    if (!StateChanges.isOperation(change)) {
+      const error = this.checkValue(path, variable, change);
+      return error ? [error] : [];
+    }
+
+    const errors: string[] = [];
+    const requires = (operation: string, type: VariableType): void => {
+      if (operation in change && variable.type !== type) {
+        errors.push(
+          `Operation '${operation}' needs ${this.article(type)}, but '${path}' is ${this.article(variable.type)}`
+        );
+      }
+    };
+    ARITHMETIC_OPERATIONS.forEach((operation) => requires(operation, 'number'));
+    requires('push', 'array');
+    requires('remove', 'array');
+    requires('toggle', 'boolean');
+
+    for (const operation of ['set', 'setIfUnset'] as const) {
+      if (operation in change) {
+        const error = this.checkValue(path, variable, change[operation]);
+        if (error) errors.push(error);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Bring a state in line with its declarations: numbers outside their range
+   * are clamped to it
+   * @param state The game state
+   * @param variables The declared variables
+   * @param names The variables to check (default: every key of the state)
+   * @returns The enforced state, and a message for each value changed or of the wrong type
+   */
+  public static enforce(
+    state: Record<string, any>,
+    variables: Record<string, StoryVariable>,
+    names: Iterable<string> = Object.keys(state)
+  ): { state: Record<string, any>; messages: string[] } {
+    const enforced = { ...state };
+    const messages: string[] = [];
+
+    for (const name of names) {
+      const value = state[name];
+      if (value === undefined) continue;
+
+      const variable = variables[name];
+      if (!variable) {
+        messages.push(`State key '${name}' is not a declared variable`);
+        continue;
+      }
+
+      if (typeof value === 'number' && variable.type === 'number') {
+        if (!this.isInRange(variable, value)) {
+          enforced[name] = Math.min(variable.max ?? value, Math.max(variable.min ?? value, value));
+          messages.push(`'${name}' clamped from ${value} to ${enforced[name]}`);
+        }
+        continue;
+      }
+
+      const error = this.checkValue(name, variable, value);
+      if (error) messages.push(error);
+    }
+
+    return { state: enforced, messages };
+  }
+
+  private static article(type: VariableType): string {
+    return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+  }
+
+  private static isInRange(variable: StoryVariable, value: number): boolean {
+    return (
+      (variable.min === undefined || value >= variable.min) &&
+      (variable.max === undefined || value <= variable.max)
+    );
+  }
+
+  private static formatRange(variable: StoryVariable): string {
+    return `[${variable.min ?? '-∞'}, ${variable.max ?? '∞'}]`;
+  }
+}
@@ -0,0 +1,302 @@
+import { CompiledCondition, ScriptCompiler } from '../script/ScriptCompiler';
+import { ScriptError, ScriptOrigin } from '../script/ScriptError';
+import { StateChanges } from '../state/StateChanges';
+import { StoryCharacter } from './StoryData';
+
+/**
+ * What text is interpolated against
+ */
+export interface InterpolationContext {
+  state: Record<string, any>;
+  visitedNodes?: string[];
+  characters?: Record<string, StoryCharacter>;
+  locale?: string; // For the number formatter
+}
+
+/**
+ * The references a text makes, for validation
+ */
+export interface TextReferences {
+  stateKeys: string[]; // Top-level state keys read by `{...}` references
+  characters: string[]; // Character ids read by `{char.<id>...}` references
+  conditions: string[]; // Sources of `{if ...}` conditions
+}
+
+interface Formatter {
+  name: string;
+  args: string[];
+}
+
+type TemplatePart =
+  | string
+  | { ref: string; formatters: Formatter[]; source: string }
+  | { branches: Array<{ condition: CompiledCondition | null; parts: TemplatePart[] }> };
+
+type FormatterFunction = (value: any, args: string[], context: InterpolationContext) => string;
+
+const FORMATTERS: Record<string, FormatterFunction> = {
+  upper: (value) => String(value).toUpperCase(),
+  lower: (value) => String(value).toLowerCase(),
+  capitalize: (value) => String(value).charAt(0).toUpperCase() + String(value).slice(1),
+  number: (value, [decimals], context) =>
+    Number(value).toLocaleString(context.locale ?? 'en', {
+      minimumFractionDigits: decimals !== undefined ? Number(decimals) : 0,
+      maximumFractionDigits: decimals !== undefined ? Number(decimals) : 3
+    }),
+  // `plural:apple:apples` gives "1 apple" / "3 apples"; a `#` in a form places the count
+  plural: (value, [one, other = one], context) => {
+    const form = Number(value) === 1 ? one : other;
+    const count = Number(value).toLocaleString(context.locale ?? 'en');
+    return form.includes('#') ? form.replace(/#/g, count) : `${count} ${form}`;
+  },
+  default: (value, [fallback = '']) =>
+    value === undefined || value === null || value === '' ? fallback : String(value)
+};
+
+const FORMATTER_ARITY: Record<string, [number, number]> = {
+  upper: [0, 0],
+  lower: [0, 0],
+  capitalize: [0, 0],
+  number: [0, 1],
+  plural: [1, 2],
+  default: [1, 1]
+};
+
+const REFERENCE_PATTERN = /^[A-Za-z_][\w]*(\.[A-Za-z_][\w]*)*$/;
+
+/**
+ * Resolves references in dialogue and choice text at display time:
+ *
+ * - `{playerName}` or `{state.inventory.keys}`: a state value
+ * - `{char.guide}` or `{char.guide.textColor}`: a character's display name or field
+ * - `{gold | number}`, `{name | upper}`, `{apples | plural:apple:apples}`,
+ *   `{title | default:friend}`: formatters, applied left to right
+ * - `{if hasMap}...{elseif courage > 2}...{else}...{/if}`: conditional fragments
+ * - `{{` and `}}`: literal braces
+ *
+ * References that cannot be resolved are left as written.
+ */
+export class TextInterpolator {
+  private static cache = new Map<string, TemplatePart[]>();
+
+  /**
+   * Resolve every reference in a text
+   * @param text The text as written in the story
+   * @param context State and characters to resolve against
+   */
+  public static interpolate(text: string, context: InterpolationContext): string {
+    if (!text.includes('{') && !text.includes('}')) return text;
+
+    let parts = this.cache.get(text);
+    if (!parts) {
+      try {
+        parts = this.parse(text);
+      } catch (error) {
+        console.warn(`Cannot interpolate text: ${(error as Error).message}`);
+        parts = [text];
+      }
+      this.cache.set(text, parts);
+    }
+
+    return this.render(parts, context);
+  }
+
+  /**
+   * Check a text's syntax and list what it refers to
+   * @param text The text as written in the story
+   * @param origin Node/field the text belongs to, for error messages
+   * @throws ScriptError if the text is malformed, with the offset into the text
+   */
+  public static getReferences(text: string, origin: ScriptOrigin = {}): TextReferences {
+    let parts: TemplatePart[];
+    try {
+      parts = this.parse(text);
+    } catch (error) {
+      throw error instanceof ScriptError ? error.withOrigin(origin) : error;
+    }
+
+    const references: TextReferences = { stateKeys: [], characters: [], conditions: [] };
+    const collect = (list: TemplatePart[]): void => {
+      for (const part of list) {
+        if (typeof part === 'string') continue;
+        if ('ref' in part) {
+          const [root, ...rest] = part.ref.split('.');
+          if (root === 'char') references.characters.push(rest[0]);
+          else references.stateKeys.push(root === 'state' ? rest[0] : root);
+        } else {
+          for (const branch of part.branches) {
+            if (branch.condition) references.conditions.push(branch.condition.source);
+            collect(branch.parts);
+          }
+        }
+      }
+    };
+    collect(parts);
+
+    return references;
+  }
+
+  /**
+   * Split a text into literal and interpolated parts
+   */
+  private static parse(text: string): TemplatePart[] {
+    const root: TemplatePart[] = [];
+    // Open `{if}` blocks, innermost last
+    const stack: Array<{
+      branches: Array<{ condition: CompiledCondition | null; parts: TemplatePart[] }>;
+      offset: number;
+    }> = [];
+    const current = (): TemplatePart[] =>
+      stack.length > 0 ? stack[stack.length - 1].branches.slice(-1)[0].parts : root;
+    const pushText = (value: string): void => {
+      const parts = current();
+      if (typeof parts[parts.length - 1] === 'string') {
+        parts[parts.length - 1] += value;
+      } else {
+        parts.push(value);
+      }
+    };
+    const compileCondition = (source: string, offset: number): CompiledCondition => {
+      try {
+        return ScriptCompiler.compileCondition(source);
+      } catch (error) {
+        if (!(error instanceof ScriptError)) throw error;
+        throw new ScriptError(error.reason, text, offset + error.offset);
+      }
+    };
+
+    let index = 0;
+    while (index < text.length) {
+      const char = text[index];
+      if ((char === '{' || char === '}') && text[index + 1] === char) {
+        pushText(char);
+        index += 2;
+        continue;
+      }
+      if (char === '}') {
+        throw new ScriptError("Unexpected '}'; write '}}' for a literal brace", text, index);
+      }
+      if (char !== '{') {
+        pushText(char);
+        index++;
+        continue;
+      }
+
+      const end = text.indexOf('}', index);
+      if (end === -1) {
+        throw new ScriptError("Unclosed '{'; write '{{' for a literal brace", text, index);
+      }
+      const inner = text.slice(index + 1, end);
+      const innerOffset = index + 1 + (inner.length - inner.trimStart().length);
+      const tag = inner.trim();
+
+      const keyword = /^(if|elseif)\s+(.+)$/.exec(tag);
+      if (keyword) {
+        const conditionOffset = innerOffset + tag.indexOf(keyword[2]);
+        const condition = compileCondition(keyword[2], conditionOffset);
+        if (keyword[1] === 'if') {
+          const block = { branches: [{ condition, parts: [] }], offset: index };
+          current().push({ branches: block.branches });
+          stack.push(block);
+        } else {
+          const block = stack[stack.length - 1];
+          if (!block || block.branches.slice(-1)[0].condition === null) {
+            throw new ScriptError("'{elseif}' without an open '{if}'", text, index);
+          }
+          block.branches.push({ condition, parts: [] });
+        }
+      } else if (tag === 'else') {
+        const block = stack[stack.length - 1];
+        if (!block || block.branches.slice(-1)[0].condition === null) {
+          throw new ScriptError("'{else}' without an open '{if}'", text, index);
+        }
+        block.branches.push({ condition: null, parts: [] });
+      } else if (tag === '/if') {
+        if (!stack.pop()) {
+          throw new ScriptError("'{/if}' without an open '{if}'", text, index);
+        }
+      } else {
+        current().push(this.parseReference(tag, text, innerOffset));
+      }
+
+      index = end + 1;
+    }
+
+    if (stack.length > 0) {
+      throw new ScriptError("'{if}' is never closed with '{/if}'", text, stack.pop()!.offset);
+    }
+
+    return root;
+  }
+
+  /**
+   * Parse `path | formatter:arg:arg | ...`
+   */
+  private static parseReference(source: string, text: string, offset: number): TemplatePart {
+    const [ref, ...pipes] = source.split('|').map((piece) => piece.trim());
+    if (!REFERENCE_PATTERN.test(ref) || ref === 'state' || ref === 'char') {
+      throw new ScriptError(`Invalid reference '${ref}'`, text, offset);
+    }
+
+    const formatters = pipes.map((pipe): Formatter => {
+      const [name, ...args] = pipe.split(':').map((piece) => piece.trim());
+      // Own entries only, so `toString` or `constructor` are not formatters
+      if (!Object.prototype.hasOwnProperty.call(FORMATTER_ARITY, name)) {
+        throw new ScriptError(
+          `Unknown formatter '${name}'; use ${Object.keys(FORMATTERS).join(', ')}`,
+          text,
+          offset
+        );
+      }
+      const arity = FORMATTER_ARITY[name];
+      if (args.length < arity[0] || args.length > arity[1]) {
+        throw new ScriptError(
+          `Formatter '${name}' takes ${arity.join(' to ')} arguments`,
+          text,
+          offset
+        );
+      }
+      return { name, args };
+    });
+
+    return { ref, formatters, source };
+  }
+
+  private static render(parts: TemplatePart[], context: InterpolationContext): string {
+    return parts
+      .map((part) => {
+        if (typeof part === 'string') return part;
+
+        if ('branches' in part) {
+          const branch = part.branches.find(
+            ({ condition }) =>
+              !condition ||
+              condition.evaluate({ state: context.state, visitedNodes: context.visitedNodes ?? [] })
+          );
+          return branch ? this.render(branch.parts, context) : '';
+        }
+
+        let value = this.resolve(part.ref, context);
+        const hasDefault = part.formatters.some((formatter) => formatter.name === 'default');
+        if (value === undefined && !hasDefault) return `{${part.source}}`;
+
+        for (const { name, args } of part.formatters) {
+          value = FORMATTERS[name](value, args, context);
+        }
+        return value === null || value === undefined ? '' : String(value);
+      })
+      .join('');
+  }
+
+  private static resolve(ref: string, context: InterpolationContext): any {
+    const [root, ...rest] = ref.split('.');
+    if (root === 'char') {
+      const character = context.characters?.[rest[0]];
+      if (!character) return undefined;
+      if (rest.length === 1) return character.displayName ?? character.name;
+      return StateChanges.get(character as unknown as Record<string, any>, rest.slice(1).join('.'));
+    }
+
+    return StateChanges.get(context.state, root === 'state' ? rest.join('.') : ref);
+  }
+}
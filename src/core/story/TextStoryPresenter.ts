@@ -0,0 +1,74 @@
+import { StoryChoice } from './StoryData';
+import { StoryNode } from './StoryNode';
+import { StoryRuntime } from './StoryRuntime';
+
+/**
+ * Presents a story runtime as plain text lines, e.g. for a terminal runner
+ * (`write` = console.log) or for transcripts in tests
+ */
+export class TextStoryPresenter {
+  private write: (line: string) => void;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(write: (line: string) => void) {
+    this.write = write;
+  }
+
+  /**
+   * Start presenting a runtime
+   * @param runtime The story runtime
+   */
+  public attach(runtime: StoryRuntime): void {
+    this.detach();
+
+    this.unsubscribers = [
+      runtime.on('node:enter', (node: StoryNode) => this.presentNode(runtime, node)),
+      runtime.on('choice:made', (choice: StoryChoice) =>
+        this.write(`> ${runtime.getChoiceText(choice)}`)
+      ),
+      runtime.on('choice:timeout', () => this.write('> (time ran out)'))
+    ];
+  }
+
+  /**
+   * Stop presenting the attached runtime
+   */
+  public detach(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  private presentNode(runtime: StoryRuntime, node: StoryNode): void {
+    switch (node.getType()) {
+      case 'scene':
+        if (node.getSceneId()) this.write(`[${node.getSceneId()}]`);
+        break;
+
+      case 'dialogue':
+      case 'choice': {
+        const text = runtime.getNodeText(node);
+        if (text) {
+          const characterId = node.getRawData().characterId ?? node.getCharacterId();
+          const name = (characterId && runtime.getCharacterName(characterId)) || characterId;
+          this.write(name && characterId !== 'narrator' ? `${name}: ${text}` : text);
+        }
+
+        if (node.getType() === 'choice') {
+          runtime
+            .getAvailableChoices(node)
+            .forEach((choice, index) =>
+              this.write(`  ${index + 1}. ${runtime.getChoiceText(choice)}`)
+            );
+          const timer = node.getTimer();
+          if (timer) this.write(`  (${timer.seconds}s to choose)`);
+        }
+        break;
+      }
+
+      case 'end':
+        if (node.getText()) this.write(runtime.getNodeText(node)!);
+        this.write('THE END');
+        break;
+    }
+  }
+}
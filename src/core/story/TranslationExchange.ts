@@ -0,0 +1,315 @@
+import { StoryAnalyzer } from './StoryAnalyzer';
+import { Story } from './StoryData';
+import { StoryLocalizer, StringTable } from './StoryLocalizer';
+
+/**
+ * One translatable string with what a translator needs to know about it
+ */
+export interface TranslationUnit {
+  key: string; // String table key, e.g. `nodes.intro.text`
+  source: string;
+  target?: string;
+  nodeId?: string;
+  speaker?: string; // Character ID of whoever says the line
+  previous?: string; // The line shown before this one
+}
+
+/**
+ * An entry of an imported file whose source no longer matches the story:
+ * `changed` if the story text was edited since export, `removed` if the key
+ * is gone. Stale translations are left out of the imported table.
+ */
+export interface StaleTranslation {
+  key: string;
+  reason: 'changed' | 'removed';
+  source: string; // The source text in the file
+  current?: string; // The source text in the story now
+}
+
+export interface TranslationImport {
+  table: StringTable;
+  untranslated: string[]; // Keys of the story with no translation in the file
+  stale: StaleTranslation[];
+}
+
+/**
+ * Exchanges story text with translators as XLIFF 2.0 or gettext PO files.
+ * Keys are the StoryLocalizer string table keys, so an imported file is
+ * ready to pass to `StoryRuntime.addStringTable`.
+ */
+export class TranslationExchange {
+  /**
+   * List every translatable string of a story with its context
+   * @param story The story data
+   * @param existing Translations to fill in as targets, if any
+   */
+  public static extract(story: Story, existing?: StringTable): TranslationUnit[] {
+    const strings = StoryLocalizer.extractTable(story).strings;
+    const previous = this.findPreviousLines(story);
+
+    return Object.entries(strings).map(([key, source]): TranslationUnit => {
+      const unit: TranslationUnit = { key, source };
+      const target = existing?.strings[key];
+      if (target !== undefined) unit.target = target;
+
+      const [kind, nodeId] = key.split('.');
+      if (kind === 'nodes') {
+        const node = story.nodes[nodeId];
+        const speaker = node.characterId ?? node.character;
+        unit.nodeId = nodeId;
+        if (speaker) unit.speaker = speaker;
+        // A choice follows its node's own line
+        const before = key.endsWith('.text') ? previous.get(nodeId) : node.text;
+        if (before) unit.previous = before;
+      }
+      return unit;
+    });
+  }
+
+  /**
+   * Write a story's strings as an XLIFF 2.0 document
+   * @param story The story data
+   * @param targetLocale The locale to translate into
+   * @param existing Translations to fill in as targets, if any
+   */
+  public static toXliff(story: Story, targetLocale: string, existing?: StringTable): string {
+    const units = this.extract(story, existing).map((unit) => {
+      const notes = [
+        unit.nodeId && `<note category="node">${this.escapeXml(unit.nodeId)}</note>`,
+        unit.speaker && `<note category="speaker">${this.escapeXml(unit.speaker)}</note>`,
+        unit.previous && `<note category="previous">${this.escapeXml(unit.previous)}</note>`
+      ].filter(Boolean);
+
+      return [
+        `    <unit id="${this.escapeXml(unit.key)}">`,
+        ...(notes.length > 0
+          ? ['      <notes>', ...notes.map((note) => `        ${note}`), '      </notes>']
+          : []),
+        '      <segment>',
+        `        <source>${this.escapeXml(unit.source)}</source>`,
+        ...(unit.target !== undefined
+          ? [`        <target>${this.escapeXml(unit.target)}</target>`]
+          : []),
+        '      </segment>',
+        '    </unit>'
+      ].join('\n');
+    });
+
+    const languages =
+      `srcLang="${this.escapeXml(story.locale ?? 'en')}" ` +
+      `trgLang="${this.escapeXml(targetLocale)}"`;
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" ${languages}>`,
+      `  <file id="${this.escapeXml(story.id)}">`,
+      ...units,
+      '  </file>',
+      '</xliff>',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * Write a story's strings as a gettext PO file. Each entry's `msgctxt` is
+   * its key, so identical lines in different places translate separately.
+   * @param story The story data
+   * @param targetLocale The locale to translate into
+   * @param existing Translations to fill in as msgstr, if any
+   */
+  public static toPo(story: Story, targetLocale: string, existing?: StringTable): string {
+    const header = [
+      `# ${story.title}`,
+      'msgid ""',
+      'msgstr ""',
+      this.quotePo(`Language: ${targetLocale}\n`),
+      this.quotePo('Content-Type: text/plain; charset=UTF-8\n'),
+      this.quotePo(`X-Source-Language: ${story.locale ?? 'en'}\n`)
+    ];
+
+    const entries = this.extract(story, existing).map((unit) =>
+      [
+        ...(unit.speaker ? [`#. Speaker: ${unit.speaker}`] : []),
+        ...(unit.previous ? [`#. Previous: ${unit.previous.replace(/\n/g, ' ')}`] : []),
+        ...(unit.nodeId ? [`#: ${unit.nodeId}`] : []),
+        `msgctxt ${this.quotePo(unit.key)}`,
+        `msgid ${this.quotePo(unit.source)}`,
+        `msgstr ${this.quotePo(unit.target ?? '')}`
+      ].join('\n')
+    );
+
+    return [header.join('\n'), ...entries].join('\n\n') + '\n';
+  }
+
+  /**
+   * Read a translated XLIFF 2.0 document back into a string table
+   * @param xliff The XLIFF source
+   * @param story The story the file was exported from, to find stale entries
+   * @throws Error if the document has no target language
+   */
+  public static fromXliff(xliff: string, story: Story): TranslationImport {
+    const locale = /<xliff\b[^>]*\btrgLang="([^"]*)"/.exec(xliff)?.[1];
+    if (!locale) {
+      throw new Error('XLIFF document has no trgLang');
+    }
+
+    const units: TranslationUnit[] = [];
+    for (const [, id, body] of xliff.matchAll(
+      /<unit\b[^>]*\bid="([^"]*)"[^>]*>([\s\S]*?)<\/unit>/g
+    )) {
+      const source = /<source(?:\s[^>]*)?>([\s\S]*?)<\/source>/.exec(body)?.[1] ?? '';
+      const target = /<target(?:\s[^>]*)?>([\s\S]*?)<\/target>/.exec(body)?.[1];
+      units.push({
+        key: this.unescapeXml(id),
+        source: this.unescapeXml(source),
+        target: target !== undefined ? this.unescapeXml(target) : undefined
+      });
+    }
+
+    return this.importUnits(locale, units, story);
+  }
+
+  /**
+   * Read a translated PO file back into a string table. Fuzzy entries count
+   * as untranslated.
+   * @param po The PO source
+   * @param story The story the file was exported from, to find stale entries
+   * @throws Error if the file has no Language header
+   */
+  public static fromPo(po: string, story: Story): TranslationImport {
+    const entries = po
+      .split(/\r?\n\s*\r?\n/)
+      .map((block) => this.parsePoEntry(block))
+      .filter((entry) => entry.msgid !== undefined);
+
+    const header = entries.find((entry) => entry.msgid === '' && entry.msgctxt === undefined);
+    const locale = /^Language:\s*(.+)$/m.exec(header?.msgstr ?? '')?.[1].trim();
+    if (!locale) {
+      throw new Error('PO file has no Language header');
+    }
+
+    const units = entries
+      .filter((entry) => entry !== header && entry.msgctxt !== undefined)
+      .map(
+        (entry): TranslationUnit => ({
+          key: entry.msgctxt!,
+          source: entry.msgid!,
+          target: entry.msgstr && !entry.fuzzy ? entry.msgstr : undefined
+        })
+      );
+
+    return this.importUnits(locale, units, story);
+  }
+
+  /**
+   * Sort imported units into the table, untranslated keys and stale entries
+   */
+  private static importUnits(
+    locale: string,
+    units: TranslationUnit[],
+    story: Story
+  ): TranslationImport {
+    const current = StoryLocalizer.extractTable(story).strings;
+    const strings: Record<string, string> = {};
+    const stale: StaleTranslation[] = [];
+
+    for (const unit of units) {
+      if (current[unit.key] === undefined) {
+        stale.push({ key: unit.key, reason: 'removed', source: unit.source });
+      } else if (current[unit.key] !== unit.source) {
+        stale.push({
+          key: unit.key,
+          reason: 'changed',
+          source: unit.source,
+          current: current[unit.key]
+        });
+      } else if (unit.target) {
+        strings[unit.key] = unit.target;
+      }
+    }
+
+    return {
+      table: { locale, strings },
+      untranslated: Object.keys(current).filter((key) => strings[key] === undefined),
+      stale
+    };
+  }
+
+  /**
+   * The text of the first node with text leading into each node
+   */
+  private static findPreviousLines(story: Story): Map<string, string> {
+    const previous = new Map<string, string>();
+    for (const [nodeId, node] of Object.entries(story.nodes)) {
+      if (!node.text) continue;
+      for (const edge of StoryAnalyzer.getEdges(nodeId, node)) {
+        if (!previous.has(edge.to)) previous.set(edge.to, node.text);
+      }
+    }
+    return previous;
+  }
+
+  private static parsePoEntry(block: string): {
+    msgctxt?: string;
+    msgid?: string;
+    msgstr?: string;
+    fuzzy: boolean;
+  } {
+    const entry: Record<string, string> = {};
+    let field: string | undefined;
+    let fuzzy = false;
+
+    for (const line of block.split(/\r?\n/).map((text) => text.trim())) {
+      if (line.startsWith('#,') && line.includes('fuzzy')) fuzzy = true;
+      if (line.startsWith('#') || line === '') continue;
+
+      const keyword = /^(msgctxt|msgid|msgstr)\s+(".*")$/.exec(line);
+      if (keyword) {
+        field = keyword[1];
+        entry[field] = this.unquotePo(keyword[2]);
+      } else if (field && line.startsWith('"')) {
+        entry[field] += this.unquotePo(line);
+      }
+    }
+
+    return { ...entry, fuzzy };
+  }
+
+  private static quotePo(text: string): string {
+    const escaped = text
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\t/g, '\\t')
+      .replace(/\n/g, '\\n');
+    return `"${escaped}"`;
+  }
+
+  private static unquotePo(quoted: string): string {
+    const escapes: Record<string, string> = { n: '\n', t: '\t', '"': '"', '\\': '\\' };
+    return quoted.slice(1, -1).replace(/\\(.)/g, (match, char) => escapes[char] ?? match);
+  }
+
+  private static escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private static unescapeXml(text: string): string {
+    const entities: Record<string, string> = {
+      amp: '&',
+      lt: '<',
+      gt: '>',
+      quot: '"',
+      apos: "'"
+    };
+    return text.replace(/&(amp|lt|gt|quot|apos|#\d+|#x[0-9a-fA-F]+);/g, (_match, entity) => {
+      if (entity[0] !== '#') return entities[entity];
+      return String.fromCodePoint(
+        entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      );
+    });
+  }
+}
@@ -0,0 +1,671 @@
+import YAML from 'yaml';
+import { ScriptCompiler } from '../script/ScriptCompiler';
+import { StateChangeValue } from '../state/StateChanges';
+import { Story, StoryChoice, StoryNode } from './StoryData';
+import { StoryDiagnostic } from './StoryDiagnostic';
+import { SourceLocation, SourceMappedStory } from './StorySource';
+
+/**
+ * A passage of Twee source
+ */
+interface Passage {
+  name: string;
+  tags: string[];
+  body: string;
+  line: number; // Line of the `::` header
+}
+
+/**
+ * One `<<if>>` block being read; `previous` holds the conditions of earlier
+ * `<<if>>`/`<<elseif>>` clauses, which must all be false in later clauses
+ */
+interface IfBlock {
+  previous: string[];
+  current: string | null; // null for <<else>>
+  translatable: boolean;
+}
+
+/**
+ * The state changes made by `<<set>>`: plain values where possible, script
+ * statements once a value needs an expression
+ */
+interface SetResult {
+  stateChanges: Record<string, StateChangeValue>;
+  statements: string[];
+}
+
+const SPECIAL_PASSAGES = [
+  'StoryBanner',
+  'StoryCaption',
+  'StoryInterface',
+  'StoryMenu',
+  'StorySubtitle',
+  'PassageReady',
+  'PassageDone',
+  'PassageHeader',
+  'PassageFooter'
+];
+const SKIPPED_TAGS = ['script', 'stylesheet', 'widget', 'Twine.private'];
+
+// SugarCube operators and their equivalents in the story expression language
+const OPERATORS: Record<string, string> = {
+  to: '=',
+  is: '==',
+  isnot: '!=',
+  eq: '==',
+  neq: '!=',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  '&&': 'and',
+  '||': 'or',
+  '!': 'not',
+  '===': '==',
+  '!==': '!='
+};
+
+const TOKEN_PATTERN = /<<(\/?)([A-Za-z][\w-]*)\s*([\s\S]*?)>>|\[\[([^\]]*)(?:\]\[([^\]]*))?\]\]/g;
+
+/**
+ * Imports Twine stories written in Twee 3 with the SugarCube story format.
+ *
+ * Passages become nodes, `[[links]]` become choices, `<<set>>` becomes
+ * stateChanges (or an onEnter script when a value needs an expression) and
+ * `<<if>>` becomes choice conditions. `<<goto>>` becomes nextNode, or a branch
+ * when it sits inside `<<if>>`. Anything else is dropped with a warning.
+ */
+export class TweeImporter {
+  /**
+   * Convert Twee source into story data
+   * @param source The Twee 3 source
+   * @param file File name to attach to diagnostics
+   */
+  public static import(source: string, file?: string): SourceMappedStory {
+    const diagnostics: StoryDiagnostic[] = [];
+    const positions = new Map<string, number>();
+    const warn = (code: string, message: string, line: number, nodeId?: string): void => {
+      diagnostics.push({ severity: 'warning', code, message, nodeId, file, line, column: 1 });
+    };
+
+    const passages = this.parsePassages(source);
+    const story = { id: '', title: '', startNode: '', nodes: {} } as unknown as Story;
+
+    let start: string | undefined;
+    const storyPassages: Passage[] = [];
+    for (const passage of passages) {
+      if (passage.name === 'StoryTitle') {
+        story.title = passage.body.trim();
+      } else if (passage.name === 'StoryData') {
+        start = this.readStoryData(passage, warn);
+      } else if (passage.name === 'StoryAuthor') {
+        story.author = passage.body.trim();
+      } else if (passage.name === 'StoryInit') {
+        story.initialState = this.readStoryInit(passage, warn);
+      } else if (SPECIAL_PASSAGES.includes(passage.name)) {
+        warn(
+          'unsupported-passage',
+          `Special passage '${passage.name}' is not imported`,
+          passage.line
+        );
+      } else if (passage.tags.some((tag) => SKIPPED_TAGS.includes(tag))) {
+        warn('unsupported-passage', `Passage '${passage.name}' is not imported`, passage.line);
+      } else {
+        storyPassages.push(passage);
+      }
+    }
+
+    // Passage names may contain anything, so nodes get slugged ids
+    const ids = new Map<string, string>();
+    for (const passage of storyPassages) {
+      if (ids.has(passage.name)) {
+        warn('duplicate-passage', `Passage '${passage.name}' is defined twice`, passage.line);
+        continue;
+      }
+      let id = this.slug(passage.name) || 'passage';
+      for (let suffix = 2; [...ids.values()].includes(id); suffix++) {
+        id = `${this.slug(passage.name) || 'passage'}_${suffix}`;
+      }
+      ids.set(passage.name, id);
+    }
+    const idOf = (name: string): string => ids.get(name) ?? this.slug(name);
+
+    // Nodes the importer adds itself go after their passage's node
+    const added: StoryNode[] = [];
+    const addNode = (node: StoryNode): string => {
+      const taken = (id: string): boolean =>
+        [...ids.values()].includes(id) || !!story.nodes[id] || added.some((n) => n.id === id);
+      let id = node.id;
+      for (let suffix = 2; taken(id); suffix++) id = `${node.id}_${suffix}`;
+      added.push({ ...node, id });
+      return id;
+    };
+
+    for (const passage of storyPassages) {
+      const nodeId = ids.get(passage.name)!;
+      if (story.nodes[nodeId]) continue;
+
+      story.nodes[nodeId] = this.convertPassage(passage, nodeId, idOf, positions, addNode, warn);
+      positions.set(`nodes/${nodeId}`, passage.line);
+      for (const node of added.splice(0)) {
+        story.nodes[node.id] = node;
+        positions.set(`nodes/${node.id}`, passage.line);
+      }
+    }
+
+    story.title = story.title || 'Untitled';
+    story.id = this.slug(story.title) || 'story';
+    const startName =
+      start ?? (ids.has('Start') ? 'Start' : storyPassages[0] && storyPassages[0].name);
+    story.startNode = startName ? idOf(startName) : '';
+
+    const locate = (path: Array<string | number>): SourceLocation => {
+      for (let length = path.length; length > 0; length--) {
+        const line = positions.get(path.slice(0, length).join('/'));
+        if (line !== undefined) return { file, line, column: 1 };
+      }
+      return { file, line: 1, column: 1 };
+    };
+
+    return { story, diagnostics, locate };
+  }
+
+  /**
+   * Render imported story data as YAML, ready to be saved next to other stories
+   * @param story The story data
+   */
+  public static toYaml(story: Story): string {
+    return `# yaml-language-server: $schema=./story.schema.json\n${YAML.stringify(story)}`;
+  }
+
+  /**
+   * Split Twee source into passages
+   */
+  private static parsePassages(source: string): Passage[] {
+    const passages: Passage[] = [];
+    let current: Passage | null = null;
+    const body: string[] = [];
+
+    const finish = (): void => {
+      if (current) {
+        current.body = body.join('\n').replace(/\s+$/, '');
+        passages.push(current);
+      }
+      body.length = 0;
+    };
+
+    for (const [index, line] of source.split(/\r?\n/).entries()) {
+      const header = /^::\s*((?:\\.|[^[{\\])*?)\s*(?:\[([^\]]*)\])?\s*(?:\{.*\})?\s*$/.exec(line);
+      if (header) {
+        finish();
+        current = {
+          name: header[1].replace(/\\(.)/g, '$1'),
+          tags: header[2] ? header[2].split(/\s+/).filter(Boolean) : [],
+          body: '',
+          line: index + 1
+        };
+      } else if (current) {
+        body.push(line);
+      }
+    }
+    finish();
+
+    return passages;
+  }
+
+  /**
+   * Read the StoryData passage, returning the name of the start passage
+   */
+  private static readStoryData(
+    passage: Passage,
+    warn: (code: string, message: string, line: number) => void
+  ): string | undefined {
+    let data: any;
+    try {
+      data = JSON.parse(passage.body);
+    } catch {
+      warn('invalid-story-data', 'StoryData is not valid JSON', passage.line);
+      return undefined;
+    }
+
+    if (data.format && data.format !== 'SugarCube') {
+      warn(
+        'unsupported-format',
+        `Story format '${data.format}' is not SugarCube; only plain links are likely to import`,
+        passage.line
+      );
+    }
+    return typeof data.start === 'string' ? data.start : undefined;
+  }
+
+  /**
+   * Turn the `<<set>>`s of StoryInit into the initial state
+   */
+  private static readStoryInit(
+    passage: Passage,
+    warn: (code: string, message: string, line: number) => void
+  ): Record<string, any> {
+    const initialState: Record<string, any> = {};
+    for (const match of passage.body.matchAll(/<<set\s+([\s\S]*?)>>/g)) {
+      for (const assignment of this.splitTopLevel(match[1])) {
+        const parsed = this.parseAssignment(assignment);
+        if (parsed && parsed.operator === '=' && parsed.literal !== undefined) {
+          initialState[parsed.key] = parsed.literal.value;
+        } else {
+          warn(
+            'untranslated-macro',
+            `StoryInit can only set plain values: '<<set ${assignment.trim()}>>'`,
+            passage.line + this.lineOffset(passage.body, match.index ?? 0) + 1
+          );
+        }
+      }
+    }
+    return initialState;
+  }
+
+  /**
+   * Convert one passage into a node
+   */
+  private static convertPassage(
+    passage: Passage,
+    nodeId: string,
+    idOf: (name: string) => string,
+    positions: Map<string, number>,
+    addNode: (node: StoryNode) => string,
+    warn: (code: string, message: string, line: number, nodeId?: string) => void
+  ): StoryNode {
+    const text: string[] = [];
+    const choices: StoryChoice[] = [];
+    const gotos: Array<{ condition: string | null; target: string; line: number }> = [];
+    const sets: SetResult = { stateChanges: {}, statements: [] };
+    const blocks: IfBlock[] = [];
+    let droppedText = false;
+
+    const lineOf = (offset: number): number =>
+      passage.line + 1 + this.lineOffset(passage.body, offset);
+    const warnAt = (code: string, message: string, offset: number): void =>
+      warn(code, message, lineOf(offset), nodeId);
+
+    // The condition under which the current position is reached, or null if unconditional
+    const condition = (): string | null => {
+      const parts = blocks.flatMap((block) => [
+        ...block.previous.map((previous) => `not (${previous})`),
+        ...(block.current ? [block.current] : [])
+      ]);
+      if (parts.length < 2) return parts[0] ?? null;
+      return parts.map((part) => `(${part})`).join(' and ');
+    };
+    const translatable = (): boolean => blocks.every((block) => block.translatable);
+
+    let cursor = 0;
+    const body = passage.body;
+    TOKEN_PATTERN.lastIndex = 0;
+    for (let match = TOKEN_PATTERN.exec(body); match; match = TOKEN_PATTERN.exec(body)) {
+      const between = body.slice(cursor, match.index);
+      cursor = match.index + match[0].length;
+
+      if (between.trim()) {
+        if (blocks.length > 0) droppedText = true;
+        else text.push(between);
+      }
+
+      const [, closing, macro, argument, link, setter] = match;
+
+      // Links
+      if (link !== undefined) {
+        const { label, target } = this.parseLink(link);
+        const choice = {
+          id: this.uniqueChoiceId(label, choices),
+          text: label,
+          nextNode: idOf(target)
+        } as StoryChoice;
+        const guard = condition();
+        if (guard) choice.condition = guard;
+        if (!translatable()) {
+          warnAt(
+            'untranslated-macro',
+            `Link '${label}' kept without its <<if>> condition`,
+            match.index
+          );
+        }
+
+        if (setter) {
+          const changes: SetResult = { stateChanges: {}, statements: [] };
+          if (!this.translateSets(setter, changes) || changes.statements.length > 0) {
+            warnAt(
+              'untranslated-macro',
+              `Link setter '${setter}' needs an expression and was dropped`,
+              match.index
+            );
+          } else {
+            choice.stateChanges = changes.stateChanges;
+          }
+        }
+
+        positions.set(`nodes/${nodeId}/choices/${choices.length}`, lineOf(match.index));
+        choices.push(choice);
+        continue;
+      }
+
+      // Macros
+      switch (closing ? `/${macro}` : macro) {
+        case 'set': {
+          const guard = condition();
+          if (guard || !translatable()) {
+            // A conditional set has to become a script
+            const inner: SetResult = { stateChanges: {}, statements: [] };
+            if (guard && translatable() && this.translateSets(argument, inner, true)) {
+              sets.statements.push(`if (${guard}) { ${inner.statements.join('; ')} }`);
+            } else {
+              warnAt(
+                'untranslated-macro',
+                `Could not translate '<<set ${argument}>>'`,
+                match.index
+              );
+            }
+          } else if (!this.translateSets(argument, sets)) {
+            warnAt('untranslated-macro', `Could not translate '<<set ${argument}>>'`, match.index);
+          }
+          break;
+        }
+
+        case 'if':
+        case 'elseif': {
+          const translated = this.translateExpression(argument, 'condition');
+          if (!translated) {
+            warnAt(
+              'untranslated-macro',
+              `Could not translate condition '${argument}'`,
+              match.index
+            );
+          }
+          if (macro === 'if') {
+            blocks.push({ previous: [], current: translated, translatable: !!translated });
+          } else if (blocks.length > 0) {
+            const block = blocks[blocks.length - 1];
+            if (block.current) block.previous.push(block.current);
+            block.current = translated;
+            block.translatable = block.translatable && !!translated;
+          }
+          break;
+        }
+
+        case 'else': {
+          const block = blocks[blocks.length - 1];
+          if (block) {
+            if (block.current) block.previous.push(block.current);
+            block.current = null;
+          }
+          break;
+        }
+
+        case '/if':
+          blocks.pop();
+          break;
+
+        case 'goto': {
+          const target = /^(?:\[\[)?["']?(.*?)["']?(?:\]\])?$/.exec(argument.trim())![1];
+          gotos.push({ condition: condition(), target: idOf(target), line: lineOf(match.index) });
+          break;
+        }
+
+        default:
+          warnAt(
+            'unsupported-macro',
+            `Macro <<${macro}>> is not supported and was dropped`,
+            match.index
+          );
+      }
+    }
+
+    const rest = body.slice(cursor);
+    if (rest.trim()) {
+      if (blocks.length > 0) droppedText = true;
+      else text.push(rest);
+    }
+    if (droppedText) {
+      warn('untranslated-macro', 'Text inside <<if>> was dropped', passage.line, nodeId);
+    }
+
+    const nodeText = text
+      .join('')
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+    if (/\$[A-Za-z_]/.test(nodeText)) {
+      warn(
+        'untranslated-macro',
+        'Variables in the text are shown as written',
+        passage.line,
+        nodeId
+      );
+    }
+
+    const node = { id: nodeId } as StoryNode;
+    const conditionalGotos = gotos.filter((goto) => goto.condition);
+    const directGoto = gotos.find((goto) => !goto.condition);
+
+    if (choices.length > 0) {
+      Object.assign(node, { type: 'choice', characterId: 'narrator', text: nodeText, choices });
+      if (gotos.length > 0) {
+        warn('untranslated-macro', '<<goto>> next to links was dropped', passage.line, nodeId);
+      }
+    } else if (conditionalGotos.length > 0 || (directGoto && !nodeText)) {
+      // Logic-only passages become branches; an unconditional goto is the fallback
+      const cases = conditionalGotos.map((goto) => ({
+        condition: goto.condition!,
+        nextNode: goto.target
+      }));
+      // With no unconditional goto, an end node keeping the passage's text is the fallback
+      const fallback =
+        directGoto?.target ??
+        addNode({
+          id: `${nodeId}_end`,
+          type: 'end',
+          ...(nodeText && { text: nodeText })
+        } as StoryNode);
+      Object.assign(node, {
+        type: 'branch',
+        cases: cases.length > 0 ? cases : [{ condition: 'true', nextNode: directGoto!.target }],
+        else: fallback
+      });
+      if (!directGoto) {
+        warn(
+          'untranslated-macro',
+          'Branch has no unconditional <<goto>>, so the story ends when no case holds',
+          passage.line,
+          nodeId
+        );
+      }
+      if (nodeText && directGoto) {
+        warn(
+          'untranslated-macro',
+          'Text next to a conditional <<goto>> was dropped',
+          passage.line,
+          nodeId
+        );
+      }
+    } else if (directGoto) {
+      Object.assign(node, {
+        type: 'dialogue',
+        characterId: 'narrator',
+        text: nodeText,
+        nextNode: directGoto.target
+      });
+    } else {
+      Object.assign(node, { type: 'end', ...(nodeText && { text: nodeText }) });
+    }
+
+    if (passage.tags.length > 0) node.tags = passage.tags;
+    if (Object.keys(sets.stateChanges).length > 0) node.stateChanges = sets.stateChanges;
+    if (sets.statements.length > 0) node.onEnter = sets.statements.join('\n');
+
+    return node;
+  }
+
+  /**
+   * Add the assignments of a `<<set>>` to a node's changes. Values stay in
+   * stateChanges until one needs an expression; from then on every
+   * assignment is a script statement, so their order is kept.
+   * @returns false if any assignment could not be translated
+   */
+  private static translateSets(argument: string, sets: SetResult, scriptOnly = false): boolean {
+    let translated = true;
+    for (const assignment of this.splitTopLevel(argument)) {
+      const parsed = this.parseAssignment(assignment);
+      if (!parsed) {
+        translated = false;
+        continue;
+      }
+
+      const useScript = scriptOnly || sets.statements.length > 0;
+      if (!useScript && parsed.literal !== undefined) {
+        const value = parsed.literal.value as StateChangeValue;
+        if (parsed.operator === '=') {
+          sets.stateChanges[parsed.key] = value;
+          continue;
+        }
+        if (typeof value === 'number' && (parsed.operator === '+=' || parsed.operator === '-=')) {
+          sets.stateChanges[parsed.key] = {
+            [parsed.operator === '+=' ? 'increment' : 'decrement']: value
+          };
+          continue;
+        }
+      }
+
+      const statement = this.translateExpression(
+        `$${parsed.key} ${parsed.operator} ${parsed.value}`,
+        'script'
+      );
+      if (statement) sets.statements.push(statement);
+      else translated = false;
+    }
+    return translated;
+  }
+
+  /**
+   * Parse `$name to value`, `$name = value` or `$name += value`
+   */
+  private static parseAssignment(assignment: string):
+    | {
+        key: string;
+        operator: '=' | '+=' | '-=' | '*=' | '/=';
+        value: string;
+        literal?: { value: unknown };
+      }
+    | undefined {
+    const match = /^\s*\$([A-Za-z_][\w.]*)\s*(to|=|\+=|-=|\*=|\/=)\s*([\s\S]+?)\s*$/.exec(
+      assignment
+    );
+    if (!match) return undefined;
+
+    const [, key, operator, value] = match;
+    return {
+      key,
+      operator: operator === 'to' ? '=' : (operator as '=' | '+=' | '-=' | '*=' | '/='),
+      value,
+      literal: this.parseLiteral(value)
+    };
+  }
+
+  private static parseLiteral(value: string): { value: unknown } | undefined {
+    if (/^-?\d+(\.\d+)?$/.test(value)) return { value: Number(value) };
+    if (value === 'true' || value === 'false') return { value: value === 'true' };
+    if (value === 'null') return { value: null };
+    const string = /^"((?:\\.|[^"\\])*)"$|^'((?:\\.|[^'\\])*)'$/.exec(value);
+    if (string) return { value: (string[1] ?? string[2]).replace(/\\(.)/g, '$1') };
+    return undefined;
+  }
+
+  /**
+   * Translate a SugarCube expression into the story expression language
+   * @returns The translation, or null if it uses anything the language lacks
+   */
+  private static translateExpression(source: string, kind: 'condition' | 'script'): string | null {
+    const tokens = source.match(
+      /"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|\$?[A-Za-z_][\w.]*|\d+(?:\.\d+)?|===|!==|[!=<>+\-*/]=|&&|\|\||\S/g
+    );
+    if (!tokens) return null;
+
+    const translated = tokens
+      .map((token) => {
+        if (token.startsWith('$')) return token.slice(1);
+        if (token.startsWith('_')) return '\u0000'; // Temporary variables have no equivalent
+        return OPERATORS[token] ?? (token === 'def' || token === 'ndef' ? '\u0000' : token);
+      })
+      .join(' ');
+    if (translated.includes('\u0000')) return null;
+
+    try {
+      if (kind === 'condition') ScriptCompiler.compileCondition(translated, {});
+      else ScriptCompiler.compileScript(translated, {});
+      return translated;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Parse the inside of `[[...]]`
+   */
+  private static parseLink(link: string): { label: string; target: string } {
+    const pipe = link.indexOf('|');
+    if (pipe >= 0) return { label: link.slice(0, pipe), target: link.slice(pipe + 1) };
+    const arrow = link.lastIndexOf('->');
+    if (arrow >= 0) return { label: link.slice(0, arrow), target: link.slice(arrow + 2) };
+    const back = link.indexOf('<-');
+    if (back >= 0) return { label: link.slice(back + 2), target: link.slice(0, back) };
+    return { label: link, target: link };
+  }
+
+  /**
+   * Split on commas that are not inside quotes or brackets
+   */
+  private static splitTopLevel(source: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let start = 0;
+
+    for (let index = 0; index < source.length; index++) {
+      const char = source[index];
+      if (quote) {
+        if (char === '\\') index++;
+        else if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if ('([{'.includes(char)) {
+        depth++;
+      } else if (')]}'.includes(char)) {
+        depth--;
+      } else if (char === ',' && depth === 0) {
+        parts.push(source.slice(start, index));
+        start = index + 1;
+      }
+    }
+    parts.push(source.slice(start));
+
+    return parts.filter((part) => part.trim());
+  }
+
+  private static lineOffset(text: string, offset: number): number {
+    return text.slice(0, offset).split('\n').length - 1;
+  }
+
+  private static slug(name: string): string {
+    return name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_|_$/g, '');
+  }
+
+  private static uniqueChoiceId(text: string, choices: StoryChoice[]): string {
+    const base = this.slug(text) || 'choice';
+    let id = base;
+    for (let suffix = 2; choices.some((choice) => choice.id === id); suffix++) {
+      id = `${base}_${suffix}`;
+    }
+    return id;
+  }
+}
@@ -5,6 +5,7 @@ import { AssetManager } from '../core/assets/Assetmanager';
 import { EventEmitter } from '../core/events/EventEmitter';
 import { StateManager } from '../core/state/StateManager';
 import { StoryManager } from '../core/story/StoryManager';
+import { StoryRollback } from '../core/story/StoryRollback';
 import { SceneManager } from '../game/scenes/SceneManager';
 import {
   CharacterConfig,
@@ -16,6 +17,7 @@ import { CharacterManager } from './characters/CharacterManager';
 import { CharacterStateManager } from './characters/CharacterStateManager';
 import { DialogueManager } from './dialogue/DialogueManager';
 import { LoadingManager } from './loading/LoadingManager';
+import { ErrorOverlay } from './ui/components/ErrorOverlay';
 
 export class Game extends EventEmitter {
   private app: PIXI.Application;
@@ -31,7 +33,9 @@ export class Game extends EventEmitter {
   public dialogueManager: DialogueManager;
   private storyManager: StoryManager;
   public characterStateManager: CharacterStateManager;
+  public storyRollback: StoryRollback<Record<string, CharacterState>>;
   private storyAnimator: StoryAnimator;
+  private errorOverlay: ErrorOverlay | null = null; // Created when the first error is shown
 
   constructor(
     options: {
@@ -39,6 +43,9 @@ export class Game extends EventEmitter {
       height?: number;
       backgroundColor?: number;
       containerId?: string;
+      rollbackDepth?: number; // Most lines the player can go back
+      allowRechoose?: boolean; // Whether rolled-back choices may be made differently
+      choiceTimeScale?: number; // Multiplies choice time limits; 0 turns timers off
     } = {}
   ) {
     super();
@@ -85,7 +92,20 @@ export class Game extends EventEmitter {
     this.characterStateManager = new CharacterStateManager(this.stateManager);
     this.storyAnimator = new StoryAnimator(this);
     this.storyManager = new StoryManager(this.sceneManager, this.storyAnimator);
-    this.dialogueManager = new DialogueManager(this, this.storyManager, this.storyAnimator);
+    this.storyRollback = new StoryRollback({
+      maxDepth: options.rollbackDepth,
+      allowRechoose: options.allowRechoose,
+      capture: () => JSON.parse(JSON.stringify(this.characterStateManager.exportForSave())),
+      restore: (states) => this.characterStateManager.loadFromSaveData(states)
+    });
+    this.storyRollback.attach(this.storyManager);
+    this.dialogueManager = new DialogueManager(
+      this,
+      this.storyManager,
+      this.storyAnimator,
+      this.storyRollback
+    );
+    this.dialogueManager.setChoiceTimeScale(options.choiceTimeScale ?? 1);
 
     this.connectAssetManagerToLoadingManager();
 
@@ -110,11 +130,7 @@ export class Game extends EventEmitter {
 
       // Add story progress info
       if (this.storyManager) {
-        saveData.storyProgress = {
-          currentNodeId: this.storyManager.getCurrentNode()?.getId(),
-          visitedNodes: this.storyManager.getVisitedNodes(),
-          completedBranches: this.storyManager.getCompletedBranches()
-        };
+        saveData.storyProgress = this.storyManager.getProgress();
       }
 
       // Take a screenshot if not provided
@@ -123,6 +139,15 @@ export class Game extends EventEmitter {
       }
     });
 
+    // Bring saves made with an older story up to date before they are restored
+    this.stateManager.addMigrator((saveData) => {
+      if (!saveData.storyProgress || !this.storyManager.getStory()) return [];
+
+      const result = this.storyManager.migrateProgress(saveData.storyProgress);
+      saveData.storyProgress = result.progress;
+      return result.changes;
+    });
+
     // When state is loaded, restore character states
     this.stateManager.on('state:load', (saveId, saveData) => {
       // Restore character states
@@ -132,11 +157,7 @@ export class Game extends EventEmitter {
 
       // Restore story progress
       if (saveData.storyProgress && this.storyManager) {
-        this.storyManager.loadProgress(
-          saveData.storyProgress.currentNodeId,
-          saveData.storyProgress.visitedNodes,
-          saveData.storyProgress.completedBranches
-        );
+        this.storyManager.restoreProgress(saveData.storyProgress);
       }
 
       // Emit game load event
@@ -235,8 +256,14 @@ export class Game extends EventEmitter {
     // Take a screenshot
     const screenshot = await this.stateManager.takeScreenshot(this.app);
 
-    // Save game state
-    return this.stateManager.saveGame(saveName, screenshot || undefined);
+    // Save game state; the save is written before 'state:save' listeners run,
+    // so pass what they would add
+    return this.stateManager.saveGame(
+      saveName,
+      screenshot || undefined,
+      this.characterStateManager.exportForSave(),
+      this.storyManager.getProgress()
+    );
   }
 
   /**
@@ -316,16 +343,20 @@ export class Game extends EventEmitter {
   /**
    * Load a story from file or data
    */
-  public async loadStory(source: string, type: 'yaml' | 'json' = 'yaml'): Promise<void> {
+  public async loadStory(
+    source: string,
+    type: 'yaml' | 'json' | 'script' | 'twee' = 'yaml'
+  ): Promise<void> {
     try {
-      // Load story file
-      const storyData = await this.assetManager.loadText(source);
-
-      // Parse story based on type
+      // Load and parse the story; YAML stories may include other files
       if (type === 'yaml') {
-        this.storyManager.loadFromYaml(storyData);
+        await this.storyManager.loadFromFile(source, (path) => this.assetManager.loadText(path));
+      } else if (type === 'script') {
+        this.storyManager.loadFromScript(await this.assetManager.loadText(source));
+      } else if (type === 'twee') {
+        this.storyManager.loadFromTwee(await this.assetManager.loadText(source));
       } else {
-        this.storyManager.loadFromJson(storyData);
+        this.storyManager.loadFromJson(await this.assetManager.loadText(source));
       }
 
       // Start story
@@ -338,6 +369,76 @@ export class Game extends EventEmitter {
     }
   }
 
+  /**
+   * Re-read an edited YAML story and swap it in without losing the player's
+   * place. Errors in the edit are shown over the game and the story in play
+   * is kept until a later reload succeeds.
+   * @param source Path of the main story file
+   */
+  public async reloadStory(source: string): Promise<void> {
+    try {
+      const dropped = await this.storyManager.reloadFromFile(source, (path) =>
+        this.assetManager.loadText(path)
+      );
+      if (dropped.length > 0) {
+        this.showError(dropped.join('\n'), `Reloaded ${source} with calls dropped`);
+      } else {
+        this.errorOverlay?.hide();
+      }
+    } catch (error) {
+      console.error('Failed to reload story:', error);
+      this.showError((error as Error).message ?? String(error), `Could not reload ${source}`);
+    }
+  }
+
+  /**
+   * Check if an error is shown over the game
+   */
+  public isErrorShown(): boolean {
+    return this.errorOverlay?.isComponentVisible() ?? false;
+  }
+
+  /**
+   * Show an error over the game until it is clicked away
+   * @param message The error text
+   * @param title Heading above the message
+   */
+  public showError(message: string, title?: string): void {
+    if (!this.errorOverlay) {
+      const { width, height } = this.app.screen;
+      this.errorOverlay = new ErrorOverlay({ width, height });
+      this.on('game:resize', (w: number, h: number) => this.errorOverlay!.resize(w, h));
+    }
+
+    // Keep the overlay above anything added since
+    this.app.stage.addChild(this.errorOverlay.getContainer());
+    this.errorOverlay.show(message, title);
+  }
+
+  /**
+   * Load a YAML or JSON string table for the story
+   * @param source Path to the string table
+   */
+  public async loadStringTable(source: string): Promise<void> {
+    this.storyManager.addStringTable(await this.assetManager.loadText(source));
+  }
+
+  /**
+   * Switch the locale story text is shown in; text on screen is re-rendered
+   * @param locale The locale, e.g. 'fr'
+   */
+  public setLocale(locale: string): void {
+    this.storyManager.setLocale(locale);
+  }
+
+  /**
+   * Give the player more or less time for timed choices, or none at all
+   * @param scale Multiplier of each choice's time limit; 0 turns timers off
+   */
+  public setChoiceTimeScale(scale: number): void {
+    this.dialogueManager.setChoiceTimeScale(scale);
+  }
+
   /**
    * Add a character to the game
    */
@@ -9,6 +9,7 @@ export class ChoiceSystem extends EventEmitter {
   private container: PIXI.Container;
   private choices: StoryChoice[] = [];
   private choiceButtons: PIXI.Container[] = [];
+  private disabledIds: Set<string> = new Set(); // Choices shown greyed out
 
   private width: number;
   private padding: number = 15;
@@ -24,6 +25,19 @@ export class ChoiceSystem extends EventEmitter {
   private buttonSelectedColor: number = 0x888888;
   private currentAnimation: gsap.core.Timeline | null = null;
 
+  // Gives the text shown for a choice, e.g. translated with references resolved
+  private formatChoice: (choice: StoryChoice) => string;
+
+  // Countdown for timed choices, in milliseconds; it only runs while the game
+  // updates, so pausing the game pauses it
+  private timerBar: PIXI.Graphics | null = null;
+  private timeLimit: number = 0;
+  private timeLeft: number = 0;
+  private timerPaused: boolean = false;
+  private timerBarColor: number = 0xdddddd;
+  private timerWarningColor: number = 0xe74c3c;
+  private unsubscribeUpdate: () => void;
+
   constructor(
     game: Game,
     options: {
@@ -35,6 +49,7 @@ export class ChoiceSystem extends EventEmitter {
       buttonHoverColor?: number;
       buttonSelectedColor?: number;
       buttonTextColor?: number;
+      formatChoice?: (choice: StoryChoice) => string;
     } = {}
   ) {
     super();
@@ -52,6 +67,8 @@ export class ChoiceSystem extends EventEmitter {
     this.buttonHoverColor = options.buttonHoverColor || 0x666666;
     this.buttonSelectedColor = options.buttonSelectedColor || 0x888888;
 
+    this.formatChoice = options.formatChoice || ((choice) => choice.text);
+
     // Create container
     this.container = new PIXI.Container();
     this.container.visible = false;
@@ -71,6 +88,10 @@ export class ChoiceSystem extends EventEmitter {
 
     // Setup keyboard navigation
     this.setupKeyboardNavigation();
+
+    this.unsubscribeUpdate = game.on('game:update', (_delta: number, elapsed: number) =>
+      this.updateTimer(elapsed)
+    );
   }
 
   /**
@@ -103,15 +124,18 @@ export class ChoiceSystem extends EventEmitter {
   private navigateChoices(direction: number): void {
     if (this.choices.length === 0) return;
 
-    // Update selected index
-    let newIndex = this.selectedIndex + direction;
+    if (this.choices.every((choice) => this.isDisabled(choice))) return;
 
-    // Wrap around
-    if (newIndex < 0) {
-      newIndex = this.choices.length - 1;
-    } else if (newIndex >= this.choices.length) {
-      newIndex = 0;
-    }
+    // Update selected index, wrapping around and skipping disabled choices
+    let newIndex = this.selectedIndex;
+    do {
+      newIndex += direction;
+      if (newIndex < 0) {
+        newIndex = this.choices.length - 1;
+      } else if (newIndex >= this.choices.length) {
+        newIndex = 0;
+      }
+    } while (this.isDisabled(this.choices[newIndex]));
 
     // Update selection with animation
     this.setSelectedIndex(newIndex);
@@ -171,10 +195,19 @@ export class ChoiceSystem extends EventEmitter {
    * Show choices with animation
    * @param choices Array of choices to display
    * @param animationType Type of animation for displaying choices
+   * @param timeLimit Seconds the player has to choose, if limited
+   * @param disabledIds IDs of choices to show greyed out, e.g. used up
    */
-  public show(choices: StoryChoice[], animationType: string = 'stagger'): void {
+  public show(
+    choices: StoryChoice[],
+    animationType: string = 'stagger',
+    timeLimit?: number,
+    disabledIds: string[] = []
+  ): void {
     this.choices = choices;
+    this.disabledIds = new Set(disabledIds);
     this.selectedIndex = -1;
+    this.stopTimer();
 
     // Clear any ongoing animations
     if (this.currentAnimation) {
@@ -188,6 +221,10 @@ export class ChoiceSystem extends EventEmitter {
     // Create new buttons
     this.createChoiceButtons();
 
+    if (timeLimit !== undefined && timeLimit > 0) {
+      this.startTimer(timeLimit);
+    }
+
     // Position container
     this.positionContainer();
 
@@ -312,12 +349,20 @@ export class ChoiceSystem extends EventEmitter {
       .endFill();
 
     // Create button text
-    const text = new PIXI.Text(choice.text, this.buttonTextStyle);
+    const text = new PIXI.Text(this.formatChoice(choice), this.buttonTextStyle);
     text.position.set(this.padding, (this.buttonHeight - text.height) / 2);
 
     // Add to button container
     button.addChild(background, text);
 
+    // Dim the contents, since entrance animations set the button's own alpha
+    if (this.isDisabled(choice)) {
+      background.alpha = 0.4;
+      text.alpha = 0.4;
+      button.eventMode = 'none';
+      return button;
+    }
+
     // Use eventMode instead of interactive
     button.eventMode = 'dynamic'; // 'dynamic' is equivalent to interactive = true
     button.cursor = 'pointer';
@@ -374,6 +419,72 @@ export class ChoiceSystem extends EventEmitter {
     return button;
   }
 
+  /**
+   * Start the countdown, with a bar below the buttons showing the time left
+   * @param seconds The time limit
+   */
+  private startTimer(seconds: number): void {
+    this.timeLimit = seconds * 1000;
+    this.timeLeft = this.timeLimit;
+    this.timerPaused = false;
+
+    this.timerBar = new PIXI.Graphics();
+    this.timerBar.position.y = this.container.height + this.spacing;
+    this.container.addChild(this.timerBar);
+    this.drawTimerBar();
+  }
+
+  private stopTimer(): void {
+    this.timeLimit = 0;
+    this.timerBar?.destroy();
+    this.timerBar = null;
+  }
+
+  /**
+   * Count down the shown choices' time limit; when it runs out the choices
+   * hide and `choice:timeout` is emitted
+   * @param elapsed Milliseconds since the last update
+   */
+  private updateTimer(elapsed: number): void {
+    if (this.timeLimit <= 0 || this.timerPaused || !this.container.visible) return;
+
+    this.timeLeft = Math.max(0, this.timeLeft - elapsed);
+    this.drawTimerBar();
+
+    if (this.timeLeft === 0) {
+      this.stopTimer();
+      this.animateChoicesOut(() => {
+        this.hide();
+        this.emit('choice:timeout');
+      });
+    }
+  }
+
+  private drawTimerBar(): void {
+    if (!this.timerBar) return;
+
+    const fraction = this.timeLeft / this.timeLimit;
+    this.timerBar
+      .clear()
+      .beginFill(fraction > 0.25 ? this.timerBarColor : this.timerWarningColor)
+      .drawRoundedRect(0, 0, this.width * fraction, 6, 3)
+      .endFill();
+  }
+
+  /**
+   * Hold the countdown, e.g. while a menu covers the choices
+   */
+  public pauseTimer(): void {
+    this.timerPaused = true;
+  }
+
+  /**
+   * Continue a held countdown
+   */
+  public resumeTimer(): void {
+    this.timerPaused = false;
+  }
+
   /**
    * Position the choices container
    */
@@ -391,12 +502,15 @@ export class ChoiceSystem extends EventEmitter {
    * @param index Choice index
    */
   public selectChoice(index: number): void {
-    if (index < 0 || index >= this.choices.length) return;
+    if (index < 0 || index >= this.choices.length || this.isDisabled(this.choices[index])) return;
 
     const choice = this.choices[index];
     const button = this.choiceButtons[index];
     const background = button.getChildAt(0) as PIXI.Graphics;
 
+    // Time can no longer run out once a choice is made
+    this.stopTimer();
+
     // Animate button selection
     gsap.to(background, {
       pixi: { tint: this.buttonSelectedColor },
@@ -458,11 +572,27 @@ export class ChoiceSystem extends EventEmitter {
    */
   public hide(): void {
     this.container.visible = false;
+    this.stopTimer();
 
     // Emit hide event
     this.emit('choices:hide');
   }
 
+  /**
+   * Re-render the shown choices' text in place, e.g. after a locale switch
+   */
+  public refreshText(): void {
+    this.choiceButtons.forEach((button, index) => {
+      const text = button.getChildAt(1) as PIXI.Text;
+      text.text = this.formatChoice(this.choices[index]);
+      text.position.y = (this.buttonHeight - text.height) / 2;
+    });
+  }
+
+  private isDisabled(choice: StoryChoice): boolean {
+    return this.disabledIds.has(choice.id);
+  }
+
   /**
    * Check if choices are currently visible
    */
@@ -492,6 +622,7 @@ export class ChoiceSystem extends EventEmitter {
       gsap.killTweensOf(button.getChildAt(0));
     });
 
+    this.unsubscribeUpdate();
     this.container.removeAllListeners();
     this.container.destroy({ children: true });
     this.clear(); // Clear all event listeners
@@ -464,6 +464,33 @@ export class DialogueBox extends EventEmitter {
     });
   }
 
+  /**
+   * Replace the shown text without replaying the entrance, e.g. after a
+   * locale switch. Typing in progress carries on with the new text.
+   * @param text The new text
+   * @param characterName The new character name, if any
+   */
+  public setText(text: string, characterName?: string): void {
+    this.textContent = text;
+    if (!this.isTyping) {
+      this.visibleText = text;
+      this.contentText.text = text;
+    } else if (!text.startsWith(this.visibleText)) {
+      this.visibleText = text.substring(0, this.visibleText.length);
+      this.contentText.text = this.visibleText;
+    }
+
+    if (characterName && this.nameBox.visible) {
+      this.nameText.text = characterName;
+      const nameBackground = this.nameBox.getChildAt(0) as PIXI.Graphics;
+      nameBackground.clear();
+      nameBackground
+        .beginFill(0x000000, 0.8)
+        .drawRoundedRect(0, 0, this.nameText.width + 20, 30, 5)
+        .endFill();
+    }
+  }
+
   /**
    * Check if dialogue is currently visible
    */
@@ -3,8 +3,11 @@ import * as PIXI from 'pixi.js';
 import { StoryAnimator } from '../../core/animations/StoryAnimator';
 import { EventEmitter } from '../../core/events/EventEmitter';
 import { StoryManager } from '../../core/story/StoryManager';
+import { StoryChoice } from '../../core/story/StoryData';
 import { StoryNode } from '../../core/story/StoryNode';
+import { StoryRollback } from '../../core/story/StoryRollback';
 import { CharacterActionGenerator } from '../characters/CharacterActionGenerator';
+import { CharacterState } from '../characters/CharacterData';
 import { Game } from '../Game';
 import { ChoiceSystem } from './ChoiceSystem';
 import { DialogueBox, DialogueDisplayOptions } from './DialogueBox';
@@ -20,12 +23,24 @@ export interface CharacterDefinition {
   mood?: Record<string, number | string>;
 }
 
+// Character states captured with each rollback entry
+type RollbackStates = Record<string, CharacterState>;
+
+// Wheel events less than this many ms apart are one gesture, which moves one line
+const WHEEL_GESTURE_GAP = 250;
+// How far a gesture must scroll, in pixels, to move a line
+const WHEEL_STEP = 50;
+// Pixels per line, for wheels that scroll by lines
+const WHEEL_LINE_HEIGHT = 40;
+
 export class DialogueManager extends EventEmitter {
   private game: Game;
   private storyManager: StoryManager;
   private dialogueBox: DialogueBox;
   private choiceSystem: ChoiceSystem;
   private animator: StoryAnimator;
+  private rollback?: StoryRollback<RollbackStates>;
+  private removeRollbackControls?: () => void;
 
   private characterActionGenerator: CharacterActionGenerator;
 
@@ -34,12 +49,19 @@ export class DialogueManager extends EventEmitter {
   private defaultAnimationIn: string = 'fadeIn';
   private defaultAnimationOut: string = 'fadeOut';
   private defaultChoiceAnimationIn: string = 'stagger';
-
-  constructor(game: Game, storyManager: StoryManager, animator?: StoryAnimator) {
+  private choiceTimeScale: number = 1; // Multiplies choice time limits; 0 turns them off
+
+  constructor(
+    game: Game,
+    storyManager: StoryManager,
+    animator?: StoryAnimator,
+    rollback?: StoryRollback<RollbackStates>
+  ) {
     super();
 
     this.game = game;
     this.storyManager = storyManager;
+    this.rollback = rollback;
     this.characterActionGenerator = new CharacterActionGenerator();
     this.animator = animator || new StoryAnimator(game);
 
@@ -47,7 +69,9 @@ export class DialogueManager extends EventEmitter {
     this.dialogueBox = new DialogueBox(game, { animator: this.animator });
 
     // Create choice system
-    this.choiceSystem = new ChoiceSystem(game);
+    this.choiceSystem = new ChoiceSystem(game, {
+      formatChoice: (choice) => this.storyManager.getChoiceText(choice)
+    });
 
     // Set up event listeners
     this.setupEventListeners();
@@ -72,6 +96,118 @@ export class DialogueManager extends EventEmitter {
 
     // Listen for choice events
     this.choiceSystem.on('choice:selected', this.handleChoiceSelected.bind(this));
+    this.choiceSystem.on('choice:timeout', this.handleChoiceTimeout.bind(this));
+
+    // Hold choice countdowns while the game is paused, e.g. in the menu
+    this.game.on('game:pause', () => this.choiceSystem.pauseTimer());
+    this.game.on('game:continue', () => this.choiceSystem.resumeTimer());
+
+    // Re-render shown text in the new locale
+    this.storyManager.on('locale:changed', this.handleLocaleChanged.bind(this));
+
+    // Re-present the current line from the edited story
+    this.storyManager.on('story:reloaded', (_story: unknown, node: StoryNode | null) => {
+      this.choiceSystem.hide();
+      if (node) this.handleNodeEnter(node);
+    });
+
+    // Re-present the line the player rolled back or forward to
+    if (this.rollback) {
+      this.setupRollbackControls(this.rollback);
+    }
+  }
+
+  /**
+   * Mouse wheel up or Page Up steps back a line; wheel down or Page Down steps
+   * forward. A wheel gesture moves one line however far it scrolls, so a
+   * trackpad swipe does not run through the whole history.
+   * @param rollback The rollback to drive
+   */
+  private setupRollbackControls(rollback: StoryRollback<RollbackStates>): void {
+    let scrolled = 0; // Pixels scrolled in the current gesture
+    let stepped = false; // Whether the current gesture has moved a line
+    let lastWheel = -Infinity;
+
+    const onWheel = (e: WheelEvent): void => {
+      if (e.timeStamp - lastWheel > WHEEL_GESTURE_GAP) {
+        scrolled = 0;
+        stepped = false;
+      }
+      lastWheel = e.timeStamp;
+      if (stepped || !this.acceptsRollbackInput()) return;
+
+      scrolled +=
+        e.deltaMode === WheelEvent.DOM_DELTA_PIXEL ? e.deltaY : e.deltaY * WHEEL_LINE_HEIGHT;
+      if (Math.abs(scrolled) < WHEEL_STEP) return;
+      stepped = true;
+      if (scrolled < 0) rollback.rollBack();
+      else rollback.rollForward();
+    };
+    const onKeyDown = (e: KeyboardEvent): void => {
+      if (e.repeat || !this.acceptsRollbackInput()) return;
+      if (e.key === 'PageUp') rollback.rollBack();
+      else if (e.key === 'PageDown') rollback.rollForward();
+    };
+
+    const offMoved = rollback.on('rollback:moved', (node: StoryNode | null) => {
+      this.choiceSystem.hide();
+      if (node) this.handleNodeEnter(node);
+    });
+    window.addEventListener('wheel', onWheel);
+    window.addEventListener('keydown', onKeyDown);
+
+    this.removeRollbackControls = () => {
+      offMoved();
+      window.removeEventListener('wheel', onWheel);
+      window.removeEventListener('keydown', onKeyDown);
+    };
+  }
+
+  /**
+   * Whether rollback input applies now: the dialogue is showing in the scene
+   * on screen, and no menu or error is over it
+   */
+  private acceptsRollbackInput(): boolean {
+    const scene = this.game.sceneManager.getCurrentScene();
+    return (
+      this.isDialogueActive &&
+      this.game.isGameRunning() &&
+      !this.game.isErrorShown() &&
+      scene !== null &&
+      this.dialogueBox.getContainer().parent === scene.getContainer()
+    );
+  }
+
+  /**
+   * Re-render the dialogue and choices on screen after a locale switch
+   */
+  private handleLocaleChanged(): void {
+    const node = this.storyManager.getCurrentNode();
+    if (!node) return;
+
+    if (this.dialogueBox.isVisible()) {
+      const text = this.storyManager.getNodeText(node);
+      const characterId = node.getCharacterId();
+      if (text) {
+        this.dialogueBox.setText(text, characterId && this.getCharacterName(characterId));
+      }
+    }
+    if (this.choiceSystem.isVisible()) {
+      this.choiceSystem.refreshText();
+    }
+  }
+
+  /**
+   * Get a registered character's name, translated when the story defines the character
+   * @param characterId Character ID
+   */
+  private getCharacterName(characterId: string): string | undefined {
+    const character = this.characters[characterId];
+    if (!character) return undefined;
+
+    return (
+      this.storyManager.getCharacterName(characterId) ?? (character.displayName || character.name)
+    );
   }
 
   /**
@@ -131,6 +267,11 @@ export class DialogueManager extends EventEmitter {
         break;
 
       case 'choice':
+        // The story moves on by itself from a node whose choices are used up
+        if (node.getNextNodeId() && this.storyManager.getAvailableChoices(node).length === 0) {
+          break;
+        }
+
         // For choice nodes, we might show dialogue first, then choices
         this.showDialogue(node, () => {
           this.showChoices(node);
@@ -266,7 +407,7 @@ export class DialogueManager extends EventEmitter {
    * @param onComplete Callback after dialogue is shown
    */
   private showDialogue(node: StoryNode, onComplete?: () => void): void {
-    const text = node.getText();
+    const text = this.storyManager.getNodeText(node);
     if (!text) {
       if (onComplete) onComplete();
       return;
@@ -283,7 +424,7 @@ export class DialogueManager extends EventEmitter {
 
     if (characterId && this.characters[characterId]) {
       const character = this.characters[characterId];
-      characterName = character.displayName || character.name;
+      characterName = this.getCharacterName(characterId);
 
       // Set character-specific display options
       displayOptions.textColor = character.textColor;
@@ -309,11 +450,13 @@ export class DialogueManager extends EventEmitter {
 
     // Handle any node-specific animation overrides from metadata
     const metadata = node.getMetadata() || {};
-    if (metadata.animation?.in) {
-      displayOptions.animationIn = metadata.animation.in;
+    const animationIn = metadata.animation?.in ?? metadata.animationIn;
+    if (animationIn) {
+      displayOptions.animationIn = animationIn;
     }
-    if (metadata.animation?.out) {
-      displayOptions.animationOut = metadata.animation.out;
+    const animationOut = metadata.animation?.out ?? metadata.animationOut;
+    if (animationOut) {
+      displayOptions.animationOut = animationOut;
     }
     if (metadata.textSpeed) {
       displayOptions.textSpeed = metadata.textSpeed;
@@ -361,7 +504,14 @@ export class DialogueManager extends EventEmitter {
    * @param node Node containing choices
    */
   private showChoices(node: StoryNode): void {
-    const availableChoices = node.getAvailableChoices(this.storyManager.getGameState());
+    // After a rollback without rechoosing, only the choice made before is offered
+    const fixedChoiceId = this.rollback?.getFixedChoiceId();
+    const shownChoices = this.storyManager
+      .getShownChoices(node)
+      .filter(({ choice }) => !fixedChoiceId || choice.id === fixedChoiceId);
+    const availableChoices = shownChoices
+      .filter(({ disabled }) => !disabled)
+      .map(({ choice }) => choice);
 
     if (availableChoices.length === 0) {
       console.warn('No available choices for this node!');
@@ -381,8 +531,20 @@ export class DialogueManager extends EventEmitter {
       }
     }
 
+    // A choice made before a rollback is not timed again
+    const timer = node.getTimer();
+    const timeLimit =
+      timer && !fixedChoiceId && this.choiceTimeScale > 0
+        ? timer.seconds * this.choiceTimeScale
+        : undefined;
+
     // Show the choices with animation
-    this.choiceSystem.show(availableChoices, choiceAnimation);
+    this.choiceSystem.show(
+      shownChoices.map(({ choice }) => choice),
+      choiceAnimation,
+      timeLimit,
+      shownChoices.filter(({ disabled }) => disabled).map(({ choice }) => choice.id)
+    );
 
     // Emit choices shown event
     this.emit('choices:shown', availableChoices);
@@ -397,7 +559,8 @@ export class DialogueManager extends EventEmitter {
 
     // Get node metadata for animation
     const metadata = currentNode.getMetadata() || {};
-    const animationOut = metadata.animation?.out || this.defaultAnimationOut;
+    const animationOut =
+      metadata.animation?.out || metadata.animationOut || this.defaultAnimationOut;
 
     // If in a choice node, show choices
     if (currentNode.getType() === 'choice') {
@@ -424,11 +587,36 @@ export class DialogueManager extends EventEmitter {
   /**
    * Handle choice selection
    * @param choice The selected choice
-   * @param index The index of the selected choice
    */
-  private handleChoiceSelected(choice: any, index: number): void {
+  private handleChoiceSelected(choice: StoryChoice): void {
+    // Shown choices may be filtered or disabled, so find the choice among the available ones
+    const availableIndex = this.storyManager
+      .getAvailableChoices()
+      .findIndex((available) => available.id === choice.id);
+
+    // The shown index would point at a different choice; offer the choices again instead
+    if (availableIndex < 0) {
+      const node = this.storyManager.getCurrentNode();
+      if (node?.getType() === 'choice') this.showChoices(node);
+      return;
+    }
+
+    setTimeout(() => {
+      this.storyManager.makeChoice(availableIndex);
+    }, 300); // Small delay after choice animation
+  }
+
+  /**
+   * Handle a timed choice running out
+   */
+  private handleChoiceTimeout(): void {
     setTimeout(() => {
-      this.storyManager.makeChoice(index);
+      try {
+        this.storyManager.timeOutChoice();
+      } catch (error) {
+        console.error('Failed to time out choice:', error);
+        this.game.showError((error as Error).message ?? String(error), 'Timed choice failed');
+      }
     }, 300); // Small delay after choice animation
   }
 
@@ -518,10 +706,20 @@ export class DialogueManager extends EventEmitter {
     this.dialogueBox.setTextSpeed(charsPerSecond);
   }
 
+  /**
+   * Set how long the player has for timed choices, e.g. from an accessibility
+   * setting. Applies from the next choices shown.
+   * @param scale Multiplier of each choice's time limit; 0 turns timers off
+   */
+  public setChoiceTimeScale(scale: number): void {
+    this.choiceTimeScale = Math.max(0, scale);
+  }
+
   /**
    * Clean up resources
    */
   public destroy(): void {
+    this.removeRollbackControls?.();
     this.dialogueBox.destroy();
     this.choiceSystem.destroy();
     this.clear(); // Clear all event listeners
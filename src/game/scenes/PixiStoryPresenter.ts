@@ -0,0 +1,130 @@
+import * as PIXI from 'pixi.js';
+import { AnimationPreset, StoryAnimator } from '../../core/animations/StoryAnimator';
+import { StoryNode } from '../../core/story/StoryNode';
+import { StoryRuntime } from '../../core/story/StoryRuntime';
+import { Scene } from './Scene';
+import { SceneManager } from './SceneManager';
+
+/**
+ * Presents a story runtime in the PIXI game: switches to registered scenes for
+ * scene nodes and plays node animations on the current scene's display objects
+ */
+export class PixiStoryPresenter {
+  private sceneManager: SceneManager;
+  private storyAnimator?: StoryAnimator;
+  private unsubscribe?: () => void;
+
+  constructor(sceneManager: SceneManager, storyAnimator?: StoryAnimator) {
+    this.sceneManager = sceneManager;
+    this.storyAnimator = storyAnimator;
+  }
+
+  /**
+   * Start presenting a runtime
+   * @param runtime The story runtime
+   */
+  public attach(runtime: StoryRuntime): void {
+    this.detach();
+
+    const unsubscribe = runtime.on('node:enter', (node: StoryNode) =>
+      this.handleNodeAnimations(node)
+    );
+    runtime.setScenePresenter((sceneId, transitionType) =>
+      this.presentScene(sceneId, transitionType)
+    );
+
+    this.unsubscribe = () => {
+      unsubscribe();
+      runtime.setScenePresenter(undefined);
+    };
+  }
+
+  /**
+   * Stop presenting the attached runtime
+   */
+  public detach(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+  }
+
+  /**
+   * Switch to the scene if it is registered
+   * @returns Whether the scene is shown
+   */
+  private presentScene(sceneId: string, transitionType: string): boolean {
+    if (!this.sceneManager.hasScene(sceneId)) return false;
+
+    // Use timeout to allow the current flow to complete
+    setTimeout(() => {
+      this.sceneManager.switchTo(sceneId, transitionType);
+    }, 0);
+    return true;
+  }
+
+  private handleNodeAnimations(node: StoryNode): void {
+    if (!this.storyAnimator || !node) return;
+
+    const animations = node.getAnimations();
+    if (!animations || animations.length === 0) return;
+
+    // Process each animation defined in the node
+    animations.forEach((animation) => {
+      const target = this.findTargetElement(animation.target);
+      if (!target) return;
+
+      // Apply the animation based on its type
+      if (typeof animation.type === 'string') {
+        if (this.storyAnimator?.applyPreset) {
+          this.storyAnimator.applyPreset(target, animation.type as AnimationPreset, {
+            duration: animation.duration,
+            delay: animation.delay,
+            ease: animation.ease,
+            scale: animation.scale,
+            distance: animation.distance
+          });
+        }
+      }
+
+      // Handle special animation cases
+      if (animation.cameraEffect && this.storyAnimator?.cameraEffect) {
+        const effect = animation.cameraEffect;
+        const sceneContainer = this.getSceneContainer();
+        if (sceneContainer) {
+          this.storyAnimator.cameraEffect(sceneContainer, effect.type, {
+            targetX: effect.targetX,
+            targetY: effect.targetY,
+            targetScale: effect.targetScale,
+            duration: animation.duration
+          });
+        }
+      }
+    });
+  }
+
+  // Find a display object in the current scene by name
+  private findTargetElement(targetId: string): PIXI.DisplayObject | null {
+    const sceneContainer = this.getSceneContainer();
+    if (!sceneContainer) return null;
+
+    const search = (container: PIXI.Container): PIXI.DisplayObject | null => {
+      for (const child of container.children) {
+        if (child.name === targetId) {
+          return child;
+        }
+        if (child instanceof PIXI.Container) {
+          const found = search(child);
+          if (found) return found;
+        }
+      }
+      return null;
+    };
+
+    return search(sceneContainer);
+  }
+
+  private getSceneContainer(): PIXI.Container | null {
+    const scene: Scene | null = this.sceneManager.getCurrentScene();
+    if (!scene) return null;
+    return scene.getContainer();
+  }
+}
@@ -0,0 +1,102 @@
+import * as PIXI from 'pixi.js';
+import { BaseComponent } from './BaseComponent';
+import { Panel } from './Panel';
+import { Text } from './Text';
+
+export interface ErrorOverlayOptions {
+  width: number;
+  height: number;
+  title?: string;
+}
+
+/**
+ * Covers the game with an error message, e.g. story errors found on a hot
+ * reload. The game behind it keeps running; clicking the overlay dismisses it.
+ */
+export class ErrorOverlay extends BaseComponent {
+  private backdrop: PIXI.Graphics;
+  private panel: Panel;
+  private titleText: Text;
+  private messageText: Text;
+  private options: ErrorOverlayOptions;
+
+  constructor(options: ErrorOverlayOptions) {
+    super();
+
+    this.options = { title: 'Error', ...options };
+
+    this.backdrop = new PIXI.Graphics();
+    this.backdrop.eventMode = 'static';
+    this.backdrop.on('pointerdown', () => this.hide());
+    this.container.addChild(this.backdrop);
+
+    this.panel = new Panel({
+      width: options.width * 0.8,
+      height: options.height * 0.8,
+      backgroundColor: 0x1a0000,
+      backgroundAlpha: 0.95,
+      borderColor: 0xe53935,
+      padding: 20
+    });
+    this.container.addChild(this.panel.getContainer());
+
+    const wrapWidth = options.width * 0.8 - 40;
+    this.titleText = new Text({
+      text: this.options.title!,
+      style: { fontFamily: 'Arial', fontSize: 24, fontWeight: 'bold', fill: 0xff8a80 }
+    });
+    this.messageText = new Text({
+      text: '',
+      maxWidth: wrapWidth,
+      style: {
+        fontFamily: 'Courier New',
+        fontSize: 16,
+        fill: 0xffffff,
+        wordWrap: true,
+        wordWrapWidth: wrapWidth
+      }
+    });
+    this.messageText.setPosition(0, 40);
+    this.panel.addContent(this.titleText).addContent(this.messageText);
+
+    this.resize(options.width, options.height);
+    this.setVisible(false);
+  }
+
+  /**
+   * Show a message, replacing the one shown
+   * @param message The error text; line breaks are kept
+   * @param title Heading above the message (default: the title option)
+   */
+  public show(message: string, title: string = this.options.title!): void {
+    this.titleText.setText(title);
+    this.messageText.setText(message);
+    this.setVisible(true);
+    this.emit('overlay:show', message);
+  }
+
+  public hide(): void {
+    if (!this.isVisible) return;
+    this.setVisible(false);
+    this.emit('overlay:hide');
+  }
+
+  /**
+   * Fit the overlay to the screen
+   * @param width Screen width
+   * @param height Screen height
+   */
+  public resize(width: number, height: number): void {
+    this.options.width = width;
+    this.options.height = height;
+
+    this.backdrop.clear().beginFill(0x000000, 0.6).drawRect(0, 0, width, height).endFill();
+    this.panel.setSize(width * 0.8, height * 0.8);
+    this.panel.setPosition(width * 0.1, height * 0.1);
+    this.messageText.setMaxWidth(width * 0.8 - 40);
+  }
+
+  public update(_delta: number): void {
+    // Nothing animates
+  }
+}
@@ -5,6 +5,8 @@ import { LoadingScene } from './game/scenes/LoadingScene';
 import { MainMenuScene } from './game/scenes/MainMenu';
 import { StoryScene } from './game/scenes/StoryScene';
 
+const STORY_PATH = 'assets/stories/story-grok.yaml';
+
 // Create game instance
 const game = new Game({
   width: window.innerWidth,
@@ -76,8 +78,9 @@ function queueAllLoadingOperations(): void {
   // 2. Queue story loading
   game.loadingManager.queue('story', async () => {
     try {
-      const storyData = await game.assetManager.loadText('assets/stories/story-grok.yaml');
-      game.getStoryManager().loadFromYaml(storyData);
+      await game
+        .getStoryManager()
+        .loadFromFile(STORY_PATH, (path) => game.assetManager.loadText(path));
     } catch (error) {
       console.error('Failed to load story:', error);
       throw error;
@@ -429,6 +432,11 @@ function setupEventListeners(): void {
 // Handle window load event
 window.addEventListener('load', init);
 
+// Swap in story edits pushed by the dev server (see vite.config.ts) without reloading the page
+if (import.meta.hot) {
+  import.meta.hot.on('story:changed', () => game.reloadStory(STORY_PATH));
+}
+
 // Handle window errors
 window.addEventListener('error', (event) => {
   console.error('Global error:', event);
@@ -0,0 +1,27 @@
+import { SeededRandom } from '../../../core/random/SeededRandom';
+
+describe('SeededRandom', () => {
+  test('should repeat a sequence from the same seed or a saved state', () => {
+    const first = new SeededRandom(42);
+    const sequence = [first.next(), first.next(), first.next()];
+
+    expect(new SeededRandom(42).next()).toBe(sequence[0]);
+    expect(new SeededRandom(43).next()).not.toBe(sequence[0]);
+    expect(sequence.every((value) => value >= 0 && value < 1)).toBe(true);
+
+    const resumed = new SeededRandom();
+    resumed.setState({ seed: 42, cursor: 1 });
+    expect([resumed.next(), resumed.next()]).toEqual(sequence.slice(1));
+    expect(resumed.getState()).toEqual({ seed: 42, cursor: 3 });
+  });
+
+  test('should pick by weight and skip outcomes without weight', () => {
+    const random = new SeededRandom(7);
+    const counts = [0, 0, 0];
+    for (let i = 0; i < 1000; i++) counts[random.pickWeighted([3, 0, 1])]++;
+
+    expect(counts[1]).toBe(0);
+    expect(counts[0]).toBeGreaterThan(counts[2] * 2);
+    expect(random.pickWeighted([0, 0])).toBe(-1);
+  });
+});
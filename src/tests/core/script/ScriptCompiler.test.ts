@@ -0,0 +1,76 @@
+import { ScriptCompiler } from '../../../core/script/ScriptCompiler';
+import { ScriptError } from '../../../core/script/ScriptError';
+
+describe('ScriptCompiler', () => {
+  test('should evaluate comparisons and boolean logic', () => {
+    const condition = ScriptCompiler.compileCondition(
+      "state.friendship >= 1 && (hasMap or timeOfDay == 'night')"
+    );
+
+    expect(condition.evaluate({ state: { friendship: 2, hasMap: true } })).toBe(true);
+    expect(condition.evaluate({ state: { friendship: 2, timeOfDay: 'night' } })).toBe(true);
+    expect(condition.evaluate({ state: { friendship: 0, hasMap: true } })).toBe(false);
+  });
+
+  test('should support helper functions', () => {
+    const condition = ScriptCompiler.compileCondition(
+      "visited('intro') && has(inventory, 'key') && len(inventory) == 2"
+    );
+
+    expect(
+      condition.evaluate({ state: { inventory: ['key', 'map'] }, visitedNodes: ['intro'] })
+    ).toBe(true);
+    expect(condition.evaluate({ state: { inventory: ['key', 'map'] }, visitedNodes: [] })).toBe(
+      false
+    );
+  });
+
+  test('should run assignments and if statements', () => {
+    const script = ScriptCompiler.compileScript(
+      'state.courage += 2; inventory.keys = 1\nif (courage > 1) { brave = true } else { brave = false }'
+    );
+    const state: Record<string, any> = { courage: 0 };
+
+    script.execute({ state });
+
+    expect(state).toEqual({ courage: 2, inventory: { keys: 1 }, brave: true });
+  });
+
+  test('should report syntax errors with node id and offset', () => {
+    expect.assertions(3);
+
+    try {
+      ScriptCompiler.compileCondition('state.friendship >= (1', {
+        nodeId: 'intro',
+        field: 'condition'
+      });
+    } catch (error) {
+      expect(error).toBeInstanceOf(ScriptError);
+      expect((error as ScriptError).offset).toBe(22);
+      expect((error as ScriptError).message).toContain("In condition of node 'intro'");
+    }
+  });
+
+  test('should reject unknown functions at compile time', () => {
+    expect(() => ScriptCompiler.compileCondition("alert('hi')")).toThrow(
+      "Unknown function 'alert'"
+    );
+    expect(() => ScriptCompiler.compileCondition('visited()')).toThrow('expects 1 argument');
+  });
+
+  test('should not treat Object.prototype methods as functions', () => {
+    for (const name of ['toString', 'constructor', 'valueOf', 'hasOwnProperty', '__proto__']) {
+      expect(() => ScriptCompiler.compileCondition(`${name}()`)).toThrow(
+        `Unknown function '${name}'`
+      );
+    }
+  });
+
+  test('should not expose prototypes or globals', () => {
+    expect(() => ScriptCompiler.compileCondition('state.constructor')).toThrow(ScriptError);
+    expect(ScriptCompiler.compileCondition("state['toString']").evaluate({ state: {} })).toBe(
+      false
+    );
+    expect(ScriptCompiler.compileCondition('window').evaluate({ state: {} })).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+import { StateChanges } from '../../../core/state/StateChanges';
+
+describe('StateChanges', () => {
+  test('should replace plain values and apply arithmetic operations', () => {
+    const { state, diff } = StateChanges.apply(
+      { friendship: 1, courage: 2, hasMap: false },
+      {
+        friendship: { increment: 2 },
+        courage: { multiply: 3, clamp: [0, 5] },
+        hasMap: true
+      }
+    );
+
+    expect(state).toEqual({ friendship: 3, courage: 5, hasMap: true });
+    expect(diff).toEqual([
+      { path: 'friendship', oldValue: 1, newValue: 3 },
+      { path: 'courage', oldValue: 2, newValue: 5 },
+      { path: 'hasMap', oldValue: false, newValue: true }
+    ]);
+  });
+
+  test('should handle nested paths, arrays, toggles and setIfUnset', () => {
+    const { state } = StateChanges.apply(
+      { items: ['map', 'rope'], lantern: false, name: 'Alex' },
+      {
+        'inventory.keys': { increment: 1 },
+        items: { remove: 'rope', push: 'crystal' },
+        lantern: { toggle: true },
+        name: { setIfUnset: 'Stranger' },
+        title: { setIfUnset: 'Wanderer' }
+      }
+    );
+
+    expect(state).toEqual({
+      items: ['map', 'crystal'],
+      lantern: true,
+      name: 'Alex',
+      title: 'Wanderer',
+      inventory: { keys: 1 }
+    });
+  });
+
+  test('should leave the input untouched and omit unchanged paths from the diff', () => {
+    const input = { friendship: 1, items: ['map'] };
+    const { diff } = StateChanges.apply(input, { friendship: 1, items: { push: 'key' } });
+
+    expect(input).toEqual({ friendship: 1, items: ['map'] });
+    expect(diff.map((entry) => entry.path)).toEqual(['items']);
+  });
+
+  test('should fail atomically on an invalid operation', () => {
+    expect(() =>
+      StateChanges.apply({ courage: 'high' }, { friendship: 1, courage: { increment: 1 } })
+    ).toThrow("Cannot apply arithmetic to 'courage'");
+  });
+
+  test('should report malformed operations', () => {
+    expect(
+      StateChanges.validate({
+        friendship: { increment: '2' as unknown as number },
+        courage: { clamp: [5, 0] },
+        wisdom: { increment: 1, grow: 2 } as never,
+        'a..b': 1
+      })
+    ).toEqual([
+      "Operation 'increment' for 'friendship' needs a number",
+      "Operation 'clamp' for 'courage' needs a [min, max] pair",
+      "Unknown operation 'grow' for 'wisdom'",
+      "Invalid state path 'a..b'"
+    ]);
+  });
+});
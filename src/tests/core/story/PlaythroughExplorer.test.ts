@@ -0,0 +1,160 @@
+import { PlaythroughExplorer } from '../../../core/story/PlaythroughExplorer';
+import { Story, StoryNode } from '../../../core/story/StoryData';
+
+const makeStory = (nodes: Record<string, Partial<StoryNode>>, initialState = {}): Story => ({
+  id: 'test',
+  title: 'Test',
+  startNode: 'start',
+  sceneIds: {},
+  initialState,
+  nodes: Object.fromEntries(
+    Object.entries(nodes).map(([id, node]) => [id, { id, sceneId: 'forest', ...node }])
+  ) as Record<string, StoryNode>
+});
+
+describe('PlaythroughExplorer', () => {
+  test('should find every ending with its shortest choices and final state', () => {
+    const story = makeStory(
+      {
+        start: { type: 'dialogue', characterId: 'guide', text: 'Hi', nextNode: 'ask' },
+        ask: {
+          type: 'choice',
+          characterId: 'guide',
+          text: 'Train or go?',
+          choices: [
+            {
+              id: 'train',
+              text: 'Train',
+              nextNode: 'ask',
+              stateChanges: { courage: { increment: 1 } }
+            },
+            { id: 'go', text: 'Go', nextNode: 'check' }
+          ]
+        },
+        check: {
+          type: 'branch',
+          cases: [{ condition: 'courage >= 2', nextNode: 'win' }],
+          else: 'lose'
+        },
+        win: { type: 'end' },
+        lose: { type: 'end' }
+      },
+      { courage: 0 }
+    );
+
+    const report = PlaythroughExplorer.explore(story, { maxNodeVisits: 5 });
+
+    expect(
+      report.endings.map(({ nodeId, choices, state }) => ({ nodeId, choices, state }))
+    ).toEqual([
+      {
+        nodeId: 'lose',
+        choices: [{ nodeId: 'ask', choiceId: 'go', text: 'Go' }],
+        state: { courage: 0 }
+      },
+      {
+        nodeId: 'win',
+        choices: [
+          { nodeId: 'ask', choiceId: 'train', text: 'Train' },
+          { nodeId: 'ask', choiceId: 'train', text: 'Train' },
+          { nodeId: 'ask', choiceId: 'go', text: 'Go' }
+        ],
+        state: { courage: 2 }
+      }
+    ]);
+    expect(report.endings[0].path).toEqual(['start', 'ask', 'check', 'lose']);
+    expect(report.unreachedEndings).toEqual([]);
+    expect(report.nodeCoverage).toEqual({ covered: 5, total: 5, percent: 100 });
+    expect(report.bounded).toBe(true);
+  });
+
+  test('should tell endings blocked by conditions from unlinked ones', () => {
+    const story = makeStory(
+      {
+        start: {
+          type: 'choice',
+          characterId: 'guide',
+          text: 'Pick',
+          choices: [
+            { id: 'plain', text: 'Plain', nextNode: 'plain' },
+            { id: 'secret', text: 'Secret', condition: 'hasKey', nextNode: 'secret' }
+          ]
+        },
+        plain: { type: 'end' },
+        secret: { type: 'end' },
+        orphan: { type: 'end' },
+        aside: { type: 'dialogue', characterId: 'guide', text: 'Hm', nextNode: 'plain' }
+      },
+      { hasKey: false }
+    );
+
+    const report = PlaythroughExplorer.explore(story);
+
+    expect(report.endings.map((ending) => ending.nodeId)).toEqual(['plain']);
+    expect(report.unreachedEndings).toEqual([
+      { nodeId: 'secret', reason: 'conditions' },
+      { nodeId: 'orphan', reason: 'no-path' }
+    ]);
+    expect(report.choiceCoverage).toEqual({ covered: 1, total: 2, percent: 50 });
+    expect(report.uncoveredChoices).toEqual(['start.secret']);
+    expect(report.uncoveredNodes).toEqual(['secret', 'orphan', 'aside']);
+    expect(report.bounded).toBe(false);
+    expect(PlaythroughExplorer.formatReport(report)).toContain('Choice coverage: 50.0% (1/2)');
+  });
+
+  test('should report paths that stop before an ending', () => {
+    const story = makeStory(
+      {
+        start: {
+          type: 'choice',
+          characterId: 'guide',
+          text: 'Pick',
+          choices: [
+            { id: 'wait', text: 'Wait', nextNode: 'locked', stateChanges: { tired: true } },
+            { id: 'leave', text: 'Leave', nextNode: 'end' }
+          ]
+        },
+        locked: {
+          type: 'choice',
+          characterId: 'guide',
+          text: 'Too tired',
+          choices: [{ id: 'go', text: 'Go', condition: 'not tired', nextNode: 'end' }]
+        },
+        end: { type: 'end' }
+      },
+      { tired: false }
+    );
+
+    const report = PlaythroughExplorer.explore(story);
+
+    expect(report.stuck).toEqual([
+      {
+        nodeId: 'locked',
+        message: 'No choice is available',
+        choices: [{ nodeId: 'start', choiceId: 'wait', text: 'Wait' }]
+      }
+    ]);
+    expect(report.uncoveredChoices).toEqual(['locked.go']);
+  });
+
+  test('should follow every weighted outcome of a random node', () => {
+    const story = makeStory({
+      start: {
+        type: 'random',
+        outcomes: [
+          { nextNode: 'storm', weight: 9 },
+          { nextNode: 'calm' },
+          { nextNode: 'never', weight: 0 }
+        ]
+      },
+      storm: { type: 'end' },
+      calm: { type: 'end' },
+      never: { type: 'end' }
+    });
+
+    const report = PlaythroughExplorer.explore(story);
+
+    expect(report.endings.map((ending) => ending.nodeId)).toEqual(['storm', 'calm']);
+    expect(report.unreachedEndings).toEqual([{ nodeId: 'never', reason: 'no-path' }]);
+  });
+});
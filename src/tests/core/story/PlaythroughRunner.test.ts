@@ -0,0 +1,97 @@
+import { PlaythroughRunner } from '../../../core/story/PlaythroughRunner';
+import { StoryParser } from '../../../core/story/StoryParser';
+
+const { story } = StoryParser.parseYaml(
+  [
+    'id: test',
+    'title: Test',
+    'startNode: ask',
+    'initialState: { gold: 0 }',
+    'nodes:',
+    '  ask:',
+    '    type: choice',
+    '    characterId: guide',
+    '    text: Which way?',
+    '    choices:',
+    '      - { id: dig, text: Dig, nextNode: found, stateChanges: { gold: { increment: 3 } } }',
+    '      - { id: rich, text: Buy, condition: gold > 5, nextNode: found }',
+    '  found: { type: dialogue, characterId: guide, text: Gold!, nextNode: done }',
+    '  done: { type: end }'
+  ].join('\n')
+);
+
+describe('PlaythroughRunner', () => {
+  test('should pass when every expectation holds', () => {
+    const result = PlaythroughRunner.run(story, {
+      steps: [
+        { expect: { node: 'ask', choices: ['dig'] } },
+        { choose: 'Dig' },
+        'progress',
+        { expect: { node: 'done', state: { gold: 3 }, visited: ['found'], condition: 'gold == 3' } }
+      ]
+    });
+
+    expect(result).toMatchObject({ passed: true, failures: [], nodeId: 'done' });
+  });
+
+  test('should report every mismatch of the first failing step', () => {
+    const result = PlaythroughRunner.run(story, {
+      name: 'Digging',
+      steps: [
+        { choose: 'dig' },
+        { expect: { node: 'done', state: { gold: 5 } } },
+        { expect: { node: 'never checked' } }
+      ]
+    });
+
+    expect(result.failures).toEqual([
+      { step: 2, action: 'expect', message: 'node differs', expected: 'done', received: 'found' },
+      { step: 2, action: 'expect', message: 'state.gold differs', expected: 5, received: 3 }
+    ]);
+    expect(PlaythroughRunner.formatResult(result)).toBe(
+      [
+        '✗ Digging',
+        '  step 2 (expect): node differs',
+        '    - Expected: "done"',
+        '    + Received: "found"',
+        '  step 2 (expect): state.gold differs',
+        '    - Expected: 5',
+        '    + Received: 3',
+        '  at node found with state {"gold":3}'
+      ].join('\n')
+    );
+  });
+
+  test('should fail on choices that are not available', () => {
+    const result = PlaythroughRunner.run(story, {
+      state: { gold: 1 },
+      steps: [{ choose: 'rich' }]
+    });
+
+    expect(result.failures).toEqual([
+      {
+        step: 1,
+        action: 'choose',
+        message: "Choice 'rich' is not available at ask; available: dig"
+      }
+    ]);
+  });
+
+  test('should reject malformed playthrough files', () => {
+    expect(() =>
+      PlaythroughRunner.parse(
+        [
+          'story: story.yaml',
+          'playthroughs:',
+          '  - steps: [{ chose: dig }, { progress: 0 }, { expect: { nod: x } }]'
+        ].join('\n')
+      )
+    ).toThrow(
+      [
+        "Playthrough 1: step 1: unknown step 'chose'; use choose, progress, set, expect",
+        'Playthrough 1: step 2: progress takes a positive count',
+        'Playthrough 1: step 3: unknown expectation nod; use node, state, choices, condition, visited'
+      ].join('\n')
+    );
+  });
+});
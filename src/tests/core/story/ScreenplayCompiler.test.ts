@@ -0,0 +1,139 @@
+import { StoryParser, StoryValidationError } from '../../../core/story/StoryParser';
+
+const screenplay = (...lines: string[]) => lines.join('\n');
+
+const parseErrors = (text: string) => {
+  try {
+    StoryParser.parseScreenplay(text, 'test.story');
+  } catch (error) {
+    return (error as StoryValidationError).diagnostics.map(({ code, line, column }) => ({
+      code,
+      line,
+      column
+    }));
+  }
+  throw new Error('Expected the screenplay to fail to load');
+};
+
+describe('ScreenplayCompiler', () => {
+  test('should compile lines, choices and jumps into linked nodes', () => {
+    const { story } = StoryParser.parseScreenplay(
+      screenplay(
+        "[title The Forest's Secret]",
+        '[scene forest_path guide:left:happy]',
+        '~ courage = 0',
+        'Guide (happy): Welcome, traveler.',
+        'Narrator: What will you do?',
+        '* Enter boldly -> enter',
+        '* {courage > 5} Fight the spirit -> enter',
+        '* Wait',
+        'The wind picks up.',
+        '-> enter',
+        '',
+        '== enter ==',
+        '// Both paths meet here',
+        'You step inside.',
+        '[end]'
+      )
+    );
+
+    expect(story.id).toBe('the_forest_s_secret');
+    expect(story.startNode).toBe('start_1');
+    expect(story.nodes).toEqual({
+      start_1: {
+        id: 'start_1',
+        type: 'scene',
+        sceneId: 'forest_path',
+        background: 'forest_path',
+        characters: [{ id: 'guide', position: 'left', expression: 'happy' }],
+        nextNode: 'start_2'
+      },
+      start_2: {
+        id: 'start_2',
+        type: 'dialogue',
+        characterId: 'guide',
+        text: 'Welcome, traveler.',
+        metadata: { emotion: 'happy' },
+        onEnter: 'courage = 0',
+        nextNode: 'start_3'
+      },
+      start_3: {
+        id: 'start_3',
+        type: 'choice',
+        characterId: 'narrator',
+        text: 'What will you do?',
+        choices: [
+          { id: 'enter_boldly', text: 'Enter boldly', nextNode: 'enter' },
+          {
+            id: 'fight_the_spirit',
+            text: 'Fight the spirit',
+            condition: 'courage > 5',
+            nextNode: 'enter'
+          },
+          { id: 'wait', text: 'Wait', nextNode: 'start_4' }
+        ]
+      },
+      start_4: {
+        id: 'start_4',
+        type: 'dialogue',
+        characterId: 'narrator',
+        text: 'The wind picks up.',
+        nextNode: 'enter'
+      },
+      enter: {
+        id: 'enter',
+        type: 'dialogue',
+        characterId: 'narrator',
+        text: 'You step inside.',
+        nextNode: 'enter_1'
+      },
+      enter_1: { id: 'enter_1', type: 'end' }
+    });
+  });
+
+  test('should turn guarded lines into branches', () => {
+    const { story } = StoryParser.parseScreenplay(
+      screenplay(
+        '[title Guards]',
+        '~ hasMap = true',
+        '{hasMap} -> shortcut',
+        '{not hasMap} Guide: You will need a map.',
+        '[end]',
+        '== shortcut ==',
+        '[end]'
+      )
+    );
+
+    expect(story.nodes.start_1).toMatchObject({
+      type: 'branch',
+      cases: [{ condition: 'hasMap', nextNode: 'shortcut' }],
+      else: 'start_2'
+    });
+    expect(story.nodes.start_2).toMatchObject({
+      type: 'branch',
+      cases: [{ condition: 'not hasMap', nextNode: 'start_3' }],
+      else: 'start_4'
+    });
+    expect(story.nodes.start_3.nextNode).toBe('start_4');
+  });
+
+  test('should report syntax errors with line and column', () => {
+    expect(
+      parseErrors(
+        screenplay('[title Broken]', 'Guide: Hi', '  * {courage > 1 Run -> run', '[fade]', '[end]')
+      )
+    ).toEqual([
+      { code: 'syntax', line: 3, column: 5 },
+      { code: 'syntax', line: 4, column: 1 }
+    ]);
+  });
+
+  test('should point validation errors at the screenplay line', () => {
+    expect(
+      parseErrors(screenplay('[title Links]', 'Guide: Hi', '* {courage >> 1} Go -> nowhere'))
+    ).toEqual([
+      { code: 'missing-node', line: 3, column: 24 },
+      { code: 'invalid-script', line: 3, column: 13 }
+    ]);
+  });
+});
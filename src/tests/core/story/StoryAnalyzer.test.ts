@@ -0,0 +1,143 @@
+import { StoryAnalyzer } from '../../../core/story/StoryAnalyzer';
+import { Story, StoryNode } from '../../../core/story/StoryData';
+
+const makeStory = (nodes: Record<string, Partial<StoryNode>>, initialState = {}): Story => ({
+  id: 'test',
+  title: 'Test',
+  startNode: 'start',
+  sceneIds: {},
+  initialState,
+  nodes: Object.fromEntries(
+    Object.entries(nodes).map(([id, node]) => [id, { id, sceneId: 'forest', ...node }])
+  ) as Record<string, StoryNode>
+});
+
+const codes = (story: Story) =>
+  StoryAnalyzer.analyze(story).map((diagnostic) => [diagnostic.code, diagnostic.nodeId]);
+
+describe('StoryAnalyzer', () => {
+  test('should report nothing for a well-formed story', () => {
+    const story = makeStory(
+      {
+        start: {
+          type: 'choice',
+          choices: [
+            { id: 'a', text: 'A', nextNode: 'check', stateChanges: { courage: { increment: 1 } } },
+            { id: 'b', text: 'B', nextNode: 'end' }
+          ]
+        },
+        check: { type: 'branch', condition: 'courage > 0', nextNode: 'end', elseNode: 'start' },
+        end: { type: 'end' }
+      },
+      { courage: 0 }
+    );
+
+    expect(StoryAnalyzer.analyze(story)).toEqual([]);
+  });
+
+  test('should report unreachable nodes, dead ends and missing targets', () => {
+    const story = makeStory({
+      start: { type: 'dialogue', nextNode: 'stuck' },
+      stuck: { type: 'dialogue' },
+      orphan: { type: 'dialogue', nextNode: 'ghost' }
+    });
+
+    expect(codes(story)).toEqual([
+      ['missing-node', 'orphan'],
+      ['unreachable-node', 'orphan'],
+      ['dead-end', 'stuck']
+    ]);
+  });
+
+  test('should report loops with no exit', () => {
+    const story = makeStory({
+      start: { type: 'dialogue', nextNode: 'a' },
+      a: { type: 'dialogue', nextNode: 'b' },
+      b: { type: 'dialogue', nextNode: 'a' }
+    });
+
+    const [diagnostic] = StoryAnalyzer.analyze(story);
+    expect(diagnostic.code).toBe('closed-cycle');
+    expect(diagnostic.message).toBe("Nodes 'a', 'b' form a loop with no exit");
+  });
+
+  test('should report fully conditional choices and branches without fallback', () => {
+    const story = makeStory(
+      {
+        start: {
+          type: 'choice',
+          choices: [{ id: 'a', text: 'A', nextNode: 'check', condition: 'hasMap' }]
+        },
+        check: { type: 'branch', cases: [{ condition: 'hasMap', nextNode: 'end' }] },
+        end: { type: 'end' }
+      },
+      { hasMap: false }
+    );
+
+    expect(codes(story)).toEqual([
+      ['all-choices-conditional', 'start'],
+      ['branch-without-fallback', 'check']
+    ]);
+  });
+
+  test('should report state keys that are read but never set', () => {
+    const story = makeStory(
+      {
+        start: {
+          type: 'choice',
+          onEnter: 'state.visits += 1',
+          choices: [
+            { id: 'a', text: 'A', nextNode: 'end', condition: 'state.frendship > 1 && visits > 0' },
+            { id: 'b', text: 'B', nextNode: 'end', stateChanges: { 'inventory.keys': 1 } }
+          ]
+        },
+        end: { type: 'end', condition: "has(inventory, 'keys')" }
+      },
+      { friendship: 0 }
+    );
+
+    const diagnostics = StoryAnalyzer.analyze(story);
+    expect(diagnostics).toEqual([
+      {
+        severity: 'warning',
+        code: 'unset-state-key',
+        nodeId: 'start',
+        message:
+          "State key 'frendship' is read in choice 'a' condition but never set in initialState or any stateChanges"
+      }
+    ]);
+  });
+
+  test('should check the references in dialogue and choice text', () => {
+    const story: Story = {
+      ...makeStory(
+        {
+          start: {
+            type: 'choice',
+            text: '{char.guide} counts {gold | number}. {if hasMap}Map!{/if}',
+            choices: [{ id: 'a', text: 'Thank {char.gide}', nextNode: 'end' }]
+          },
+          end: { type: 'end' }
+        },
+        { gold: 10 }
+      ),
+      assets: { characters: { guide: { id: 'guide', name: 'Guide' } } }
+    };
+
+    expect(StoryAnalyzer.analyze(story)).toEqual([
+      {
+        severity: 'warning',
+        code: 'unresolved-reference',
+        nodeId: 'start',
+        message: "Character 'gide' referenced in choice 'a' text does not exist"
+      },
+      {
+        severity: 'warning',
+        code: 'unset-state-key',
+        nodeId: 'start',
+        message:
+          "State key 'hasMap' is read in text but never set in initialState or any stateChanges"
+      }
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import { Story, StoryNode } from '../../../core/story/StoryData';
+import { StoryGraphExporter } from '../../../core/story/StoryGraphExporter';
+
+const makeStory = (nodes: Record<string, Partial<StoryNode>>): Story => ({
+  id: 'test',
+  title: 'Test "Story"',
+  startNode: 'start',
+  sceneIds: {},
+  nodes: Object.fromEntries(
+    Object.entries(nodes).map(([id, node]) => [id, { id, ...node }])
+  ) as Record<string, StoryNode>
+});
+
+const story = makeStory({
+  start: { type: 'scene', sceneId: 'forest', nextNode: 'ask' },
+  ask: {
+    type: 'choice',
+    sceneId: 'forest',
+    text: 'Which way?',
+    choices: [
+      { id: 'left', text: 'Go left', nextNode: 'check' },
+      { id: 'right', text: 'Go right', condition: 'courage > 2', nextNode: 'ghost' }
+    ]
+  },
+  check: { type: 'branch', cases: [{ condition: 'hasKey', nextNode: 'end' }], else: 'ask' },
+  end: { type: 'end' }
+});
+
+describe('StoryGraphExporter', () => {
+  test('should render DOT with clusters, typed nodes and labelled edges', () => {
+    const dot = StoryGraphExporter.toDot(story);
+
+    expect(dot).toContain('digraph "test" {');
+    expect(dot).toContain('label="Test \\"Story\\"";');
+    expect(dot).toMatch(/subgraph "cluster_forest" \{\n {4}label="forest";/);
+    expect(dot).toContain('    "start" [label="start", shape=folder');
+    expect(dot).toContain('    "ask" [label="ask\\nWhich way?", shape=hexagon');
+    expect(dot).toContain('  "check" [label="check", shape=diamond');
+    expect(dot).toContain('  "ghost" [label="ghost", shape=box, style=dashed, color=gray];');
+    expect(dot).toContain('  "start" -> "ask";');
+    expect(dot).toContain('  "ask" -> "ghost" [label="Go right\\n[courage > 2]"];');
+    expect(dot).toContain('  "check" -> "end" [label="[hasKey]"];');
+    expect(dot).toContain('  "check" -> "ask" [label="else", style=dashed];');
+  });
+
+  test('should highlight the nodes and edges of a playthrough', () => {
+    const dot = StoryGraphExporter.toDot(story, { history: ['start', 'ask', 'check'] });
+
+    expect(dot).toContain('"start" -> "ask" [color="#d32f2f", penwidth=2];');
+    expect(dot).toContain('"ask" -> "check" [label="Go left", color="#d32f2f", penwidth=2];');
+    expect(dot).toContain('"check" -> "ask" [label="else", style=dashed];');
+    expect(dot).toMatch(/"check" \[label="check", .*penwidth=4\];/);
+    expect(dot).toMatch(/"ask" \[.*penwidth=2\];/);
+  });
+
+  test('should render Mermaid with safe ids and escaped labels', () => {
+    const mermaid = StoryGraphExporter.toMermaid(story, {
+      history: ['start', 'ask', 'check'],
+      maxTextLength: 0
+    });
+
+    expect(mermaid.split('\n')).toEqual([
+      'flowchart TD',
+      '  subgraph scene0["forest"]',
+      '    n0[/"start"/]',
+      '    n1{{"ask"}}',
+      '  end',
+      '  n2{"check"}',
+      '  n3((("end")))',
+      '  n4["ghost"]',
+      '  n0 --> n1',
+      '  n1 -->|"Go left"| n2',
+      '  n1 -->|"Go right<br/>[courage #gt; 2]"| n4',
+      '  n2 -->|"[hasKey]"| n3',
+      '  n2 -.->|"else"| n1',
+      '  classDef dialogueNode fill:#e3f2fd,stroke:#1e88e5',
+      '  classDef choiceNode fill:#fff3e0,stroke:#fb8c00',
+      '  classDef sceneNode fill:#e8f5e9,stroke:#43a047',
+      '  classDef branchNode fill:#f3e5f5,stroke:#8e24aa',
+      '  classDef randomNode fill:#e0f7fa,stroke:#00acc1',
+      '  classDef callNode fill:#fffde7,stroke:#fdd835',
+      '  classDef returnNode fill:#fffde7,stroke:#fdd835',
+      '  classDef endNode fill:#eeeeee,stroke:#616161',
+      '  classDef missing fill:#ffffff,stroke:#9e9e9e,stroke-dasharray:4',
+      '  classDef visited stroke:#d32f2f,stroke-width:2px',
+      '  classDef current stroke:#d32f2f,stroke-width:4px',
+      '  class n0 sceneNode',
+      '  class n0,n1 visited',
+      '  class n1 choiceNode',
+      '  class n2 branchNode',
+      '  class n2 current',
+      '  class n3 endNode',
+      '  class n4 missing',
+      '  linkStyle 0,1 stroke:#d32f2f,stroke-width:2px'
+    ]);
+  });
+});
@@ -0,0 +1,193 @@
+import { StoryIncludes } from '../../../core/story/StoryIncludes';
+import { StoryParser, StoryValidationError } from '../../../core/story/StoryParser';
+
+const reader = (files: Record<string, string>) => async (path: string) => {
+  if (files[path] === undefined) throw new Error('Not found');
+  return files[path];
+};
+
+const parseErrors = async (files: Record<string, string>) => {
+  try {
+    await StoryParser.parseFiles('stories/main.yaml', reader(files));
+  } catch (error) {
+    return (error as StoryValidationError).diagnostics;
+  }
+  throw new Error('Expected the story to fail to load');
+};
+
+describe('StoryIncludes', () => {
+  test('should merge namespaced chapters and resolve references across files', async () => {
+    const files = {
+      'stories/main.yaml': [
+        'id: test',
+        'title: Test',
+        'startNode: intro',
+        'includes:',
+        '  - { file: chapters/two.yaml, namespace: chapter2 }',
+        'assets:',
+        '  images: { forest: forest.png }',
+        'nodes:',
+        '  intro: { type: dialogue, characterId: guide, text: Hi, nextNode: chapter2/intro }',
+        '  end: { type: end }'
+      ].join('\n'),
+      'stories/chapters/two.yaml': [
+        'assets:',
+        '  characters:',
+        '    guide: { id: guide, name: Guide }',
+        'nodes:',
+        '  intro: { id: intro, type: dialogue, characterId: guide, text: Two, nextNode: outro }',
+        '  outro: { type: dialogue, characterId: guide, text: Bye, nextNode: end }'
+      ].join('\n')
+    };
+
+    const { story } = await StoryParser.parseFiles('stories/main.yaml', reader(files));
+
+    expect(Object.keys(story.nodes)).toEqual(['intro', 'end', 'chapter2/intro', 'chapter2/outro']);
+    expect(story.nodes['chapter2/intro']).toMatchObject({
+      id: 'chapter2/intro',
+      nextNode: 'chapter2/outro'
+    });
+    // No `end` in chapter2, so the reference falls back to the root namespace
+    expect(story.nodes['chapter2/outro'].nextNode).toBe('end');
+    expect(Object.keys(story.assets!)).toEqual(['images', 'characters']);
+    expect(story).not.toHaveProperty('includes');
+  });
+
+  test('should resolve timer targets in namespaced chapters', async () => {
+    const files = {
+      'stories/main.yaml': [
+        'id: test',
+        'title: Test',
+        'startNode: two/ask',
+        'includes: [{ file: two.yaml, namespace: two }]',
+        'nodes:',
+        '  end: { type: end }'
+      ].join('\n'),
+      'stories/two.yaml': [
+        'nodes:',
+        '  ask:',
+        '    type: choice',
+        '    characterId: guide',
+        '    text: Quick!',
+        '    timer: { seconds: 5, nextNode: late }',
+        '    choices: [{ id: go, text: Go, nextNode: ask }, { id: stop, text: Stop, nextNode: end }]',
+        '  late: { type: end }'
+      ].join('\n')
+    };
+
+    const { story } = await StoryParser.parseFiles('stories/main.yaml', reader(files));
+
+    expect(story.nodes['two/ask'].timer).toEqual({ seconds: 5, nextNode: 'two/late' });
+  });
+
+  test('should resolve call targets in namespaced chapters', async () => {
+    const files = {
+      'stories/main.yaml': [
+        'id: test',
+        'title: Test',
+        'startNode: two/start',
+        'includes: [{ file: two.yaml, namespace: two }]',
+        'nodes:',
+        '  end: { type: end }'
+      ].join('\n'),
+      'stories/two.yaml': [
+        'nodes:',
+        '  start: { type: call, target: sub, nextNode: end }',
+        '  sub: { type: return }'
+      ].join('\n')
+    };
+
+    const { story } = await StoryParser.parseFiles('stories/main.yaml', reader(files));
+
+    expect(story.nodes['two/start'].target).toBe('two/sub');
+  });
+
+  test('should resolve random outcomes in namespaced chapters', async () => {
+    const files = {
+      'stories/main.yaml': [
+        'id: test',
+        'title: Test',
+        'startNode: two/start',
+        'includes: [{ file: two.yaml, namespace: two }]',
+        'nodes:',
+        '  end: { type: end }'
+      ].join('\n'),
+      'stories/two.yaml': [
+        'nodes:',
+        '  start: { type: random, outcomes: [{ nextNode: next }, { nextNode: end }] }',
+        '  next: { type: end }'
+      ].join('\n')
+    };
+
+    const { story } = await StoryParser.parseFiles('stories/main.yaml', reader(files));
+
+    expect(story.nodes['two/start'].outcomes).toEqual([
+      { nextNode: 'two/next' },
+      { nextNode: 'end' }
+    ]);
+  });
+
+  test('should report duplicate ids with both file locations', async () => {
+    const diagnostics = await parseErrors({
+      'stories/main.yaml': [
+        'id: test',
+        'title: Test',
+        'startNode: intro',
+        'includes: [one.yaml]',
+        'nodes:',
+        '  intro: { type: end }'
+      ].join('\n'),
+      'stories/one.yaml': ['nodes:', '  other: { type: end }', '  intro: { type: end }'].join('\n')
+    });
+
+    expect(diagnostics).toMatchObject([
+      {
+        code: 'duplicate-node',
+        file: 'stories/one.yaml',
+        line: 3,
+        column: 10,
+        message: "Node 'intro' is defined in both stories/main.yaml:6:10 and stories/one.yaml:3:10"
+      }
+    ]);
+  });
+
+  test('should point validation errors at the included file', async () => {
+    const diagnostics = await parseErrors({
+      'stories/main.yaml': [
+        'id: test',
+        'title: Test',
+        'startNode: part/a',
+        'includes: [{ file: part.yaml, namespace: part }]'
+      ].join('\n'),
+      'stories/part.yaml': [
+        'nodes:',
+        '  a: { type: dialogue, text: Hi, characterId: x, nextNode: b }'
+      ].join('\n')
+    });
+
+    expect(diagnostics).toMatchObject([
+      { code: 'missing-node', nodeId: 'part/a', file: 'stories/part.yaml', line: 2, column: 60 }
+    ]);
+  });
+
+  test('should report missing files and include cycles', async () => {
+    const diagnostics = await parseErrors({
+      'stories/main.yaml': 'includes: [a.yaml, missing.yaml]',
+      'stories/a.yaml': 'includes: [main.yaml]'
+    });
+
+    expect(diagnostics.map(({ code, file, line }) => ({ code, file, line }))).toEqual([
+      { code: 'include-cycle', file: 'stories/a.yaml', line: 1 },
+      { code: 'missing-include', file: 'stories/main.yaml', line: 1 }
+    ]);
+  });
+
+  test('should resolve include paths relative to the including file', () => {
+    expect(StoryIncludes.resolvePath('assets/stories/main.yaml', 'chapters/one.yaml')).toBe(
+      'assets/stories/chapters/one.yaml'
+    );
+    expect(StoryIncludes.resolvePath('assets/stories/chapters/one.yaml', '../shared.yaml')).toBe(
+      'assets/stories/shared.yaml'
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { Story } from '../../../core/story/StoryData';
+import { StoryLocalizer } from '../../../core/story/StoryLocalizer';
+
+const story: Story = {
+  id: 'test',
+  title: 'Test',
+  startNode: 'ask',
+  sceneIds: {},
+  locale: 'en',
+  assets: { characters: { guide: { id: 'guide', name: 'guide', displayName: 'The Guide' } } },
+  nodes: {
+    ask: {
+      id: 'ask',
+      type: 'choice',
+      sceneId: 'forest',
+      text: 'Which way?',
+      choices: [{ id: 'left', text: 'Left', nextNode: 'end' }]
+    },
+    end: { id: 'end', type: 'end', sceneId: 'forest' }
+  }
+};
+
+describe('StoryLocalizer', () => {
+  test('should flatten nested and dotted keys', () => {
+    expect(
+      StoryLocalizer.parseTable(
+        [
+          '{',
+          '  "locale": "de",',
+          '  "nodes": { "ask": { "text": "Welcher Weg?" } },',
+          '  "nodes.ask.choices.left": "Links"',
+          '}'
+        ].join('\n')
+      )
+    ).toEqual({
+      locale: 'de',
+      strings: { 'nodes.ask.text': 'Welcher Weg?', 'nodes.ask.choices.left': 'Links' }
+    });
+  });
+
+  test('should reject tables without a locale or with non-string values', () => {
+    expect(() => StoryLocalizer.parseTable('nodes: {}')).toThrow('A string table needs a locale');
+    expect(() => StoryLocalizer.parseTable('locale: de\nnodes: { ask: { text: [1] } }')).toThrow(
+      "'nodes.ask.text' must be a string"
+    );
+  });
+
+  test('should extract the text written in a story', () => {
+    expect(StoryLocalizer.extractTable(story)).toEqual({
+      locale: 'en',
+      strings: {
+        title: 'Test',
+        'nodes.ask.text': 'Which way?',
+        'nodes.ask.choices.left': 'Left',
+        'characters.guide.displayName': 'The Guide'
+      }
+    });
+  });
+
+  test('should fall back to the default locale table, then to the story text', () => {
+    const localizer = new StoryLocalizer('en');
+    localizer.addTable({ locale: 'en', strings: { 'nodes.ask.text': 'Which path?' } });
+    localizer.addTable({ locale: 'de', strings: { 'nodes.ask.choices.left': 'Links' } });
+    localizer.setLocale('de');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(localizer.translate('nodes.ask.choices.left', 'Left')).toBe('Links');
+    expect(localizer.translate('nodes.ask.text', 'Which way?')).toBe('Which path?');
+    expect(localizer.translate('nodes.ask.text', 'Which way?')).toBe('Which path?');
+    expect(localizer.translate('characters.guide.displayName', 'The Guide')).toBe('The Guide');
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(localizer.findMissingKeys(story)).toEqual([
+      'title',
+      'nodes.ask.text',
+      'characters.guide.displayName'
+    ]);
+    expect(localizer.findMissingKeys(story, 'en')).toEqual([]);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,148 @@
+import { Story } from '../../../core/story/StoryData';
+import { StoryMigration, StoryProgress } from '../../../core/story/StoryMigration';
+import { StoryParser } from '../../../core/story/StoryParser';
+import { StoryRuntime } from '../../../core/story/StoryRuntime';
+
+const story = StoryParser.parseYaml(
+  [
+    'id: test',
+    'title: Test',
+    'version: "1.10"',
+    'startNode: camp',
+    'nodes:',
+    '  camp: { type: dialogue, characterId: guide, text: Rest, nextNode: crossroads }',
+    '  crossroads:',
+    '    type: choice',
+    '    renamedFrom: [fork, split]',
+    '    characterId: guide',
+    '    text: Which way?',
+    '    choices: [{ id: left, text: Left, nextNode: end }]',
+    '  end: { type: end }'
+  ].join('\n')
+).story as Story;
+
+const progress: StoryProgress = {
+  currentNodeId: 'fork',
+  visitedNodes: ['camp', 'fork'],
+  completedBranches: [],
+  choiceUses: { fork: { left: 1 } },
+  storyVersion: '1.2'
+};
+
+describe('StoryMigration', () => {
+  test('should follow renamed nodes and report each rename', () => {
+    const result = StoryMigration.migrate(story, progress, { gold: 5 });
+
+    expect(result.progress).toMatchObject({
+      currentNodeId: 'crossroads',
+      visitedNodes: ['camp', 'crossroads'],
+      choiceUses: { crossroads: { left: 1 } },
+      storyVersion: '1.10'
+    });
+    expect(result.state).toEqual({ gold: 5 });
+    expect(result.changes).toEqual(["Node 'fork' is now 'crossroads'"]);
+    expect(progress.currentNodeId).toBe('fork');
+  });
+
+  test('should run the hooks between the save and story versions in order', () => {
+    const ran: string[] = [];
+    const result = StoryMigration.migrate(
+      story,
+      progress,
+      { gold: 5 },
+      {
+        '1.1': () => ran.push('1.1'),
+        '1.10': ({ renameState }) => {
+          ran.push('1.10');
+          renameState('gold', 'coins');
+        },
+        '1.9': ({ state, report }) => {
+          ran.push('1.9');
+          state.gold *= 10;
+          report('Gold is counted in silver now');
+        },
+        '2.0': () => ran.push('2.0')
+      }
+    );
+
+    expect(ran).toEqual(['1.9', '1.10']);
+    expect(result.state).toEqual({ coins: 50 });
+    expect(result.changes).toEqual([
+      'Gold is counted in silver now',
+      "State 'gold' is now 'coins'",
+      "Node 'fork' is now 'crossroads'"
+    ]);
+  });
+
+  test('should report a saved node that is gone', () => {
+    const result = StoryMigration.migrate(story, { ...progress, currentNodeId: 'cave' }, {});
+
+    expect(result.changes).toContain("Saved node 'cave' no longer exists");
+  });
+
+  test('should carry renamed state variables through a save, migration and load', () => {
+    const shop = (version: string, gold: string) =>
+      [
+        'id: shop',
+        'title: Shop',
+        `version: "${version}"`,
+        `variables: { ${gold}: { type: number, default: 0 } }`,
+        'startNode: camp',
+        'nodes:',
+        `  camp: { type: dialogue, characterId: guide, text: Rest, nextNode: stall, stateChanges: { ${gold}: { increment: 5 } } }`,
+        '  stall:',
+        '    type: choice',
+        '    characterId: guide',
+        '    text: Buy?',
+        '    choices: [{ id: buy, text: Buy, nextNode: end }]',
+        '  end: { type: end }'
+      ].join('\n');
+
+    const played = new StoryRuntime({ schedule: (task) => task() });
+    played.loadFromYaml(shop('1', 'gold'));
+    played.start();
+    played.progress();
+    const saved = JSON.parse(JSON.stringify(played.getProgress()));
+
+    const updated = new StoryRuntime({ schedule: (task) => task() });
+    updated.loadFromYaml(shop('2', 'coins'));
+    updated.addMigration('2', ({ renameState }) => renameState('gold', 'coins'));
+    const result = updated.migrateProgress(saved);
+    updated.restoreProgress(result.progress);
+
+    expect(result.changes).toEqual(["State 'gold' is now 'coins'"]);
+    expect(updated.getCurrentNodeId()).toBe('stall');
+    expect(updated.getGameState()).toEqual({ coins: 5 });
+  });
+
+  test('should migrate saves without a game state from the initial state', () => {
+    const runtime = new StoryRuntime({ schedule: (task) => task() });
+    runtime.loadFromYaml(
+      [
+        'id: map',
+        'title: Map',
+        'version: "2"',
+        'initialState: { courage: 3, hasMap: true }',
+        'startNode: camp',
+        'nodes:',
+        '  camp: { type: dialogue, characterId: guide, text: Rest, nextNode: end }',
+        '  end: { type: end }'
+      ].join('\n')
+    );
+    let seen: Record<string, any> | undefined;
+    runtime.addMigration('2', ({ state }) => {
+      seen = { ...state };
+    });
+
+    const result = runtime.migrateProgress({
+      currentNodeId: 'camp',
+      visitedNodes: ['camp'],
+      completedBranches: []
+    });
+    runtime.restoreProgress(result.progress);
+
+    expect(seen).toEqual({ courage: 3, hasMap: true });
+    expect(runtime.getCurrentNodeId()).toBe('camp');
+    expect(runtime.getGameState()).toEqual({ courage: 3, hasMap: true });
+  });
+});
@@ -0,0 +1,56 @@
+import { StoryNode } from '../../../core/story/StoryNode';
+
+describe('StoryNode', () => {
+  test('should take the first matching branch case', () => {
+    const node = new StoryNode({
+      id: 'check',
+      type: 'branch',
+      sceneId: 'forest',
+      cases: [
+        { condition: 'courage >= 5', nextNode: 'brave' },
+        { condition: 'courage >= 2', nextNode: 'steady' }
+      ],
+      else: 'timid'
+    });
+
+    expect(node.resolveBranch({ courage: 6 })).toEqual({
+      nextNode: 'brave',
+      caseIndex: 0,
+      condition: 'courage >= 5'
+    });
+    expect(node.resolveBranch({ courage: 3 })?.caseIndex).toBe(1);
+    expect(node.resolveBranch({ courage: 0 })).toEqual({ nextNode: 'timid', caseIndex: null });
+  });
+
+  test('should expand the single-condition branch shorthand', () => {
+    const node = new StoryNode({
+      id: 'check',
+      type: 'branch',
+      sceneId: 'forest',
+      condition: 'state.hasMap',
+      nextNode: 'with_map',
+      elseNode: 'without_map'
+    });
+
+    expect(node.resolveBranch({ hasMap: true })?.nextNode).toBe('with_map');
+    expect(node.resolveBranch({ hasMap: false })?.nextNode).toBe('without_map');
+  });
+
+  test('should filter choices using visited nodes', () => {
+    const node = new StoryNode({
+      id: 'ask',
+      type: 'choice',
+      sceneId: 'forest',
+      choices: [
+        { id: 'again', text: 'Ask again', nextNode: 'a', condition: "visited('asked')" },
+        { id: 'first', text: 'Ask', nextNode: 'b' }
+      ]
+    });
+
+    expect(node.getAvailableChoices({}, []).map((choice) => choice.id)).toEqual(['first']);
+    expect(node.getAvailableChoices({}, ['asked']).map((choice) => choice.id)).toEqual([
+      'again',
+      'first'
+    ]);
+  });
+});
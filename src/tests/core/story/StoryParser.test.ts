@@ -0,0 +1,286 @@
+import { StoryParser, StoryValidationError } from '../../../core/story/StoryParser';
+
+const baseStory = (nodes: Record<string, any>) =>
+  JSON.stringify({ id: 'test', title: 'Test', startNode: 'start', nodes });
+
+const line = (id: string, nextNode?: string) => ({
+  id,
+  type: 'dialogue',
+  characterId: 'narrator',
+  text: `Line ${id}`,
+  nextNode
+});
+
+describe('StoryParser', () => {
+  test('should reject conditions with syntax errors at load time', () => {
+    const json = baseStory({
+      start: {
+        id: 'start',
+        type: 'choice',
+        choices: [{ id: 'go', text: 'Go', nextNode: 'end', condition: 'state.courage >' }]
+      },
+      end: { id: 'end', type: 'end' }
+    });
+
+    expect(() => StoryParser.parseFromJson(json)).toThrow(
+      "In choice 'go' condition of node 'start': Unexpected end of input at offset 15"
+    );
+  });
+
+  test('should reject invalid stateChanges operations', () => {
+    const json = baseStory({
+      start: { ...line('start', 'end'), stateChanges: { courage: { increment: 'lots' } } },
+      end: { id: 'end', type: 'end' }
+    });
+
+    expect(() => StoryParser.parseFromJson(json)).toThrow(
+      "Invalid stateChanges in node 'start': Operation 'increment' for 'courage' needs a number"
+    );
+  });
+
+  test('should accept multi-way branches with an else target', () => {
+    const json = baseStory({
+      start: {
+        id: 'start',
+        type: 'branch',
+        cases: [
+          { condition: 'courage >= 5', nextNode: 'brave' },
+          { condition: 'wisdom >= 5', nextNode: 'wise' }
+        ],
+        else: 'ordinary'
+      },
+      brave: line('brave', 'end'),
+      wise: line('wise', 'end'),
+      ordinary: line('ordinary', 'end'),
+      end: { id: 'end', type: 'end' }
+    });
+
+    expect(StoryParser.parseFromJson(json).nodes.start.cases).toHaveLength(2);
+  });
+
+  test('should require every branch to have an existing else target', () => {
+    const withoutElse = baseStory({
+      start: { id: 'start', type: 'branch', condition: 'hasMap', nextNode: 'map' },
+      map: line('map')
+    });
+    const missingElse = baseStory({
+      start: {
+        id: 'start',
+        type: 'branch',
+        cases: [{ condition: 'hasMap', nextNode: 'map' }],
+        else: 'nowhere'
+      },
+      map: line('map')
+    });
+
+    expect(() => StoryParser.parseFromJson(withoutElse)).toThrow(
+      "Branch node 'start' must have an else target"
+    );
+    expect(() => StoryParser.parseFromJson(missingElse)).toThrow(
+      "Else target 'nowhere' in node 'start' does not exist"
+    );
+  });
+
+  test('should collect every error with YAML line and column', () => {
+    const yaml = [
+      'id: test',
+      'title: Test',
+      'startNode: start',
+      'nodes:',
+      '  start:',
+      '    type: choice',
+      '    choices:',
+      '      - { id: a, text: A, nextNode: missing }',
+      "      - { id: b, text: B, nextNode: end, condition: 'courage >> 1' }",
+      '  end:',
+      '    type: ending'
+    ].join('\n');
+
+    expect.assertions(2);
+    try {
+      StoryParser.parseYaml(yaml);
+    } catch (error) {
+      const diagnostics = (error as StoryValidationError).diagnostics.map((diagnostic) => ({
+        code: diagnostic.code,
+        nodeId: diagnostic.nodeId,
+        line: diagnostic.line,
+        column: diagnostic.column
+      }));
+
+      expect(error).toBeInstanceOf(StoryValidationError);
+      expect(diagnostics).toEqual([
+        { code: 'missing-node', nodeId: 'start', line: 8, column: 37 },
+        { code: 'invalid-script', nodeId: 'start', line: 9, column: 63 },
+        { code: 'unknown-node-type', nodeId: 'end', line: 11, column: 11 }
+      ]);
+    }
+  });
+
+  test('should return warnings alongside the story', () => {
+    const yaml = [
+      'id: test',
+      'title: Test',
+      'startNode: start',
+      'nodes:',
+      '  start: { id: start, type: end }',
+      '  orphan: { id: orphan, type: end }'
+    ].join('\n');
+
+    const result = StoryParser.parseYaml(yaml);
+
+    expect(result.story.id).toBe('test');
+    expect(result.diagnostics).toMatchObject([
+      { severity: 'warning', code: 'unreachable-node', nodeId: 'orphan', line: 6, column: 11 }
+    ]);
+  });
+
+  test('should reject undeclared variables and values of the wrong type', () => {
+    const story = {
+      id: 'test',
+      title: 'Test',
+      startNode: 'start',
+      variables: {
+        courage: { type: 'number', default: 0, min: 0, max: 10 },
+        met: { type: 'boolean', min: 1 }
+      },
+      initialState: { courage: 20 },
+      nodes: {
+        start: {
+          ...line('start', 'end'),
+          type: 'choice',
+          choices: [
+            { id: 'a', text: 'A', nextNode: 'end', stateChanges: { met: { increment: 1 } } },
+            { id: 'b', text: 'B {gold}', nextNode: 'end', condition: 'courage > 2' }
+          ]
+        },
+        end: { id: 'end', type: 'end', stateChanges: { luck: 1, courage: 'high' } }
+      }
+    };
+    const errors = StoryParser.validate(story).filter((d) => d.severity === 'error');
+
+    expect(errors.map((d) => d.message)).toEqual([
+      "Variable 'met' is a boolean, so it cannot have a min or max",
+      "Invalid initialState: 'courage' must be within [0, 10], not 20",
+      "Invalid stateChanges in choice 'a' in node 'start': Operation 'increment' needs a number, but 'met' is a boolean",
+      "'gold' is used in the choice 'b' text of node 'start' but is not a declared variable",
+      "'luck' is used in the stateChanges of node 'end' but is not a declared variable",
+      "Invalid stateChanges in node 'end': 'courage' must be a number, not \"high\""
+    ]);
+  });
+
+  test('should require choice timers to lead somewhere that exists', () => {
+    const choice = (timer: Record<string, any>, go: Record<string, any>) => ({
+      ...line('start', 'end'),
+      type: 'choice',
+      timer,
+      choices: [{ id: 'go', text: 'Go', nextNode: 'end', ...go }]
+    });
+    const messages = (timer: Record<string, any>, go: Record<string, any> = {}) =>
+      StoryParser.validate({
+        id: 'test',
+        title: 'Test',
+        startNode: 'start',
+        nodes: { start: choice(timer, go), end: { id: 'end', type: 'end' } }
+      }).map((diagnostic) => diagnostic.message);
+
+    expect(messages({ seconds: 5, defaultChoice: 'go' })).toEqual([]);
+    expect(messages({ seconds: 5 })).toEqual([
+      "Timer of node 'start' needs a defaultChoice or a nextNode for when time runs out"
+    ]);
+    expect(messages({ seconds: 5, defaultChoice: 'stay', nextNode: 'nowhere' })).toEqual([
+      "Timer defaultChoice 'stay' is not a choice of node 'start'",
+      "Timer nextNode 'nowhere' in node 'start' does not exist"
+    ]);
+    expect(messages({ seconds: 5, defaultChoice: 'go' }, { uses: 'once' })).toEqual([
+      "Timer defaultChoice 'go' of node 'start' may be unavailable when time runs out; add a nextNode, or the first available choice is made"
+    ]);
+    expect(
+      messages({ seconds: 5, defaultChoice: 'go', nextNode: 'end' }, { uses: 'once' })
+    ).toEqual([]);
+  });
+
+  test('should require call nodes to have a target and a node to return to', () => {
+    const errors = StoryParser.validate({
+      id: 'test',
+      title: 'Test',
+      startNode: 'start',
+      nodes: {
+        start: { id: 'start', type: 'call', target: 'missing' },
+        back: { id: 'back', type: 'return', nextNode: 'start' }
+      }
+    });
+
+    expect(errors.map((d) => `${d.severity} ${d.code}: ${d.message}`)).toEqual([
+      "error missing-node: Call target 'missing' in node 'start' does not exist",
+      "error missing-field: Call node 'start' must have a nextNode to continue at after the return",
+      "warning ignored-field: Return node 'back' ignores its nextNode; it goes back to the caller"
+    ]);
+  });
+
+  test('should require random nodes to have outcomes that can be rolled', () => {
+    const messages = (outcomes: unknown) =>
+      StoryParser.validate({
+        id: 'test',
+        title: 'Test',
+        startNode: 'start',
+        nodes: {
+          start: { id: 'start', type: 'random', outcomes },
+          end: { id: 'end', type: 'end' }
+        }
+      }).map((d) => d.message);
+
+    expect(messages([{ nextNode: 'end', weight: 2 }])).toEqual([]);
+    expect(messages([])).toEqual(["Random node 'start' must have at least one outcome"]);
+    expect(messages([{ nextNode: 'end', weight: 0 }, { nextNode: 'nowhere' }])).toEqual([
+      "Outcome 1 nextNode 'nowhere' in node 'start' does not exist"
+    ]);
+    expect(messages([{ nextNode: 'end', weight: 0 }])).toEqual([
+      "Random node 'start' needs at least one outcome with a positive weight"
+    ]);
+  });
+
+  test('should reject former ids that are still nodes or claimed twice', () => {
+    const errors = StoryParser.validate({
+      id: 'test',
+      title: 'Test',
+      startNode: 'start',
+      nodes: {
+        start: { id: 'start', type: 'dialogue', characterId: 'guide', text: 'Hi', nextNode: 'end' },
+        end: { id: 'end', type: 'end', renamedFrom: ['start', 'finish'] },
+        done: { id: 'done', type: 'end', renamedFrom: ['finish'] }
+      }
+    });
+
+    expect(errors.map((d) => d.message)).toEqual([
+      "Node 'end' was renamed from 'start', but 'start' is still a node",
+      "Nodes 'end' and 'done' were both renamed from 'finish'"
+    ]);
+  });
+
+  test('should check that triggers are unique, compile and lead somewhere', () => {
+    const errors = StoryParser.validate({
+      id: 'test',
+      title: 'Test',
+      startNode: 'start',
+      variables: { noise: { type: 'number', default: 0 } },
+      triggers: [
+        { id: 'loud', condition: 'noise > 2', nextNode: 'caught', returnAfter: true },
+        { id: 'loud', condition: 'noise >', stateChanges: { noise: { increment: 'x' } } },
+        { id: 'quiet', condition: 'mood == 1', returnAfter: true }
+      ],
+      nodes: {
+        start: { id: 'start', type: 'end' },
+        caught: { id: 'caught', type: 'end' }
+      }
+    });
+
+    expect(errors.map((d) => `${d.severity} ${d.code}: ${d.path?.join('.')}`)).toEqual([
+      'error duplicate-trigger: triggers.1.id',
+      'error invalid-script: triggers.1.condition',
+      'error invalid-state-change: triggers.1.stateChanges.noise',
+      'error missing-field: triggers.2',
+      'warning ignored-field: triggers.2.returnAfter',
+      'error undeclared-variable: triggers.2.condition'
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import { StoryRollback } from '../../../core/story/StoryRollback';
+import { StoryRuntime } from '../../../core/story/StoryRuntime';
+
+const story = [
+  'id: test',
+  'title: Test',
+  'startNode: hello',
+  'initialState: { courage: 0 }',
+  'nodes:',
+  '  hello: { type: dialogue, characterId: guide, text: Hello, nextNode: ask }',
+  '  ask:',
+  '    type: choice',
+  '    characterId: guide',
+  '    text: Which way?',
+  '    choices:',
+  '      - { id: brave, text: Be brave, nextNode: check, stateChanges: { courage: 5 } }',
+  '      - { id: flee, text: Flee, nextNode: check }',
+  '  check:',
+  '    type: branch',
+  '    cases: [{ condition: courage > 2, nextNode: win }]',
+  '    else: lose',
+  '  win: { type: end, text: You win. }',
+  '  lose: { type: end, text: You lose. }'
+].join('\n');
+
+const setup = (options = {}) => {
+  const runtime = new StoryRuntime({ schedule: (task) => task() });
+  runtime.loadFromYaml(story);
+  let mood = 'calm';
+  const rollback = new StoryRollback<string>({
+    capture: () => mood,
+    restore: (saved) => (mood = saved),
+    ...options
+  });
+  rollback.attach(runtime);
+  return { runtime, rollback, setMood: (value: string) => (mood = value), getMood: () => mood };
+};
+
+describe('StoryRollback', () => {
+  test('should step back and forward through lines with their state', () => {
+    const { runtime, rollback, setMood, getMood } = setup();
+    const moved: Array<string | undefined> = [];
+    rollback.on('rollback:moved', (node) => moved.push(node?.getId()));
+
+    runtime.start();
+    runtime.progress();
+    setMood('tense');
+    runtime.makeChoice(0);
+
+    expect(runtime.getCurrentNodeId()).toBe('win');
+    expect(rollback.getEntries().map((entry) => entry.snapshot.currentNodeId)).toEqual([
+      'hello',
+      'ask',
+      'win'
+    ]);
+
+    expect(rollback.rollBack()).toBe(true);
+    expect(runtime.getCurrentNodeId()).toBe('ask');
+    expect(runtime.getGameState()).toEqual({ courage: 0 });
+    expect(rollback.rollBack()).toBe(true);
+    expect(rollback.rollBack()).toBe(false);
+    expect(getMood()).toBe('calm');
+
+    expect(rollback.rollForward(2)).toBe(true);
+    expect(runtime.getCurrentNodeId()).toBe('win');
+    expect(runtime.getGameState()).toEqual({ courage: 5 });
+    expect(getMood()).toBe('tense');
+    expect(moved).toEqual(['ask', 'hello', 'win']);
+  });
+
+  test('should replace later lines when the player chooses differently', () => {
+    const { runtime, rollback } = setup();
+    runtime.start();
+    runtime.progress();
+    runtime.makeChoice(0);
+
+    rollback.rollBack();
+    expect(rollback.getFixedChoiceId()).toBeUndefined();
+    runtime.makeChoice(1);
+
+    expect(runtime.getCurrentNodeId()).toBe('lose');
+    expect(rollback.canRollForward()).toBe(false);
+    expect(rollback.getEntries().map((entry) => entry.choiceId)).toEqual([
+      undefined,
+      'flee',
+      undefined
+    ]);
+  });
+
+  test('should keep a bounded depth and fix choices when rechoosing is off', () => {
+    const { runtime, rollback } = setup({ maxDepth: 1, allowRechoose: false });
+    runtime.start();
+    runtime.progress();
+    runtime.makeChoice(0);
+
+    expect(rollback.getEntries()).toHaveLength(2);
+    expect(rollback.rollBack(5)).toBe(true);
+    expect(runtime.getCurrentNodeId()).toBe('ask');
+    expect(rollback.canRollBack()).toBe(false);
+    expect(rollback.getFixedChoiceId()).toBe('brave');
+  });
+});
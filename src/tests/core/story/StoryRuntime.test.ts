@@ -0,0 +1,541 @@
+import { ScriptCompiler } from '../../../core/script/ScriptCompiler';
+import { StoryParser } from '../../../core/story/StoryParser';
+import { StoryRuntime } from '../../../core/story/StoryRuntime';
+import { TextStoryPresenter } from '../../../core/story/TextStoryPresenter';
+
+const story = [
+  'id: test',
+  'title: Test',
+  'startNode: intro',
+  'initialState: { courage: 0 }',
+  'assets:',
+  '  characters:',
+  '    guide: { id: guide, name: The Guide }',
+  'nodes:',
+  '  intro: { type: scene, sceneId: forest, characters: [], nextNode: ask }',
+  '  ask:',
+  '    type: choice',
+  '    characterId: guide',
+  '    text: Which way?',
+  '    choices:',
+  '      - { id: brave, text: Be brave, nextNode: check, stateChanges: { courage: { increment: 5 } } }',
+  '      - { id: flee, text: Flee, nextNode: check }',
+  '  check:',
+  '    type: branch',
+  '    cases: [{ condition: courage > 2, nextNode: win }]',
+  '    else: lose',
+  '  win: { type: end, text: You win. }',
+  '  lose: { type: end }'
+].join('\n');
+
+const createRuntime = () => {
+  const runtime = new StoryRuntime({ schedule: (task) => task() });
+  runtime.loadFromYaml(story);
+  return runtime;
+};
+
+describe('StoryRuntime', () => {
+  test('should run a story synchronously without a renderer', () => {
+    const runtime = createRuntime();
+    const entered: string[] = [];
+    runtime.on('node:enter', (node) => entered.push(node.getId()));
+
+    runtime.start();
+    expect(runtime.getCurrentNodeId()).toBe('ask');
+
+    runtime.makeChoice(0);
+    expect(runtime.getCurrentNodeId()).toBe('win');
+    expect(runtime.getGameState()).toEqual({ courage: 5 });
+    expect(entered).toEqual(['intro', 'ask', 'check', 'win']);
+  });
+
+  test('should run the conditions the parser compiled instead of compiling them again', () => {
+    const compile = jest.spyOn(ScriptCompiler, 'compileCondition');
+    const runtime = createRuntime();
+    const compiled = compile.mock.calls.length;
+
+    runtime.start();
+    runtime.makeChoice(0);
+    expect(runtime.getCurrentNodeId()).toBe('win');
+    expect(compile.mock.calls.map(([source]) => source)).toEqual(['courage > 2']);
+    expect(compile).toHaveBeenCalledTimes(compiled);
+    compile.mockRestore();
+  });
+
+  test('should wait at scene nodes that a presenter takes over', () => {
+    const runtime = createRuntime();
+    const presented: string[] = [];
+    runtime.setScenePresenter((sceneId, transitionType) => {
+      presented.push(`${sceneId}:${transitionType}`);
+      return true;
+    });
+
+    runtime.start();
+    expect(presented).toEqual(['forest:default']);
+    expect(runtime.getCurrentNodeId()).toBe('intro');
+
+    runtime.progress();
+    expect(runtime.getCurrentNodeId()).toBe('ask');
+  });
+
+  test('should drive a text presenter from its events', () => {
+    const runtime = createRuntime();
+    const lines: string[] = [];
+    new TextStoryPresenter((line) => lines.push(line)).attach(runtime);
+
+    runtime.start();
+    runtime.makeChoice(1);
+
+    expect(lines).toEqual([
+      '[forest]',
+      'The Guide: Which way?',
+      '  1. Be brave',
+      '  2. Flee',
+      '> Flee',
+      'THE END'
+    ]);
+  });
+
+  test('should show text in the current locale and fall back to the story text', () => {
+    const runtime = createRuntime();
+    runtime.addStringTable(
+      [
+        'locale: fr',
+        'nodes:',
+        '  ask:',
+        '    text: Quel chemin, {courage} ?',
+        '    choices: { brave: Être courageux }',
+        'characters:',
+        '  guide: { displayName: Le Guide }'
+      ].join('\n')
+    );
+    const lines: string[] = [];
+    const locales: string[] = [];
+    new TextStoryPresenter((line) => lines.push(line)).attach(runtime);
+    runtime.on('locale:changed', (locale: string) => locales.push(locale));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    runtime.setLocale('fr');
+    runtime.start();
+
+    expect(locales).toEqual(['fr']);
+    expect(lines).toEqual([
+      '[forest]',
+      'Le Guide: Quel chemin, 0 ?',
+      '  1. Être courageux',
+      '  2. Flee'
+    ]);
+    expect(runtime.getLocales()).toEqual(['en', 'fr']);
+    expect(runtime.getMissingTranslations()).toEqual([
+      'title',
+      'nodes.ask.choices.flee',
+      'nodes.win.text'
+    ]);
+    expect(warn).toHaveBeenCalledWith("Missing 'fr' translation for 'nodes.ask.choices.flee'");
+    warn.mockRestore();
+  });
+
+  test('should start from variable defaults and clamp values to their range', () => {
+    const runtime = new StoryRuntime({ schedule: (task) => task() });
+    runtime.loadFromYaml(
+      story
+        .replace('initialState: { courage: 0 }', 'variables: { courage: { type: number, max: 3 } }')
+        .replace('Which way?', 'Which way?\n    onEnter: courage = 1')
+    );
+    const changes: any[] = [];
+    runtime.on('state:changed', (_state, _prev, _changes, diff) => changes.push(diff));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    runtime.start();
+    expect(runtime.getGameState()).toEqual({ courage: 1 });
+
+    runtime.makeChoice(0);
+    expect(runtime.getGameState()).toEqual({ courage: 3 });
+    expect(changes).toEqual([[{ path: 'courage', oldValue: 1, newValue: 3 }]]);
+    expect(warn).toHaveBeenCalledWith("'courage' clamped from 6 to 3");
+    warn.mockRestore();
+  });
+
+  test('should make the default choice or follow the timer when time runs out', () => {
+    const timed = (timer: string) => {
+      const runtime = new StoryRuntime({ schedule: (task) => task() });
+      runtime.loadFromYaml(story.replace('Which way?', `Which way?\n    timer: ${timer}`));
+      return runtime;
+    };
+
+    const runtime = timed('{ seconds: 5, defaultChoice: brave }');
+    const lines: string[] = [];
+    new TextStoryPresenter((line) => lines.push(line)).attach(runtime);
+    runtime.start();
+    runtime.timeOutChoice();
+
+    expect(runtime.getCurrentNodeId()).toBe('win');
+    expect(lines.slice(-5)).toEqual([
+      '  (5s to choose)',
+      '> (time ran out)',
+      '> Be brave',
+      'You win.',
+      'THE END'
+    ]);
+
+    const fallback = timed('{ seconds: 5, nextNode: lose }');
+    fallback.start();
+    fallback.timeOutChoice();
+    expect(fallback.getCurrentNodeId()).toBe('lose');
+    expect(() => fallback.timeOutChoice()).toThrow('not a timed choice node');
+
+    // A default choice that is not available falls back to the first one that is
+    const hidden = new StoryRuntime({ schedule: (task) => task() });
+    hidden.loadFromYaml(
+      story
+        .replace('Which way?', 'Which way?\n    timer: { seconds: 5, defaultChoice: brave }')
+        .replace('{ id: brave,', '{ id: brave, condition: courage > 0,')
+    );
+    hidden.start();
+    hidden.timeOutChoice();
+    expect(hidden.getCurrentNodeId()).toBe('lose');
+  });
+
+  test('should use up choices and fall through once none is left', () => {
+    const runtime = new StoryRuntime({ schedule: (task) => task() });
+    runtime.loadFromYaml(
+      [
+        'id: hub',
+        'title: Hub',
+        'startNode: ask',
+        'nodes:',
+        '  ask:',
+        '    type: choice',
+        '    characterId: guide',
+        '    text: Ask about?',
+        '    nextNode: done',
+        '    choices:',
+        '      - { id: forest, text: The forest, nextNode: ask, uses: once }',
+        '      - { id: ruins, text: The ruins, nextNode: ask, uses: 2, exhausted: disable }',
+        '  done: { type: end }'
+      ].join('\n')
+    );
+    const available = () => runtime.getAvailableChoices().map((choice) => choice.id);
+    const shown = () =>
+      runtime.getShownChoices().map(({ choice, disabled }) => `${choice.id}${disabled ? '-' : ''}`);
+
+    runtime.start();
+    runtime.makeChoice(0);
+    expect(available()).toEqual(['ruins']);
+    runtime.makeChoice(0);
+    const snapshot = runtime.getSnapshot();
+
+    runtime.makeChoice(0);
+    expect(runtime.getCurrentNodeId()).toBe('done');
+    expect(runtime.getChoiceUses()).toEqual({ ask: { forest: 1, ruins: 2 } });
+
+    runtime.restoreSnapshot(snapshot);
+    expect(shown()).toEqual(['ruins']);
+    runtime.loadProgress('ask', ['ask', 'ask'], [], { ask: { forest: 1, ruins: 2 } });
+    expect(runtime.getCurrentNodeId()).toBe('done');
+
+    runtime.reset();
+    runtime.loadProgress('ask', ['ask'], [], { ask: { ruins: 2 } });
+    expect(shown()).toEqual(['forest', 'ruins-']);
+  });
+
+  test('should run a called sub-flow with its params and return to the caller', () => {
+    const runtime = new StoryRuntime({ schedule: (task) => task() });
+    runtime.loadFromYaml(
+      [
+        'id: calls',
+        'title: Calls',
+        'startNode: first',
+        'initialState: { place: camp }',
+        'nodes:',
+        '  first: { type: call, target: warn, params: { place: river }, nextNode: second }',
+        '  second: { type: call, target: warn, params: { place: ruins, shout: true }, nextNode: done }',
+        '  warn: { type: dialogue, characterId: guide, text: "Beware the {place}.", nextNode: back }',
+        '  back: { type: return }',
+        '  done: { type: end, text: "Safe at the {place}." }'
+      ].join('\n')
+    );
+    const lines: string[] = [];
+    new TextStoryPresenter((line) => lines.push(line)).attach(runtime);
+
+    runtime.start();
+    expect(runtime.getCallStack()).toEqual([
+      { callerId: 'first', returnTo: 'second', shadowed: { place: 'camp' }, unset: [] }
+    ]);
+    runtime.progress();
+    const snapshot = runtime.getSnapshot();
+    runtime.progress();
+
+    expect(runtime.getCurrentNodeId()).toBe('done');
+    expect(runtime.getGameState()).toEqual({ place: 'camp' });
+    expect(runtime.getCallStack()).toEqual([]);
+    expect(lines).toEqual([
+      'guide: Beware the river.',
+      'guide: Beware the ruins.',
+      'Safe at the camp.',
+      'THE END'
+    ]);
+
+    runtime.restoreSnapshot(snapshot);
+    expect(runtime.getGameState()).toEqual({ place: 'ruins', shout: true });
+    runtime.progress();
+    expect(runtime.getGameState()).toEqual({ place: 'camp' });
+  });
+
+  test('should resume a save inside a call after a random draw without re-running it', () => {
+    const createCallRuntime = (seed?: number) => {
+      const runtime = new StoryRuntime({ schedule: (task) => task(), seed });
+      runtime.loadFromYaml(
+        [
+          'id: calls',
+          'title: Calls',
+          'startNode: first',
+          'initialState: { place: camp, roll: 0 }',
+          'nodes:',
+          '  first: { type: call, target: warn, params: { place: river }, nextNode: done }',
+          '  warn:',
+          '    type: dialogue',
+          '    characterId: guide',
+          '    text: "Beware the {place}."',
+          '    onEnter: roll = random(1, 1000)',
+          '    nextNode: back',
+          '  back: { type: return }',
+          '  done: { type: end }'
+        ].join('\n')
+      );
+      return runtime;
+    };
+
+    const runtime = createCallRuntime(3);
+    runtime.start();
+    const saved = JSON.parse(JSON.stringify(runtime.getProgress()));
+
+    const loaded = createCallRuntime();
+    loaded.restoreProgress(saved);
+    expect(loaded.getCurrentNodeId()).toBe('warn');
+    expect(loaded.getGameState()).toEqual(runtime.getGameState());
+    expect(loaded.getGameState()).toMatchObject({ place: 'river' });
+    expect(loaded.getRandomState()).toEqual(runtime.getRandomState());
+    expect(loaded.getVisitedNodes()).toEqual(['first', 'warn']);
+
+    loaded.progress();
+    expect(loaded.getCurrentNodeId()).toBe('done');
+    expect(loaded.getGameState()).toEqual({ place: 'camp', roll: saved.gameState.roll });
+  });
+
+  test('should roll random nodes from the seed and replay them after loading', () => {
+    const createRandomRuntime = (seed?: number) => {
+      const runtime = new StoryRuntime({ schedule: (task) => task(), seed });
+      runtime.loadFromYaml(
+        [
+          'id: dice',
+          'title: Dice',
+          'startNode: roll',
+          'initialState: { rolls: 0 }',
+          'nodes:',
+          '  roll:',
+          '    type: random',
+          '    onEnter: rolls += 1',
+          '    outcomes: [{ nextNode: a, weight: 1 }, { nextNode: b, weight: 1 }, { nextNode: c }]',
+          '  a: { type: dialogue, characterId: guide, text: A, nextNode: again }',
+          '  b: { type: dialogue, characterId: guide, text: B, nextNode: again }',
+          '  c: { type: dialogue, characterId: guide, text: C, nextNode: again }',
+          '  again: { type: branch, cases: [{ condition: rolls < 20, nextNode: roll }], else: done }',
+          '  done: { type: end }'
+        ].join('\n')
+      );
+      return runtime;
+    };
+    const play = (runtime: StoryRuntime, rolls: number): string[] => {
+      const outcomes: string[] = [];
+      runtime.on('random:taken', (_node: unknown, outcome: { nextNode: string }) =>
+        outcomes.push(outcome.nextNode)
+      );
+      runtime.start();
+      for (let i = 1; i < rolls; i++) runtime.progress();
+      return outcomes;
+    };
+
+    const outcomes = play(createRandomRuntime(5), 12);
+    expect(play(createRandomRuntime(5), 12)).toEqual(outcomes);
+    expect(new Set(outcomes).size).toBe(3);
+
+    // Loading a save at the sixth outcome rolls the same ones after it
+    const runtime = createRandomRuntime(5);
+    play(runtime, 6);
+    const progress = [runtime.getCurrentNodeId(), runtime.getVisitedNodes()] as const;
+    const random = runtime.getRandomState();
+
+    const loaded = createRandomRuntime();
+    const replayed: string[] = [];
+    loaded.on('random:taken', (_node: unknown, outcome: { nextNode: string }) =>
+      replayed.push(outcome.nextNode)
+    );
+    loaded.loadProgress(progress[0], [...progress[1]], [], {}, [], random);
+    for (let i = 0; i < 6; i++) loaded.progress();
+    expect([progress[0], ...replayed]).toEqual(outcomes.slice(5));
+  });
+
+  test('should swap in an edited story and keep the position and state', async () => {
+    const runtime = createRuntime();
+    const reloaded: Array<string | null> = [];
+    runtime.on('story:reloaded', (_story: unknown, node: { getId(): string } | null) =>
+      reloaded.push(node && node.getId())
+    );
+    runtime.start();
+    runtime.updateGameState({ courage: { set: 1 } });
+
+    runtime.reloadStory(StoryParser.parseYaml(story.replace('Which way?', 'Which path?')));
+    expect(runtime.getCurrentNode()?.getText()).toBe('Which path?');
+    expect(runtime.getGameState()).toEqual({ courage: 1 });
+
+    // Without the current node, the latest visited node still in the story takes
+    // over; here the branch before it, which then moves on
+    runtime.makeChoice(1);
+    expect(runtime.getCurrentNodeId()).toBe('lose');
+    const edited = story.replace('else: lose', 'else: ask').replace('\n  lose: { type: end }', '');
+    runtime.reloadStory(StoryParser.parseYaml(edited));
+    expect(runtime.getCurrentNodeId()).toBe('ask');
+    expect(reloaded).toEqual(['ask', 'check']);
+
+    // An edit with errors leaves the story in play alone
+    const broken = story.replace('else: lose', 'else: nowhere');
+    await expect(runtime.reloadFromFile('story.yaml', async () => broken)).rejects.toThrow(
+      "Else target 'nowhere' in node 'check' does not exist"
+    );
+    expect(runtime.getCurrentNodeId()).toBe('ask');
+    expect(runtime.hasNode('lose')).toBe(false);
+  });
+
+  test('should re-point or drop waiting calls whose return node changed on reload', () => {
+    const calls = [
+      'id: calls',
+      'title: Calls',
+      'startNode: first',
+      'nodes:',
+      '  first: { type: call, target: warn, nextNode: after }',
+      '  warn: { type: dialogue, characterId: guide, text: Beware., nextNode: back }',
+      '  back: { type: return }',
+      '  after: { type: end }'
+    ].join('\n');
+    const start = () => {
+      const runtime = new StoryRuntime({ schedule: (task) => task() });
+      runtime.loadFromYaml(calls);
+      runtime.start();
+      return runtime;
+    };
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const renamed = start();
+    const dropped = renamed.reloadStory(
+      StoryParser.parseYaml(
+        calls
+          .replace('nextNode: after }', 'nextNode: done }')
+          .replace('  after: { type: end }', '  done: { type: end, renamedFrom: [after] }')
+      )
+    );
+    expect(dropped).toEqual([]);
+    expect(renamed.getCallStack()).toEqual([
+      { callerId: 'first', returnTo: 'done', shadowed: {}, unset: [] }
+    ]);
+    renamed.progress();
+    expect(renamed.getCurrentNodeId()).toBe('done');
+
+    const removed = start();
+    expect(
+      removed.reloadStory(
+        StoryParser.parseYaml(
+          calls
+            .replace('nextNode: after }', 'nextNode: done }')
+            .replace('  after: { type: end }', '  done: { type: end }')
+        )
+      )
+    ).toEqual(["Node 'after' no longer exists, so the call from 'first' will not return to it"]);
+    expect(removed.getCallStack()).toEqual([]);
+    warn.mockRestore();
+  });
+
+  test('should fire triggers when their condition becomes true, by priority', () => {
+    const runtime = new StoryRuntime({ schedule: (task) => task() });
+    runtime.loadFromYaml(
+      [
+        'id: alarms',
+        'title: Alarms',
+        'startNode: camp',
+        'initialState: { noise: 0, alerts: 0 }',
+        'triggers:',
+        '  - { id: guards, condition: noise >= 3, nextNode: caught, priority: 1 }',
+        '  - id: alarm',
+        '    condition: noise >= 3',
+        '    stateChanges: { alerts: { increment: 1 } }',
+        '    repeat: true',
+        '    priority: 5',
+        'nodes:',
+        '  camp:',
+        '    type: choice',
+        '    characterId: guide',
+        '    text: Now what?',
+        '    choices:',
+        '      - { id: shout, text: Shout, nextNode: camp, stateChanges: { noise: { increment: 3 } } }',
+        '      - { id: hush, text: Hush, nextNode: camp, stateChanges: { noise: 0 } }',
+        '      - { id: leave, text: Leave, nextNode: done }',
+        '  caught: { type: dialogue, characterId: guide, text: Guards!, nextNode: camp }',
+        '  done: { type: end }'
+      ].join('\n')
+    );
+    const fired: string[] = [];
+    runtime.on('trigger:fired', (trigger: { id: string }) => fired.push(trigger.id));
+
+    runtime.start();
+    runtime.makeChoice(0);
+    expect(fired).toEqual(['alarm', 'guards']);
+    expect(runtime.getCurrentNodeId()).toBe('caught');
+
+    // Staying true fires nothing; becoming true again only fires the repeatable one
+    runtime.progress();
+    runtime.makeChoice(0);
+    runtime.makeChoice(1);
+    runtime.makeChoice(0);
+    expect(fired).toEqual(['alarm', 'guards', 'alarm']);
+    expect(runtime.getCurrentNodeId()).toBe('camp');
+    expect(runtime.getGameState()).toEqual({ noise: 3, alerts: 2 });
+    expect(runtime.getTriggerStatuses()).toEqual({
+      guards: { active: true, fired: 1 },
+      alarm: { active: true, fired: 2 }
+    });
+  });
+
+  test('should return to the interrupted node after a returnAfter trigger', () => {
+    const runtime = new StoryRuntime({ schedule: (task) => task() });
+    runtime.loadFromYaml(
+      [
+        'id: ambush',
+        'title: Ambush',
+        'startNode: road',
+        'initialState: { steps: 0 }',
+        'triggers:',
+        '  - { id: ambush, condition: steps >= 2, nextNode: fight, returnAfter: true }',
+        'nodes:',
+        '  road: { type: dialogue, characterId: guide, text: On we go., nextNode: bridge, stateChanges: { steps: 1 } }',
+        '  bridge: { type: dialogue, characterId: guide, text: A bridge., nextNode: done, stateChanges: { steps: 2 } }',
+        '  fight: { type: dialogue, characterId: guide, text: Bandits!, nextNode: back }',
+        '  back: { type: return }',
+        '  done: { type: end }'
+      ].join('\n')
+    );
+    const entered: string[] = [];
+    runtime.on('node:enter', (node) => entered.push(node.getId()));
+
+    runtime.start();
+    runtime.progress();
+    expect(runtime.getCurrentNodeId()).toBe('fight');
+    expect(runtime.getCallStack()).toEqual([
+      { callerId: 'bridge', returnTo: 'bridge', shadowed: {}, unset: [], resume: true }
+    ]);
+
+    runtime.progress();
+    expect(runtime.getCurrentNodeId()).toBe('bridge');
+    runtime.progress();
+    expect(entered).toEqual(['road', 'bridge', 'fight', 'back', 'bridge', 'done']);
+  });
+});
@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { StoryParser } from '../../../core/story/StoryParser';
+import { STORY_CHAPTER_SCHEMA, STORY_SCHEMA, StorySchema } from '../../../core/story/StorySchema';
+
+const storiesDir = path.resolve(__dirname, '../../../../public/assets/stories');
+
+describe('StorySchema', () => {
+  test.each([
+    ['story.schema.json', STORY_SCHEMA],
+    ['story-chapter.schema.json', STORY_CHAPTER_SCHEMA]
+  ])('published %s should match StorySchema', (file, schema) => {
+    const schemaFile = path.join(storiesDir, file);
+
+    // Run with UPDATE_STORY_SCHEMA=1 to regenerate the published copies
+    if (process.env.UPDATE_STORY_SCHEMA) {
+      fs.writeFileSync(schemaFile, StorySchema.toJson(schema));
+    }
+
+    expect(fs.readFileSync(schemaFile, 'utf8')).toBe(StorySchema.toJson(schema));
+  });
+
+  test('should report types, enums, required fields and unknown keys with their paths', () => {
+    const violations = StorySchema.validate({
+      id: 'test',
+      title: 7,
+      nodes: {
+        start: {
+          type: 'dialogue',
+          text: 'Hi',
+          nextNode: 'end',
+          dialogueOptions: { textEffects: { type: 'sparkle' } },
+          metadata: { effect: { type: 'sound', sound: 'chime' }, animationIn: 'fadeIn', mode: 'x' }
+        },
+        end: { type: 'end' }
+      }
+    });
+
+    expect(violations.map(({ keyword, path }) => [keyword, path.join('.')])).toEqual([
+      ['required', ''],
+      ['type', 'title'],
+      ['enum', 'nodes.start.dialogueOptions.textEffects.type'],
+      ['additionalProperties', 'nodes.start.metadata.mode']
+    ]);
+  });
+
+  test('should accept plain values and operations in stateChanges', () => {
+    const violations = StorySchema.validate({
+      id: 'test',
+      title: 'Test',
+      startNode: 'end',
+      nodes: {
+        end: {
+          type: 'end',
+          stateChanges: { courage: { increment: 1 }, flags: { seen: true }, name: 'Ada' }
+        }
+      }
+    });
+
+    expect(violations).toEqual([]);
+  });
+
+  test('should surface unknown node keys as warnings when parsing', () => {
+    const result = StoryParser.parseYaml(
+      [
+        'id: test',
+        'title: Test',
+        'startNode: start',
+        'nodes:',
+        '  start: { type: end, isEnd: true }'
+      ].join('\n')
+    );
+
+    expect(result.diagnostics).toMatchObject([
+      { severity: 'warning', code: 'unknown-property', path: ['nodes', 'start', 'isEnd'], line: 5 }
+    ]);
+  });
+
+  test('bundled story should satisfy the schema', () => {
+    const yaml = fs.readFileSync(path.join(storiesDir, 'story-grok.yaml'), 'utf8');
+    const { diagnostics } = StoryParser.parseYaml(yaml);
+
+    expect(diagnostics.filter((diagnostic) => diagnostic.code === 'unknown-property')).toEqual([]);
+  });
+});
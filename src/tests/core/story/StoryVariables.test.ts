@@ -0,0 +1,38 @@
+import { StoryVariable } from '../../../core/story/StoryData';
+import { StoryVariables } from '../../../core/story/StoryVariables';
+
+const variables: Record<string, StoryVariable> = {
+  courage: { type: 'number', default: 2, min: 0, max: 5 },
+  inventory: { type: 'array', default: ['map'] },
+  met: { type: 'boolean' }
+};
+
+describe('StoryVariables', () => {
+  test('should check state changes against declared types', () => {
+    expect(StoryVariables.defaults(variables)).toEqual({ courage: 2, inventory: ['map'] });
+    expect(StoryVariables.checkChange('courage', { increment: 1 }, variables)).toEqual([]);
+    expect(StoryVariables.checkChange('met', { toggle: true }, variables)).toEqual([]);
+    expect(StoryVariables.checkChange('inventory', { push: 'key' }, variables)).toEqual([]);
+    expect(StoryVariables.checkChange('met', { push: 'key' }, variables)).toEqual([
+      "Operation 'push' needs an array, but 'met' is a boolean"
+    ]);
+    expect(StoryVariables.checkChange('courage', { set: 9 }, variables)).toEqual([
+      "'courage' must be within [0, 5], not 9"
+    ]);
+    expect(StoryVariables.checkChange('met', null, variables)).toEqual([]);
+  });
+
+  test('should clamp numbers to their range and report other problems', () => {
+    const { state, messages } = StoryVariables.enforce(
+      { courage: -3, met: 'yes', gold: 1 },
+      variables
+    );
+
+    expect(state).toEqual({ courage: 0, met: 'yes', gold: 1 });
+    expect(messages).toEqual([
+      "'courage' clamped from -3 to 0",
+      '\'met\' must be a boolean, not "yes"',
+      "State key 'gold' is not a declared variable"
+    ]);
+  });
+});
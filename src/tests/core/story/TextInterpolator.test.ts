@@ -0,0 +1,77 @@
+import { ScriptError } from '../../../core/script/ScriptError';
+import { TextInterpolator } from '../../../core/story/TextInterpolator';
+
+const context = {
+  state: { playerName: 'Ada', courage: 3, gold: 1234.5, apples: 1, hasMap: true, bag: {} },
+  visitedNodes: ['start', 'cave'],
+  characters: {
+    guide: { id: 'guide', name: 'guide', displayName: 'Old Guide', textColor: '#ffcc00' }
+  }
+};
+
+describe('TextInterpolator', () => {
+  test('should resolve state values and character fields', () => {
+    expect(
+      TextInterpolator.interpolate(
+        'Hello {playerName}, courage {state.courage}. {char.guide} ({char.guide.textColor})',
+        context
+      )
+    ).toBe('Hello Ada, courage 3. Old Guide (#ffcc00)');
+  });
+
+  test('should apply formatters left to right', () => {
+    expect(TextInterpolator.interpolate('{playerName | upper}', context)).toBe('ADA');
+    expect(TextInterpolator.interpolate('{gold | number:2}', context)).toBe('1,234.50');
+    expect(TextInterpolator.interpolate('{apples | plural:apple:apples}', context)).toBe('1 apple');
+    expect(TextInterpolator.interpolate('{courage | plural:# try:# tries}', context)).toBe(
+      '3 tries'
+    );
+    expect(TextInterpolator.interpolate('{title | default:friend | capitalize}', context)).toBe(
+      'Friend'
+    );
+  });
+
+  test('should pick the first matching conditional fragment', () => {
+    const text =
+      "{if not hasMap}Lost.{elseif visited('cave') and courage > 2}Brave{if courage > 5}!{/if}.{else}Hm.{/if}";
+
+    expect(TextInterpolator.interpolate(text, context)).toBe('Brave.');
+    expect(TextInterpolator.interpolate(text, { ...context, state: { hasMap: false } })).toBe(
+      'Lost.'
+    );
+    expect(TextInterpolator.interpolate(text, { ...context, visitedNodes: [] })).toBe('Hm.');
+  });
+
+  test('should keep unresolved references and escaped braces as written', () => {
+    expect(TextInterpolator.interpolate('{bag.keys} {char.nobody} {{x}}', context)).toBe(
+      '{bag.keys} {char.nobody} {x}'
+    );
+  });
+
+  test('should list references and report malformed text with its offset', () => {
+    expect(
+      TextInterpolator.getReferences('{state.gold.total} {char.guide} {if hasMap}{name}{/if}')
+    ).toEqual({ stateKeys: ['gold', 'name'], characters: ['guide'], conditions: ['hasMap'] });
+
+    const errorAt = (text: string): number => {
+      try {
+        TextInterpolator.getReferences(text, { nodeId: 'start', field: 'text' });
+      } catch (error) {
+        expect(error).toBeInstanceOf(ScriptError);
+        return (error as ScriptError).offset;
+      }
+      throw new Error(`No error for ${text}`);
+    };
+
+    expect(errorAt('Hi {name | shout}')).toBe(4);
+    expect(errorAt('{if courage >}x{/if}')).toBe(13);
+    expect(errorAt('Hi {if hasMap}x')).toBe(3);
+    expect(errorAt('Hi }')).toBe(3);
+
+    for (const name of ['toString', 'constructor', 'hasOwnProperty']) {
+      expect(() => TextInterpolator.getReferences(`{x | ${name}}`)).toThrow(
+        `Unknown formatter '${name}'`
+      );
+    }
+  });
+});
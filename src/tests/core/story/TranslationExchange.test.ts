@@ -0,0 +1,125 @@
+import { Story } from '../../../core/story/StoryData';
+import { TranslationExchange } from '../../../core/story/TranslationExchange';
+
+const makeStory = (askText = 'Which "way"?'): Story => ({
+  id: 'test',
+  title: 'Test',
+  startNode: 'intro',
+  sceneIds: {},
+  assets: { characters: { guide: { id: 'guide', name: 'Guide' } } },
+  nodes: {
+    intro: {
+      id: 'intro',
+      type: 'dialogue',
+      sceneId: 'forest',
+      characterId: 'guide',
+      text: 'Welcome & hello.',
+      nextNode: 'ask'
+    },
+    ask: {
+      id: 'ask',
+      type: 'choice',
+      sceneId: 'forest',
+      characterId: 'guide',
+      text: askText,
+      choices: [
+        { id: 'left', text: 'Left', nextNode: 'end' },
+        { id: 'right', text: 'Right', nextNode: 'end' }
+      ]
+    },
+    end: { id: 'end', type: 'end', sceneId: 'forest' }
+  }
+});
+
+describe('TranslationExchange', () => {
+  test('should extract strings with speaker, node and previous line', () => {
+    expect(TranslationExchange.extract(makeStory())).toEqual([
+      { key: 'title', source: 'Test' },
+      { key: 'nodes.intro.text', source: 'Welcome & hello.', nodeId: 'intro', speaker: 'guide' },
+      {
+        key: 'nodes.ask.text',
+        source: 'Which "way"?',
+        nodeId: 'ask',
+        speaker: 'guide',
+        previous: 'Welcome & hello.'
+      },
+      {
+        key: 'nodes.ask.choices.left',
+        source: 'Left',
+        nodeId: 'ask',
+        speaker: 'guide',
+        previous: 'Which "way"?'
+      },
+      {
+        key: 'nodes.ask.choices.right',
+        source: 'Right',
+        nodeId: 'ask',
+        speaker: 'guide',
+        previous: 'Which "way"?'
+      },
+      { key: 'characters.guide.displayName', source: 'Guide' }
+    ]);
+  });
+
+  test('should round-trip translations through XLIFF', () => {
+    const existing = { locale: 'fr', strings: { 'nodes.ask.choices.left': 'Gauche' } };
+    const xliff = TranslationExchange.toXliff(makeStory(), 'fr', existing);
+
+    expect(xliff).toContain('srcLang="en" trgLang="fr"');
+    expect(xliff).toContain('<source>Welcome &amp; hello.</source>');
+    expect(xliff).toContain('<note category="speaker">guide</note>');
+    expect(xliff).toContain('<target>Gauche</target>');
+
+    const translated = xliff.replace(
+      '<source>Which &quot;way&quot;?</source>',
+      '<source>Which &quot;way&quot;?</source>\n        <target>Quel « chemin » ?</target>'
+    );
+    const result = TranslationExchange.fromXliff(translated, makeStory());
+
+    expect(result.table).toEqual({
+      locale: 'fr',
+      strings: { 'nodes.ask.text': 'Quel « chemin » ?', 'nodes.ask.choices.left': 'Gauche' }
+    });
+    expect(result.untranslated).toEqual([
+      'title',
+      'nodes.intro.text',
+      'nodes.ask.choices.right',
+      'characters.guide.displayName'
+    ]);
+    expect(result.stale).toEqual([]);
+  });
+
+  test('should round-trip translations through PO and report stale entries', () => {
+    const po = TranslationExchange.toPo(makeStory(), 'de', {
+      locale: 'de',
+      strings: { 'nodes.intro.text': 'Willkommen\nund hallo.', 'nodes.ask.text': 'Welcher Weg?' }
+    });
+
+    expect(po).toContain('"Language: de\\n"');
+    expect(po).toContain(
+      [
+        '#. Speaker: guide',
+        '#. Previous: Welcome & hello.',
+        '#: ask',
+        'msgctxt "nodes.ask.text"',
+        'msgid "Which \\"way\\"?"',
+        'msgstr "Welcher Weg?"'
+      ].join('\n')
+    );
+
+    const translated = po.replace(
+      'msgctxt "nodes.ask.choices.left"\nmsgid "Left"\nmsgstr ""',
+      '#, fuzzy\nmsgctxt "nodes.ask.choices.left"\nmsgid "Left"\nmsgstr "Links"'
+    );
+    const result = TranslationExchange.fromPo(translated, makeStory('Which path?'));
+
+    expect(result.table).toEqual({
+      locale: 'de',
+      strings: { 'nodes.intro.text': 'Willkommen\nund hallo.' }
+    });
+    expect(result.untranslated).toContain('nodes.ask.choices.left');
+    expect(result.stale).toEqual([
+      { key: 'nodes.ask.text', reason: 'changed', source: 'Which "way"?', current: 'Which path?' }
+    ]);
+  });
+});
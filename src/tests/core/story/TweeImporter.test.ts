@@ -0,0 +1,168 @@
+import YAML from 'yaml';
+import { StoryParser } from '../../../core/story/StoryParser';
+import { TweeImporter } from '../../../core/story/TweeImporter';
+
+const twee = (...lines: string[]) => lines.join('\n');
+
+const forest = twee(
+  ':: StoryTitle',
+  "The Forest's Secret",
+  '',
+  ':: StoryData',
+  '{ "ifid": "D674C58C-DEFA-4F70-B7A2-27742230C0FC", "format": "SugarCube", "start": "Forest Path" }',
+  '',
+  ':: StoryInit',
+  '<<set $courage to 0, $name to "traveler">>',
+  '',
+  ':: Forest Path [intro forest]',
+  'The path splits at an old oak.',
+  '<<set $visits += 1>>',
+  '[[Enter boldly|Cave]]',
+  '<<if $courage gt 5>>[[Fight the spirit->Cave][$fought to true]]<</if>>',
+  '[[Turn back]]',
+  '',
+  ':: Cave',
+  '<<if $fought>><<goto "Victory">><</if>>',
+  '<<goto "Turn back">>',
+  '',
+  ':: Victory',
+  'The spirit fades.',
+  '',
+  ':: Turn back',
+  'You head home.'
+);
+
+describe('TweeImporter', () => {
+  test('should map passages, links, sets and conditions onto nodes', () => {
+    const { story, diagnostics } = TweeImporter.import(forest, 'forest.twee');
+
+    expect(diagnostics).toEqual([]);
+    expect(story).toMatchObject({
+      id: 'the_forest_s_secret',
+      title: "The Forest's Secret",
+      startNode: 'forest_path',
+      initialState: { courage: 0, name: 'traveler' }
+    });
+    expect(story.nodes).toEqual({
+      forest_path: {
+        id: 'forest_path',
+        type: 'choice',
+        characterId: 'narrator',
+        text: 'The path splits at an old oak.',
+        tags: ['intro', 'forest'],
+        stateChanges: { visits: { increment: 1 } },
+        choices: [
+          { id: 'enter_boldly', text: 'Enter boldly', nextNode: 'cave' },
+          {
+            id: 'fight_the_spirit',
+            text: 'Fight the spirit',
+            nextNode: 'cave',
+            condition: 'courage > 5',
+            stateChanges: { fought: true }
+          },
+          { id: 'turn_back', text: 'Turn back', nextNode: 'turn_back' }
+        ]
+      },
+      cave: {
+        id: 'cave',
+        type: 'branch',
+        cases: [{ condition: 'fought', nextNode: 'victory' }],
+        else: 'turn_back'
+      },
+      victory: { id: 'victory', type: 'end', text: 'The spirit fades.' },
+      turn_back: { id: 'turn_back', type: 'end', text: 'You head home.' }
+    });
+  });
+
+  test('should load through the parser and round-trip as YAML', () => {
+    const { story } = StoryParser.parseTwee(forest, 'forest.twee');
+    const yaml = TweeImporter.toYaml(story);
+
+    expect(yaml.startsWith('# yaml-language-server: $schema=./story.schema.json\n')).toBe(true);
+    expect(StoryParser.parseYaml(yaml).story.nodes).toEqual(story.nodes);
+    expect(YAML.parse(yaml).startNode).toBe('forest_path');
+  });
+
+  test('should move sets after an expression into an onEnter script', () => {
+    const { story } = TweeImporter.import(
+      twee(
+        ':: Start',
+        '<<set $gold to 5, $gold to $gold * 2, $seen to true>>',
+        '<<if $gold gte 10>><<set $rich to true>><<else>><<set $poor to true>><</if>>'
+      )
+    );
+
+    expect(story.nodes.start).toMatchObject({
+      type: 'end',
+      stateChanges: { gold: 5 },
+      onEnter: [
+        'gold = gold * 2',
+        'seen = true',
+        'if (gold >= 10) { rich = true }',
+        'if (not (gold >= 10)) { poor = true }'
+      ].join('\n')
+    });
+  });
+
+  test('should warn about constructs it cannot translate', () => {
+    const { story, diagnostics } = StoryParser.parseTwee(
+      twee(
+        ':: Start',
+        'Hello $name.',
+        '<<audio "theme" play>>',
+        '<<if _temp>>[[Secret]]<</if>>',
+        '',
+        ':: Secret',
+        'Found it.',
+        '',
+        ':: UserScript [script]',
+        'Config.history.maxStates = 1;'
+      ),
+      'test.twee'
+    );
+
+    expect(story.nodes.start.choices).toEqual([
+      { id: 'secret', text: 'Secret', nextNode: 'secret' }
+    ]);
+    expect(diagnostics.map(({ code, line }) => ({ code, line }))).toEqual([
+      { code: 'unsupported-passage', line: 9 },
+      { code: 'unsupported-macro', line: 3 },
+      { code: 'untranslated-macro', line: 4 },
+      { code: 'untranslated-macro', line: 4 },
+      { code: 'untranslated-macro', line: 1 }
+    ]);
+  });
+
+  test('should end the story when no conditional <<goto>> holds', () => {
+    const { story, diagnostics } = TweeImporter.import(
+      twee(
+        ':: Start',
+        'The gate is shut.',
+        '<<if $key>><<goto "Inside">><</if>>',
+        '',
+        ':: Inside',
+        'You are in.',
+        '',
+        ':: start_end',
+        'Taken.'
+      ),
+      'test.twee'
+    );
+
+    expect(story.nodes.start).toEqual({
+      id: 'start',
+      type: 'branch',
+      cases: [{ condition: 'key', nextNode: 'inside' }],
+      else: 'start_end_2'
+    });
+    expect(story.nodes.start_end_2).toEqual({
+      id: 'start_end_2',
+      type: 'end',
+      text: 'The gate is shut.'
+    });
+    expect(Object.keys(story.nodes)).toEqual(['start', 'start_end_2', 'inside', 'start_end']);
+    expect(diagnostics.map(({ code, line }) => ({ code, line }))).toEqual([
+      { code: 'untranslated-macro', line: 1 }
+    ]);
+  });
+});
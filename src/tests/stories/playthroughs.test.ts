@@ -0,0 +1,32 @@
+import fs from 'fs';
+import path from 'path';
+import { PlaythroughRunner } from '../../core/story/PlaythroughRunner';
+import { Story } from '../../core/story/StoryData';
+import { StoryParser } from '../../core/story/StoryParser';
+
+// Runs every *.playthrough.yaml in this directory against the story it names
+const files = fs.readdirSync(__dirname).filter((file) => file.endsWith('.playthrough.yaml'));
+
+describe.each(files)('%s', (file) => {
+  const spec = PlaythroughRunner.parse(fs.readFileSync(path.join(__dirname, file), 'utf8'));
+  let story: Story;
+
+  beforeAll(async () => {
+    const storyPath = path.join(__dirname, spec.story);
+    ({ story } = await StoryParser.parseFiles(storyPath, async (target) =>
+      fs.readFileSync(target, 'utf8')
+    ));
+  });
+
+  test.each(
+    spec.playthroughs.map((playthrough, index) => [
+      playthrough.name ?? `#${index + 1}`,
+      playthrough
+    ])
+  )('%s', (_name, playthrough) => {
+    const result = PlaythroughRunner.run(story, playthrough);
+    if (!result.passed) {
+      throw new Error(PlaythroughRunner.formatResult(result));
+    }
+  });
+});
@@ -0,0 +1,37 @@
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { defineConfig, Plugin } from 'vite';
+
+const STORY_DIR = fileURLToPath(new URL('./public/assets/stories', import.meta.url));
+
+/**
+ * Tells the game when a story file changes so it can swap the story in
+ * place (see Game.reloadStory) instead of the page being reloaded.
+ */
+function storyHotReload(): Plugin {
+  return {
+    name: 'story-hot-reload',
+    apply: 'serve',
+    hotUpdate({ file }) {
+      if (this.environment.name !== 'client') return;
+
+      const relative = path.relative(STORY_DIR, file);
+      const isStory =
+        !relative.startsWith('..') &&
+        /\.(ya?ml|json)$/.test(file) &&
+        !file.endsWith('.schema.json');
+      if (!isStory) return;
+
+      this.environment.hot.send({
+        type: 'custom',
+        event: 'story:changed',
+        data: { file: relative }
+      });
+      return [];
+    }
+  };
+}
+
+export default defineConfig({
+  plugins: [storyHotReload()]
+});